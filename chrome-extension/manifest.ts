@@ -29,8 +29,9 @@ const manifest = {
   },
   version: packageJson.version,
   description: '__MSG_extensionDescription__',
-  host_permissions: ['*://learn.leaponline.com/*'],
-  permissions: ['storage', 'scripting', 'tabs', 'notifications', 'sidePanel'],
+  // Local model servers, which usually do not send CORS headers
+  host_permissions: ['*://learn.leaponline.com/*', 'http://localhost/*', 'http://127.0.0.1/*'],
+  permissions: ['storage', 'scripting', 'tabs', 'notifications', 'sidePanel', 'alarms'],
   options_page: 'options/index.html',
   background: {
     service_worker: 'background.js',
@@ -1,48 +1,162 @@
 import 'webextension-polyfill';
-import { exampleThemeStorage } from '@extension/storage';
-import OpenAI from 'openai';
+import { t } from '@extension/i18n';
+import { handleJobs, handleMessages, handleStreams } from '@extension/messaging';
+import { renderPrompt } from '@extension/prompts';
+import type { FlashcardDraft, LlmQueueStatus } from '@extension/storage';
+import {
+  apiKeysStorage,
+  exampleThemeStorage,
+  flashcardDraftsStorage,
+  lessonNotesStorage,
+  llmQueueStorage,
+  llmSettingsStorage,
+  startQuotaWatchdog,
+  StorageEnum,
+} from '@extension/storage';
+import {
+  assertLlmConfigured,
+  chat,
+  chatStructured,
+  isLlmConfigured,
+  LlmError,
+  purgeExpiredCache,
+  streamChat,
+  validateApiKey,
+} from '@src/background/llm';
+import type { ChatMessage, JsonSchema } from '@src/background/llm';
 
-// OpenAI API configuration
-const OPENAI_API_KEY = process.env.CEB_OPENAI_API_KEY;
+const SYSTEM_PROMPT = 'You are a helpful assistant.';
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true, // Required for browser environment
-});
+// Older messages of a tutor chat are dropped to keep requests small
+const MAX_TUTOR_MESSAGES = 20;
 
-// Function to process message with OpenAI
-async function processWithOpenAI(message: string) {
-  if (!OPENAI_API_KEY) {
-    throw new Error('OpenAI API key not found in environment variables (CEB_OPENAI_API_KEY)');
-  }
+// One of the choices per question or scenario, in order
+const answersSchema = (choices: string[], count: number) =>
+  ({
+    type: 'object',
+    properties: {
+      answers: {
+        type: 'array',
+        description: 'The exact text of the correct choice for each question or scenario, in order',
+        items: { type: 'string', enum: choices },
+        minItems: count,
+        maxItems: count,
+      },
+    },
+    required: ['answers'],
+    additionalProperties: false,
+  }) as const satisfies JsonSchema;
+
+// Lessons are sent in parts of about this many characters, so long ones fit the context and the answer limit
+const FLASHCARD_PART_LENGTH = 6000;
+
+// Room for the JSON of the most cards a part may give, about 120 tokens each, whatever the limit in the options
+const FLASHCARD_MAX_TOKENS = 3000;
+
+const flashcardsSchema = {
+  type: 'object',
+  properties: {
+    cards: {
+      type: 'array',
+      maxItems: 20,
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: ['basic', 'cloze'] },
+          front: {
+            type: 'string',
+            minLength: 1,
+            description: 'The question or term, or for cloze cards the sentence with its key words replaced by [...]',
+          },
+          back: { type: 'string', minLength: 1, description: 'The answer, or for cloze cards the missing words' },
+          paragraph: { type: 'integer', minimum: 1, description: 'Number of the paragraph the card is based on' },
+        },
+        required: ['kind', 'front', 'back', 'paragraph'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['cards'],
+  additionalProperties: false,
+} as const satisfies JsonSchema;
+
+// Paragraphs in parts of at most FLASHCARD_PART_LENGTH characters, longer paragraphs make a part of their own
+const splitIntoParts = (paragraphs: string[]) =>
+  paragraphs.reduce<string[][]>((parts, paragraph) => {
+    const last = parts.at(-1);
+    if (last && [...last, paragraph].join('\n\n').length <= FLASHCARD_PART_LENGTH) last.push(paragraph);
+    else parts.push([paragraph]);
+
+    return parts;
+  }, []);
+
+// Function to process message with the language model chosen in the options
+async function processWithLlm(message: string) {
+  await assertLlmConfigured();
+
+  const { text } = await chat(
+    [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: message },
+    ],
+    { label: 'completePrompt' },
+  );
+
+  return text;
+}
+
+// Streams the answer to a conversation as text deltas. When resuming after the service worker restarted, the model is
+// asked to continue the partial answer the page already shows.
+async function* streamWithLlm(
+  messages: ChatMessage[],
+  { label, signal, resumeAfter }: { label: string; signal: AbortSignal; resumeAfter: string },
+) {
+  await assertLlmConfigured();
+
+  // Queue statuses arrive while the stream waits for its first delta, so both are awaited at once
+  const statuses: LlmQueueStatus[] = [];
+  let wake: (() => void) | null = null;
+
+  const stream = streamChat(
+    [
+      ...messages,
+      ...(resumeAfter
+        ? [
+            { role: 'assistant' as const, content: resumeAfter },
+            { role: 'user' as const, content: 'Continue your answer exactly where it stopped, without repeating it.' },
+          ]
+        : []),
+    ],
+    {
+      label,
+      signal,
+      onStatus: status => {
+        statuses.push(status);
+        wake?.();
+      },
+    },
+  );
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        { role: 'system', content: 'You are a helpful assistant.' },
-        { role: 'user', content: message },
-      ],
-      max_tokens: 150,
-    });
+    let next = stream.next();
+    for (;;) {
+      const result = statuses.length
+        ? null
+        : await Promise.race([next, new Promise<null>(resolve => (wake = () => resolve(null)))]);
+      wake = null;
 
-    return completion.choices[0].message.content;
-  } catch (error: any) {
-    // Handle specific OpenAI errors
-    if (error?.status === 429) {
-      throw new Error(
-        'OpenAI API rate limit exceeded. Please try again later or check your billing status at platform.openai.com/account/billing',
-      );
-    } else if (error?.status === 401) {
-      throw new Error('Invalid OpenAI API key. Please check your API key configuration.');
-    } else if (error?.status === 500) {
-      throw new Error('OpenAI service is currently experiencing issues. Please try again later.');
-    }
+      while (statuses.length) {
+        yield { text: '', queue: statuses.shift() };
+      }
+      if (!result) continue;
+      if (result.done) return { text: resumeAfter + result.value.text };
 
-    // Log the full error for debugging but send a user-friendly message
-    console.error('Full OpenAI error:', error);
-    throw new Error('Unable to get response from AI. Please try again later.');
+      yield { text: result.value };
+      next = stream.next();
+    }
+  } catch (error) {
+    if (error instanceof LlmError && error.code === 'cancelled') return { text: resumeAfter };
+    throw error;
   }
 }
 
@@ -52,39 +166,207 @@ exampleThemeStorage.get().then(theme => {
 
 console.log('Background loaded');
 
-// Add message listener for connection validation
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  if (message.type === 'CHECK_CONNECTION') {
-    sendResponse({ status: 'connected', timestamp: new Date().toISOString() });
-  }
+const storageAreaLabels: Record<StorageEnum, string> = {
+  [StorageEnum.Local]: t('quotaAreaLocal'),
+  [StorageEnum.Sync]: t('quotaAreaSync'),
+  [StorageEnum.Session]: t('quotaAreaSession'),
+  [StorageEnum.Managed]: t('quotaAreaManaged'),
+};
+
+// Warn before writes start failing with QUOTA_BYTES exceeded
+startQuotaWatchdog({
+  onLevelChange: (area, { level, ratio }, previous) => {
+    if (level === 'ok' || (previous === 'critical' && level === 'warning')) return;
 
-  if (message.type === 'SEND_MESSAGE') {
-    console.log('Background received message:', message.text);
-
-    // Process message with OpenAI
-    processWithOpenAI(message.text)
-      .then(aiResponse => {
-        sendResponse({
-          status: 'received',
-          originalText: message.text,
-          aiResponse,
-          timestamp: new Date().toISOString(),
-        });
-      })
-      .catch(error => {
-        sendResponse({
-          status: 'error',
-          originalText: message.text,
-          error: error.message,
-          timestamp: new Date().toISOString(),
-        });
-      });
-
-    // Return true to indicate we will send response asynchronously
-    return true;
+    chrome.notifications.create(`storage-quota-${area}`, {
+      type: 'basic',
+      iconUrl: chrome.runtime.getURL('icon-128.png'),
+      title: t(level === 'critical' ? 'quotaNotificationCritical' : 'quotaNotificationWarning'),
+      message: `${storageAreaLabels[area]}: ${t('quotaPercentFull', String(Math.round(ratio * 100)))} ${t('quotaNotificationHint')}`,
+    });
+  },
+});
+
+// Responses expired long ago are not even worth serving offline
+purgeExpiredCache().catch(error => console.error('Purging the LLM cache failed', error));
+
+// LLM features stay off until a key is entered in the options, the badge points there
+const updateLlmBadge = async () => {
+  const configured = await isLlmConfigured();
+
+  await chrome.action.setBadgeText({ text: configured ? '' : '!' });
+  await chrome.action.setTitle({ title: configured ? '' : t('llmBadgeMissingKey') });
+};
+
+updateLlmBadge();
+apiKeysStorage.subscribe(updateLlmBadge);
+llmSettingsStorage.subscribe(updateLlmBadge);
+
+chrome.runtime.onInstalled.addListener(async ({ reason }) => {
+  if (reason === chrome.runtime.OnInstalledReason.INSTALL && !(await isLlmConfigured())) {
+    chrome.runtime.openOptionsPage();
   }
+});
+
+handleMessages({
+  checkConnection: () => ({ status: 'connected', timestamp: new Date().toISOString() }),
+  completePrompt: async ({ text }) => {
+    console.log('Background received message:', text);
+
+    return { text: await processWithLlm(text) };
+  },
+  answerQuestion: async ({ prompt, choices, count }) => {
+    await assertLlmConfigured();
+
+    const { value } = await chatStructured(
+      [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: prompt },
+      ],
+      { name: 'answers', schema: answersSchema(choices, count), label: 'answerQuestion' },
+    );
+
+    return { answers: value.answers };
+  },
+  getLlmQueue: () => llmQueueStorage.get(),
+  saveLessonNote: async note => {
+    // Revisiting a lesson keeps the time it was first read
+    const saved = await lessonNotesStorage.getByKey(note.id);
+    if (saved?.html === note.html && saved.text === note.text) return { saved: false };
+
+    await lessonNotesStorage.put({ ...note, capturedAt: Date.now() });
+
+    return { saved: true };
+  },
+  validateApiKey: async ({ provider, apiKey }) => {
+    await validateApiKey(provider, apiKey);
+
+    return { valid: true };
+  },
+});
+
+handleStreams({
+  streamPrompt: ({ text }, { signal, resumeAfter }) =>
+    streamWithLlm(
+      [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: text },
+      ],
+      { label: 'streamPrompt', signal, resumeAfter: resumeAfter.map(chunk => chunk.text).join('') },
+    ),
+  streamTutorChat: async function* ({ messages, lesson }, { signal, resumeAfter }) {
+    const system = await renderPrompt('tutor', { lessonTitle: lesson?.title ?? '', lesson: lesson?.text ?? '' });
+    // Pages may only speak for the user and replay earlier answers, the system prompt is ours
+    const conversation = messages
+      .filter(({ role }) => role === 'user' || role === 'assistant')
+      .slice(-MAX_TUTOR_MESSAGES)
+      .map(({ role, content }) => ({ role, content }));
+
+    return yield* streamWithLlm([{ role: 'system', content: system }, ...conversation], {
+      label: 'tutorChat',
+      signal,
+      resumeAfter: resumeAfter.map(chunk => chunk.text).join(''),
+    });
+  },
+});
+
+handleJobs({
+  completePrompts: async ({ prompts }, { checkpoint, signal, report }) => {
+    await assertLlmConfigured();
+
+    // Prompts answered before a restart of the service worker are not sent again
+    const answers = [...(checkpoint?.answers ?? [])];
+    await report({ done: answers.length, total: prompts.length });
+
+    for (const prompt of prompts.slice(answers.length)) {
+      const { text } = await chat(
+        [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: prompt },
+        ],
+        { label: 'completePrompts', signal },
+      );
+      answers.push(text);
+      await report({ done: answers.length, total: prompts.length }, { answers });
+    }
+
+    return { answers };
+  },
+  makeFlashcards: async ({ noteId }, { id, checkpoint, signal, report }) => {
+    await assertLlmConfigured();
+
+    const note = await lessonNotesStorage.getByKey(noteId);
+    if (!note) throw new Error('The lesson note no longer exists');
+
+    const parts = splitIntoParts(
+      note.text
+        .split(/\n\s*\n/)
+        .map(paragraph => paragraph.trim())
+        .filter(Boolean),
+    );
+    let { parts: done, drafts } = checkpoint ?? { parts: 0, drafts: 0 };
+    await report({ done, total: parts.length, message: note.title });
+
+    for (const paragraphs of parts.slice(done)) {
+      const prompt = await renderPrompt('makeFlashcards', { title: note.title, paragraphs });
+      const { value } = await chatStructured(
+        [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: prompt },
+        ],
+        {
+          name: 'flashcards',
+          schema: flashcardsSchema,
+          label: 'makeFlashcards',
+          maxTokens: FLASHCARD_MAX_TOKENS,
+          signal,
+        },
+      );
+
+      // Cards citing no paragraph of the part, or cloze cards without a gap, cannot be checked against the lesson
+      const cards = value.cards.filter(
+        card =>
+          card.front.trim() &&
+          card.back.trim() &&
+          card.paragraph <= paragraphs.length &&
+          (card.kind === 'basic' || card.front.includes('[...]')),
+      );
+      if (cards.length < value.cards.length) {
+        console.warn(`Dropped ${value.cards.length - cards.length} flashcards of "${note.title}" without a source`);
+      }
+
+      // Drafts are keyed by the job and part, so a part done again after a restart replaces its drafts, even when
+      // it makes fewer cards this time
+      const prefix = `${id}:${done}:`;
+      const stale: string[] = [];
+      await flashcardDraftsStorage.iterate(
+        draft => {
+          stale.push(draft.id);
+        },
+        { query: IDBKeyRange.bound(prefix, `${prefix}\uffff`) },
+      );
+      await flashcardDraftsStorage.deleteMany(stale);
+
+      const now = Date.now();
+      await flashcardDraftsStorage.putMany(
+        cards.map(
+          (card, index): FlashcardDraft => ({
+            id: `${prefix}${index}`,
+            kind: card.kind,
+            front: card.front.trim(),
+            back: card.back.trim(),
+            source: { noteId: note.id, title: note.title, excerpt: paragraphs[card.paragraph - 1] },
+            createdAt: now,
+          }),
+        ),
+      );
+      done += 1;
+      drafts += cards.length;
+      await report({ done, total: parts.length, message: note.title }, { parts: done, drafts });
+    }
 
-  return true;
+    return { drafts };
+  },
 });
 
 console.log("Edit 'chrome-extension/src/background/index.ts' and save to reload.");
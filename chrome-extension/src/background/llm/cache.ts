@@ -0,0 +1,103 @@
+import type { LlmCacheEntry, LlmProviderId } from '@extension/storage';
+import { llmCacheStatsStorage, llmCacheStorage } from '@extension/storage';
+import type { ChatRequest, ChatResult } from '@src/background/llm/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * How long responses are served from the cache. Lessons are studied again over weeks.
+ */
+export const DEFAULT_CACHE_TTL = 30 * DAY;
+
+/**
+ * How long expired responses are kept for offline use before they are purged.
+ */
+const STALE_GRACE = 60 * DAY;
+
+const PREVIEW_LENGTH = 200;
+
+/**
+ * Whitespace differences, e.g. from indented template literals, should not miss the cache.
+ */
+export const normalizeWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Hashes everything which changes the response.
+ */
+export const getCacheKey = async (
+  provider: LlmProviderId,
+  { messages, model, temperature, maxTokens, output }: ChatRequest,
+) => {
+  const normalized = JSON.stringify({
+    provider,
+    model,
+    temperature,
+    maxTokens,
+    ...(output && { output }),
+    messages: messages.map(({ role, content }) => [role, normalizeWhitespace(content)]),
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const count = (field: 'hits' | 'misses' | 'staleHits') =>
+  llmCacheStatsStorage.set(stats => ({ ...stats, [field]: stats[field] + 1 })).catch(error => console.error(error));
+
+/**
+ * Looks up a response. Expired entries are only returned with `allowStale`, e.g. while offline.
+ */
+export const readCache = async (hash: string, { allowStale = false } = {}): Promise<ChatResult | null> => {
+  const entry = await llmCacheStorage.getByKey(hash).catch(() => undefined);
+  const fresh = !!entry && entry.expiresAt > Date.now();
+
+  if (!entry || (!fresh && !allowStale)) {
+    // Stale lookups follow a miss which was already counted
+    if (!allowStale) count('misses');
+    return null;
+  }
+
+  count(fresh ? 'hits' : 'staleHits');
+  llmCacheStorage.put({ ...entry, hits: entry.hits + 1, usedAt: Date.now() }).catch(error => console.error(error));
+
+  return { text: entry.text, model: entry.model, usage: entry.usage, cached: true };
+};
+
+export const writeCache = async (
+  hash: string,
+  provider: LlmProviderId,
+  request: ChatRequest,
+  result: ChatResult,
+  { label = 'request', ttl = DEFAULT_CACHE_TTL }: { label?: string; ttl?: number } = {},
+) => {
+  // Cancelled streams return what they received so far
+  if (!result.text) return;
+
+  const lastUserMessage = [...request.messages].reverse().find(({ role }) => role === 'user')?.content ?? '';
+  const now = Date.now();
+  const entry: LlmCacheEntry = {
+    hash,
+    provider,
+    model: result.model,
+    label,
+    preview: normalizeWhitespace(lastUserMessage).slice(0, PREVIEW_LENGTH),
+    text: result.text,
+    usage: result.usage,
+    createdAt: now,
+    expiresAt: now + ttl,
+    usedAt: now,
+    hits: 0,
+  };
+
+  await llmCacheStorage.put(entry).catch(error => console.error('Writing the LLM cache failed', error));
+};
+
+/**
+ * Removes entries which expired longer than the grace period ago, returns how many were removed.
+ */
+export const purgeExpiredCache = async (grace = STALE_GRACE) => {
+  const expired = await llmCacheStorage.query('expiresAt', IDBKeyRange.upperBound(Date.now() - grace));
+  await llmCacheStorage.deleteMany(expired.map(({ hash }) => hash));
+
+  return expired.length;
+};
@@ -0,0 +1,158 @@
+import type { LlmQueueStatus } from '@extension/storage';
+import { LlmError } from '@src/background/llm/errors';
+import type { QueueOptions } from '@src/background/llm/queue';
+
+type SharedContext = {
+  signal: AbortSignal;
+  onStatus: (status: LlmQueueStatus) => void;
+};
+
+type Shared = {
+  controller: AbortController;
+  callers: number;
+  listeners: Set<(status: LlmQueueStatus) => void>;
+  /**
+   * Wakes up the callers waiting for the next chunk.
+   */
+  wake: Set<() => void>;
+  chunks: unknown[];
+  outcome?: { ok: true; value: unknown } | { ok: false; error: unknown };
+};
+
+/**
+ * Identical requests in flight, e.g. several tabs asking the same question.
+ */
+const shared = new Map<string, Shared>();
+
+const join = (key: string, provider: string, options: QueueOptions, start: (entry: Shared) => void) => {
+  let entry = shared.get(key);
+  if (!entry) {
+    entry = { controller: new AbortController(), callers: 0, listeners: new Set(), wake: new Set(), chunks: [] };
+    shared.set(key, entry);
+    start(entry);
+  }
+
+  const current = entry;
+  current.callers++;
+  if (options.onStatus) current.listeners.add(options.onStatus);
+
+  let left = false;
+  const leave = () => {
+    if (left) return;
+    left = true;
+    if (options.onStatus) current.listeners.delete(options.onStatus);
+
+    // The shared request is only cancelled once every caller is gone
+    if (--current.callers === 0 && !current.outcome) {
+      current.controller.abort();
+      shared.delete(key);
+    }
+  };
+
+  const waitForChange = () =>
+    new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        current.wake.delete(onWake);
+        reject(new LlmError({ code: 'cancelled', message: 'The request was cancelled.', provider }));
+      };
+      const onWake = () => {
+        options.signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      if (options.signal?.aborted) return onAbort();
+
+      current.wake.add(onWake);
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+  return { entry: current, leave, waitForChange };
+};
+
+const settle = (key: string, entry: Shared, outcome: NonNullable<Shared['outcome']>) => {
+  entry.outcome = outcome;
+  if (shared.get(key) === entry) shared.delete(key);
+  notify(entry);
+};
+
+const notify = (entry: Shared) => {
+  const wake = Array.from(entry.wake);
+  entry.wake.clear();
+  wake.forEach(resolve => resolve());
+};
+
+const createContext = (entry: Shared): SharedContext => ({
+  signal: entry.controller.signal,
+  onStatus: status => entry.listeners.forEach(listener => listener(status)),
+});
+
+/**
+ * Runs a request once for all identical callers, see {@link shareStream}.
+ */
+export const shareRequest = async <T>(
+  key: string,
+  provider: string,
+  run: (context: SharedContext) => Promise<T>,
+  options: QueueOptions = {},
+): Promise<T> => {
+  const { entry, leave, waitForChange } = join(key, provider, options, entry => {
+    run(createContext(entry)).then(
+      value => settle(key, entry, { ok: true, value }),
+      error => settle(key, entry, { ok: false, error }),
+    );
+  });
+
+  try {
+    while (!entry.outcome) {
+      await waitForChange();
+    }
+    if (!entry.outcome.ok) throw entry.outcome.error;
+
+    return entry.outcome.value as T;
+  } finally {
+    leave();
+  }
+};
+
+/**
+ * Streams a response once for all identical callers. Callers joining late first get the chunks they missed.
+ * The shared stream is cancelled when the last caller cancels.
+ */
+export async function* shareStream<T, R>(
+  key: string,
+  provider: string,
+  create: (context: SharedContext) => AsyncGenerator<T, R, void>,
+  options: QueueOptions = {},
+): AsyncGenerator<T, R, void> {
+  const { entry, leave, waitForChange } = join(key, provider, options, async entry => {
+    try {
+      const stream = create(createContext(entry));
+      for (;;) {
+        const { value, done } = await stream.next();
+        if (done) {
+          settle(key, entry, { ok: true, value });
+          return;
+        }
+
+        entry.chunks.push(value);
+        notify(entry);
+      }
+    } catch (error) {
+      settle(key, entry, { ok: false, error });
+    }
+  });
+
+  try {
+    for (let index = 0; ; ) {
+      if (index < entry.chunks.length) {
+        yield entry.chunks[index++] as T;
+      } else if (entry.outcome) {
+        if (!entry.outcome.ok) throw entry.outcome.error;
+        return entry.outcome.value as R;
+      } else {
+        await waitForChange();
+      }
+    }
+  } finally {
+    leave();
+  }
+}
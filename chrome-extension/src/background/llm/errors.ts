@@ -0,0 +1,122 @@
+export type LlmErrorCode =
+  | 'missing-key'
+  | 'invalid-key'
+  | 'rate-limit'
+  | 'bad-request'
+  | 'unavailable'
+  | 'network'
+  | 'cancelled'
+  | 'budget-exceeded'
+  | 'invalid-output'
+  | 'unknown';
+
+/**
+ * Error of a language model provider, normalized across backends.
+ */
+export class LlmError extends Error {
+  readonly code: LlmErrorCode;
+  readonly provider: string;
+  readonly status?: number;
+  /**
+   * Milliseconds the provider asked to wait before retrying.
+   */
+  readonly retryAfter?: number;
+
+  constructor({
+    code,
+    message,
+    provider,
+    status,
+    retryAfter,
+  }: {
+    code: LlmErrorCode;
+    message: string;
+    provider: string;
+    status?: number;
+    retryAfter?: number;
+  }) {
+    super(message);
+    this.name = 'LlmError';
+    this.code = code;
+    this.provider = provider;
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Reads `retry-after-ms` or `retry-after`, the latter either in seconds or as an HTTP date.
+ */
+export const parseRetryAfter = (headers?: Headers | Record<string, string | null | undefined> | null) => {
+  const get = (name: string) => (headers instanceof Headers ? headers.get(name) : headers?.[name]) ?? null;
+
+  const milliseconds = Number(get('retry-after-ms'));
+  if (milliseconds > 0) return milliseconds;
+
+  const value = get('retry-after');
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const messages: Record<LlmErrorCode, (provider: string) => string> = {
+  'missing-key': provider => `No API key is configured for ${provider}. Add one in the options.`,
+  'invalid-key': provider => `The ${provider} API key was rejected. Please check your API key configuration.`,
+  'rate-limit': provider => `${provider} rate limit exceeded. Please try again later or check your billing status.`,
+  'bad-request': provider => `${provider} rejected the request. Please check the model and limits in the options.`,
+  unavailable: provider => `${provider} is currently experiencing issues. Please try again later.`,
+  network: provider => `Unable to reach ${provider}. Please check your connection or endpoint.`,
+  cancelled: () => 'The request was cancelled.',
+  'budget-exceeded': () => 'The LLM budget is used up. Raise the caps in the options to continue.',
+  'invalid-output': provider => `${provider} did not answer in the expected format. Please try again.`,
+  unknown: () => 'Unable to get response from AI. Please try again later.',
+};
+
+/**
+ * Maps an HTTP status, or a failed request without one, to an {@link LlmError} with a message for the user.
+ */
+export const toLlmError = (
+  provider: string,
+  error: unknown,
+  {
+    status,
+    headers,
+    signal,
+    network,
+  }: {
+    status?: number;
+    headers?: Parameters<typeof parseRetryAfter>[0];
+    signal?: AbortSignal;
+    /**
+     * Whether the request failed before a response arrived.
+     */
+    network?: boolean;
+  },
+) => {
+  if (error instanceof LlmError) return error;
+
+  let code: LlmErrorCode = 'unknown';
+  if (signal?.aborted || (error instanceof Error && error.name === 'AbortError')) code = 'cancelled';
+  else if (status === 401 || status === 403) code = 'invalid-key';
+  else if (status === 429) code = 'rate-limit';
+  else if (status !== undefined && status >= 400 && status < 500) code = 'bad-request';
+  else if (status !== undefined && status >= 500) code = 'unavailable';
+  else if (network || error instanceof TypeError) code = 'network';
+
+  if (code === 'unknown') {
+    // Log the full error for debugging but send a user-friendly message
+    console.error(`Full ${provider} error:`, error);
+  }
+
+  return new LlmError({
+    code,
+    message: messages[code](provider),
+    provider,
+    status,
+    retryAfter: code === 'rate-limit' || code === 'unavailable' ? parseRetryAfter(headers) : undefined,
+  });
+};
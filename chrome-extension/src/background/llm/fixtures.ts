@@ -0,0 +1,137 @@
+import type { LlmFixture, LlmFixtureFile, LlmProviderId } from '@extension/storage';
+import { llmFixturesStorage } from '@extension/storage';
+import { normalizeWhitespace } from '@src/background/llm/cache';
+import { LlmError } from '@src/background/llm/errors';
+import { estimateTokens } from '@src/background/llm/tokens';
+import type { ChatMessage, ChatResult, LlmProvider } from '@src/background/llm/types';
+
+export type LlmMode = 'live' | 'record' | 'replay';
+
+/**
+ * Set at build time with `CEB_LLM_MODE`. `record` saves every response as a fixture, `replay` answers from the
+ * fixtures bundled from `tests/e2e/fixtures/llm` without network or API key.
+ */
+export const LLM_MODE: LlmMode =
+  process.env.CEB_LLM_MODE === 'record' || process.env.CEB_LLM_MODE === 'replay' ? process.env.CEB_LLM_MODE : 'live';
+
+/**
+ * Written into the build by the `llm-fixtures` plugin in replay mode.
+ */
+const FIXTURES_FILE = 'llm-fixtures.json';
+
+const REPLAY_PROVIDER = 'Replay';
+
+const getFixtureKey = (messages: ChatMessage[]) =>
+  JSON.stringify(messages.map(({ role, content }) => [role, normalizeWhitespace(content)]));
+
+let fixtures: Promise<Map<string, LlmFixture>> | null = null;
+
+const loadFixtures = () => {
+  fixtures ??= fetch(chrome.runtime.getURL(FIXTURES_FILE))
+    .then(response => {
+      if (!response.ok) throw new Error(`${FIXTURES_FILE} is missing from the build`);
+      return response.json() as Promise<LlmFixtureFile>;
+    })
+    .then(file => new Map(file.fixtures.map(fixture => [getFixtureKey(fixture.messages), fixture])))
+    .catch(error => {
+      fixtures = null;
+      throw new LlmError({
+        code: 'unknown',
+        message: `Loading the LLM fixtures failed: ${error}`,
+        provider: REPLAY_PROVIDER,
+      });
+    });
+
+  return fixtures;
+};
+
+/**
+ * Finds the fixture of the conversation, failing loudly so a changed prompt cannot pass unnoticed.
+ */
+const findFixture = async (messages: ChatMessage[]): Promise<ChatResult> => {
+  const fixture = (await loadFixtures()).get(getFixtureKey(messages));
+
+  if (!fixture) {
+    console.error('No LLM fixture matches these messages', messages);
+    const prompt = normalizeWhitespace(messages.at(-1)?.content ?? '').slice(0, 80);
+    throw new LlmError({
+      code: 'bad-request',
+      message: `No recorded LLM fixture matches the prompt "${prompt}". Record it with CEB_LLM_MODE=record.`,
+      provider: REPLAY_PROVIDER,
+    });
+  }
+
+  return { text: fixture.text, model: fixture.model, usage: fixture.usage };
+};
+
+const cancelled = () =>
+  new LlmError({ code: 'cancelled', message: 'The request was cancelled.', provider: REPLAY_PROVIDER });
+
+/**
+ * Answers from the recorded fixtures, streaming them word by word.
+ */
+export const createReplayProvider = (id: LlmProviderId): LlmProvider => ({
+  id,
+  countTokens: estimateTokens,
+
+  validate: async () => {},
+
+  chat: async ({ messages }, options) => {
+    if (options?.signal?.aborted) throw cancelled();
+
+    return findFixture(messages);
+  },
+
+  stream: async function* ({ messages }, options) {
+    const result = await findFixture(messages);
+
+    for (const word of result.text.match(/\S+\s*/g) ?? []) {
+      if (options?.signal?.aborted) throw cancelled();
+
+      yield word;
+    }
+
+    return result;
+  },
+});
+
+const saveFixture = (provider: LlmProviderId, messages: ChatMessage[], result: ChatResult) => {
+  const fixture: LlmFixture = {
+    messages,
+    text: result.text,
+    provider,
+    model: result.model,
+    usage: result.usage,
+    recordedAt: Date.now(),
+  };
+  const key = getFixtureKey(messages);
+
+  return llmFixturesStorage
+    .set(file => ({
+      version: 1,
+      fixtures: [...file.fixtures.filter(existing => getFixtureKey(existing.messages) !== key), fixture],
+    }))
+    .catch(error => console.error('Recording the LLM fixture failed', error));
+};
+
+/**
+ * Saves every complete response of the provider as a fixture, replacing an older one of the same conversation.
+ */
+export const withRecording = (provider: LlmProvider): LlmProvider => ({
+  ...provider,
+
+  chat: async (request, options) => {
+    const result = await provider.chat(request, options);
+    await saveFixture(provider.id, request.messages, result);
+
+    return result;
+  },
+
+  stream: async function* (request, options) {
+    const result = yield* provider.stream(request, options);
+    // Cancelled streams return a partial response
+    if (!options?.signal?.aborted) await saveFixture(provider.id, request.messages, result);
+
+    return result;
+  },
+});
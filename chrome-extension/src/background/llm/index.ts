@@ -0,0 +1,370 @@
+import type { LlmProviderId, LlmSettings } from '@extension/storage';
+import { apiKeysStorage, llmSettingsStorage } from '@extension/storage';
+import { getCacheKey, readCache, writeCache } from '@src/background/llm/cache';
+import { shareRequest, shareStream } from '@src/background/llm/dedupe';
+import { LlmError } from '@src/background/llm/errors';
+import { createReplayProvider, LLM_MODE, withRecording } from '@src/background/llm/fixtures';
+import { createAnthropicProvider } from '@src/background/llm/providers/anthropic';
+import { createMockProvider } from '@src/background/llm/providers/mock';
+import { createOpenAIProvider } from '@src/background/llm/providers/openai';
+import type { QueueOptions } from '@src/background/llm/queue';
+import { runQueued, streamQueued } from '@src/background/llm/queue';
+import type { FromSchema, JsonSchema } from '@src/background/llm/schema';
+import { coerceToSchema, parseJsonAnswer, validateSchema } from '@src/background/llm/schema';
+import type { ChatMessage, ChatRequest, ChatResult, LlmProvider, StructuredOutput } from '@src/background/llm/types';
+import { recordUsage, reserveBudget } from '@src/background/llm/usage';
+
+export * from '@src/background/llm/errors';
+export type * from '@src/background/llm/types';
+export type { FromSchema, JsonSchema } from '@src/background/llm/schema';
+export type { QueueOptions } from '@src/background/llm/queue';
+export { purgeExpiredCache } from '@src/background/llm/cache';
+export { LLM_MODE } from '@src/background/llm/fixtures';
+
+const requireKey = (key: string | undefined, provider: string) => {
+  if (!key) {
+    throw new LlmError({
+      code: 'missing-key',
+      message: `No API key is configured for ${provider}. Add one in the options.`,
+      provider,
+    });
+  }
+
+  return key;
+};
+
+/**
+ * Providers which only work with an API key. Local servers usually ignore the key.
+ */
+const KEY_REQUIRED: Record<LlmProviderId, boolean> = { openai: true, anthropic: true, local: false, mock: false };
+
+/**
+ * Whether the provider chosen in the options can be used. LLM features stay off until it is.
+ */
+export const isLlmConfigured = async () => {
+  if (LLM_MODE === 'replay') return true;
+
+  const { provider } = await llmSettingsStorage.get();
+  // Keys which cannot be decrypted, e.g. after the device key was cleared with the site data, have to be entered again
+  const keys =
+    (await apiKeysStorage.get().catch(error => {
+      console.warn('Reading the API keys failed', error);
+      return null;
+    })) ?? {};
+
+  return !KEY_REQUIRED[provider] || !!keys[provider];
+};
+
+/**
+ * Rejects LLM requests while no API key is saved for the chosen provider.
+ */
+export const assertLlmConfigured = async () => {
+  if (!(await isLlmConfigured())) {
+    const { provider } = await llmSettingsStorage.get();
+    throw new LlmError({
+      code: 'missing-key',
+      message: `No API key is configured for ${provider}. Add one in the options.`,
+      provider,
+    });
+  }
+};
+
+const createLiveProvider = async (
+  provider: LlmProviderId,
+  settings: LlmSettings,
+  apiKey?: string,
+): Promise<LlmProvider> => {
+  const key = apiKey ?? ((await apiKeysStorage.get()) ?? {})[provider];
+
+  switch (provider) {
+    case 'openai':
+      return createOpenAIProvider({ id: 'openai', name: 'OpenAI', apiKey: requireKey(key, 'OpenAI') });
+    case 'anthropic':
+      return createAnthropicProvider({ apiKey: requireKey(key, 'Anthropic') });
+    case 'local':
+      return createOpenAIProvider({
+        id: 'local',
+        name: 'The local model',
+        // The client requires a key even when the server ignores it
+        apiKey: key || 'local',
+        baseURL: settings.localBaseUrl,
+      });
+    case 'mock':
+      return createMockProvider();
+  }
+};
+
+/**
+ * Creates a provider. API keys are only ever read from the extension storage, never from the build environment.
+ * In replay mode every provider answers from the recorded fixtures, in record mode its responses are recorded.
+ */
+export const createProvider = async (
+  provider: LlmProviderId,
+  settings: LlmSettings,
+  apiKey?: string,
+): Promise<LlmProvider> => {
+  if (LLM_MODE === 'replay') return createReplayProvider(provider);
+  if (LLM_MODE === 'record') return withRecording(await createLiveProvider(provider, settings, apiKey));
+
+  return createLiveProvider(provider, settings, apiKey);
+};
+
+/**
+ * Tests an API key before it is saved, rejects with an {@link LlmError} when it does not work.
+ */
+export const validateApiKey = async (provider: LlmProviderId, apiKey: string) => {
+  const settings = await llmSettingsStorage.get();
+
+  await (await createProvider(provider, settings, apiKey)).validate({ signal: AbortSignal.timeout(15_000) });
+};
+
+const toRequest = (
+  messages: ChatMessage[],
+  settings: LlmSettings,
+  { output, maxTokens = settings.maxTokens }: Pick<ChatCallOptions, 'output' | 'maxTokens'> = {},
+): ChatRequest => ({
+  messages,
+  model: settings.models[settings.provider],
+  temperature: settings.temperature,
+  maxTokens,
+  ...(output && { output }),
+});
+
+/**
+ * Identical requests share one call, so the key covers everything which changes the response.
+ */
+const getRequestKey = (settings: LlmSettings, request: ChatRequest, stream: boolean) =>
+  JSON.stringify([settings.provider, settings.provider === 'local' ? settings.localBaseUrl : '', request, stream]);
+
+export type ChatCallOptions = QueueOptions & {
+  /**
+   * Serve and store the response in the cache. Always off while recording or replaying fixtures.
+   * @default true
+   */
+  cache?: boolean;
+  /**
+   * Milliseconds the response is served from the cache.
+   */
+  ttl?: number;
+  /**
+   * Asks for JSON matching a schema, see {@link chatStructured} which also validates it.
+   */
+  output?: StructuredOutput;
+  /**
+   * Tokens the answer may take, instead of the limit in the options. For answers which are only of use complete, e.g.
+   * JSON.
+   */
+  maxTokens?: number;
+};
+
+const isCacheable = ({ cache = true }: ChatCallOptions) => cache && LLM_MODE === 'live';
+
+/**
+ * Whether a request failed because the provider could not be reached, so a stale cached response beats none.
+ */
+const isOffline = (error: unknown) =>
+  error instanceof LlmError && (error.code === 'network' || error.code === 'unavailable');
+
+/**
+ * Completes a conversation with the provider and model chosen in the options. Responses are cached, requests go
+ * through the queue of the provider and identical requests in flight are answered once. Requests which might
+ * exceed the budget caps are rejected before they are made, the usage of the others is recorded per feature.
+ */
+export const chat = async (messages: ChatMessage[], options: ChatCallOptions = {}): Promise<ChatResult> => {
+  const settings = await llmSettingsStorage.get();
+  const provider = await createProvider(settings.provider, settings);
+  const request = toRequest(messages, settings, options);
+  const hash = isCacheable(options) ? await getCacheKey(settings.provider, request) : null;
+
+  const cached = hash && (await readCache(hash));
+  if (cached) return cached;
+
+  try {
+    return await shareRequest(
+      getRequestKey(settings, request, false),
+      settings.provider,
+      async ({ signal, onStatus }) => {
+        const release = await reserveBudget(settings.provider, request);
+        try {
+          const result = await runQueued(settings.provider, () => provider.chat(request, { signal }), {
+            label: options.label,
+            signal,
+            onStatus,
+          });
+          await recordUsage(settings.provider, result, options.label);
+          if (hash) await writeCache(hash, settings.provider, request, result, options);
+
+          return result;
+        } finally {
+          release();
+        }
+      },
+      options,
+    );
+  } catch (error) {
+    const stale = hash && isOffline(error) && (await readCache(hash, { allowStale: true }));
+    if (stale) return stale;
+    throw error;
+  }
+};
+
+/**
+ * Streams the completion of a conversation as text deltas, see {@link chat}. Cached responses arrive as a single
+ * delta. Only failures before the first delta are retried.
+ */
+export async function* streamChat(
+  messages: ChatMessage[],
+  options: ChatCallOptions = {},
+): AsyncGenerator<string, ChatResult, void> {
+  const settings = await llmSettingsStorage.get();
+  const provider = await createProvider(settings.provider, settings);
+  const request = toRequest(messages, settings, { maxTokens: options.maxTokens });
+  const hash = isCacheable(options) ? await getCacheKey(settings.provider, request) : null;
+
+  const cached = hash && (await readCache(hash));
+  if (cached) {
+    yield cached.text;
+    return cached;
+  }
+
+  let started = false;
+  try {
+    const stream = shareStream(
+      getRequestKey(settings, request, true),
+      settings.provider,
+      async function* ({ signal, onStatus }) {
+        const release = await reserveBudget(settings.provider, request);
+        try {
+          const result = yield* streamQueued(settings.provider, () => provider.stream(request, { signal }), {
+            label: options.label,
+            signal,
+            onStatus,
+          });
+          // Cancelled streams were billed for what they received
+          await recordUsage(settings.provider, result, options.label);
+          if (hash && !signal.aborted) await writeCache(hash, settings.provider, request, result, options);
+
+          return result;
+        } finally {
+          release();
+        }
+      },
+      options,
+    );
+
+    for (;;) {
+      const { value, done } = await stream.next();
+      if (done) return value;
+
+      started = true;
+      yield value;
+    }
+  } catch (error) {
+    const stale = !started && hash && isOffline(error) && (await readCache(hash, { allowStale: true }));
+    if (!stale) throw error;
+
+    yield stale.text;
+    return stale;
+  }
+}
+
+export type StructuredCallOptions<S extends JsonSchema> = Omit<ChatCallOptions, 'output'> & {
+  /**
+   * What the JSON is, e.g. `flashcards`. Letters, digits, `_` and `-` only.
+   */
+  name: string;
+  schema: S;
+  /**
+   * Requests made before giving up. Every further request shows the model what was wrong with its last answer.
+   * @default 3
+   */
+  attempts?: number;
+};
+
+/**
+ * Reads a structured answer, repairing it where that is safe. Returns the problems left when it does not match.
+ */
+const readStructured = (text: string, schema: JsonSchema): { value: unknown; problems: string[] } => {
+  try {
+    const value = coerceToSchema(parseJsonAnswer(text), schema);
+
+    return { value, problems: validateSchema(value, schema) };
+  } catch (error) {
+    return { value: undefined, problems: [error instanceof Error ? error.message : String(error)] };
+  }
+};
+
+/**
+ * Completes a conversation with a value matching a JSON schema, see {@link chat}. The provider is asked for
+ * structured output, and the schema is given in the prompt too for servers without native support. Answers are
+ * repaired where that is safe, e.g. JSON in a code fence or options in the wrong case, otherwise the model is asked
+ * again. Rejects with an `invalid-output` {@link LlmError} when no answer matches.
+ *
+ * Only a valid answer is cached, under the first request, so invalid answers are never replayed.
+ *
+ * @example
+ * const { value } = await chatStructured(messages, { name: 'glossary', schema: glossarySchema, label: 'glossary' });
+ */
+export const chatStructured = async <const S extends JsonSchema>(
+  messages: ChatMessage[],
+  { name, schema, attempts = 3, ...options }: StructuredCallOptions<S>,
+): Promise<{ value: FromSchema<S>; result: ChatResult }> => {
+  const settings = await llmSettingsStorage.get();
+  const output: StructuredOutput = { name, schema };
+  const instruction: ChatMessage = {
+    role: 'system',
+    content: `Respond only with JSON matching this JSON schema, without any other text:\n${JSON.stringify(schema)}`,
+  };
+  const leading = messages.findIndex(({ role }) => role !== 'system');
+  let conversation =
+    leading === -1
+      ? [...messages, instruction]
+      : [...messages.slice(0, leading), instruction, ...messages.slice(leading)];
+  const request = toRequest(conversation, settings, { ...options, output });
+  const hash = isCacheable(options) ? await getCacheKey(settings.provider, request) : null;
+
+  const cached = hash && (await readCache(hash));
+  if (cached) {
+    const { value, problems } = readStructured(cached.text, schema);
+    if (!problems.length) return { value: value as FromSchema<S>, result: cached };
+  }
+
+  let problems: string[] = [];
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    let result: ChatResult;
+    try {
+      result = await chat(conversation, { ...options, cache: false, output });
+    } catch (error) {
+      const stale = attempt === 1 && hash && isOffline(error) && (await readCache(hash, { allowStale: true }));
+      const answer = stale ? readStructured(stale.text, schema) : null;
+      if (stale && answer && !answer.problems.length) return { value: answer.value as FromSchema<S>, result: stale };
+      throw error;
+    }
+
+    const answer = readStructured(result.text, schema);
+    problems = answer.problems;
+    if (!problems.length) {
+      if (hash) await writeCache(hash, settings.provider, request, result, options);
+      return { value: answer.value as FromSchema<S>, result };
+    }
+
+    console.warn(`Invalid "${name}" output, attempt ${attempt} of ${attempts}`, problems, result.text);
+    conversation = [
+      ...conversation,
+      { role: 'assistant', content: result.text },
+      {
+        role: 'user',
+        content: `Your answer does not match the schema:\n${problems
+          .slice(0, 10)
+          .map(problem => `- ${problem}`)
+          .join('\n')}\nReply again with only the corrected JSON.`,
+      },
+    ];
+  }
+
+  throw new LlmError({
+    code: 'invalid-output',
+    message: `The model did not answer with valid "${name}" after ${attempts} attempts: ${problems[0]}`,
+    provider: settings.provider,
+  });
+};
@@ -0,0 +1,185 @@
+import { LlmError, toLlmError } from '@src/background/llm/errors';
+import { estimateTokens } from '@src/background/llm/tokens';
+import type { ChatRequest, LlmProvider } from '@src/background/llm/types';
+
+const API_URL = 'https://api.anthropic.com/v1';
+const API_VERSION = '2023-06-01';
+const NAME = 'Anthropic';
+
+type AnthropicMessage = {
+  model: string;
+  content: Array<{ type: string; text?: string; input?: unknown }>;
+  usage: { input_tokens: number; output_tokens: number };
+};
+
+type AnthropicStreamEvent =
+  | { type: 'message_start'; message: AnthropicMessage }
+  | { type: 'content_block_delta'; delta: { type: string; text?: string } }
+  | { type: 'message_delta'; usage: { output_tokens: number } }
+  | { type: 'error'; error: { type: string; message: string } }
+  | { type: 'ping' | 'content_block_start' | 'content_block_stop' | 'message_stop' };
+
+/**
+ * Yields the data of each server-sent event of a response body.
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+
+      buffer += value.replace(/\r\n/g, '\n');
+      let end: number;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        const event = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        const data = event
+          .split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trimStart())
+          .join('\n');
+        if (data) yield data;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Provider for the Anthropic Messages API. Talks to the HTTP API directly, system messages become the system prompt.
+ */
+export const createAnthropicProvider = ({ apiKey }: { apiKey: string }): LlmProvider => {
+  const headers = {
+    'content-type': 'application/json',
+    'x-api-key': apiKey,
+    'anthropic-version': API_VERSION,
+    // Required for browser environment
+    'anthropic-dangerous-direct-browser-access': 'true',
+  };
+
+  const send = async (path: string, init: RequestInit) => {
+    let response: Response;
+    try {
+      response = await fetch(`${API_URL}${path}`, { ...init, headers });
+    } catch (error) {
+      throw toLlmError(NAME, error, { signal: init.signal ?? undefined, network: true });
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw toLlmError(NAME, new Error(body), {
+        status: response.status,
+        headers: response.headers,
+        signal: init.signal ?? undefined,
+      });
+    }
+
+    return response;
+  };
+
+  const request = async (
+    { messages, model, temperature, maxTokens, output }: ChatRequest,
+    stream: boolean,
+    signal?: AbortSignal,
+  ) => {
+    const system = messages
+      .filter(({ role }) => role === 'system')
+      .map(({ content }) => content)
+      .join('\n\n');
+
+    return send('/messages', {
+      method: 'POST',
+      body: JSON.stringify({
+        model,
+        // The API allows temperatures up to 1 only
+        temperature: Math.min(temperature, 1),
+        max_tokens: maxTokens,
+        ...(system ? { system } : {}),
+        messages: messages.filter(({ role }) => role !== 'system'),
+        // Structured output is a forced call of a tool taking the JSON as input
+        ...(output && {
+          tools: [{ name: output.name, input_schema: output.schema }],
+          tool_choice: { type: 'tool', name: output.name },
+        }),
+        stream,
+      }),
+      signal,
+    });
+  };
+
+  return {
+    id: 'anthropic',
+    countTokens: estimateTokens,
+
+    validate: async options => {
+      await send('/models?limit=1', { method: 'GET', signal: options?.signal });
+    },
+
+    chat: async (chatRequest, options) => {
+      const response = await request(chatRequest, false, options?.signal);
+
+      try {
+        const message: AnthropicMessage = await response.json();
+
+        return {
+          text: message.content
+            .map(({ type, text, input }) => (type === 'tool_use' ? JSON.stringify(input) : (text ?? '')))
+            .join(''),
+          model: message.model,
+          usage: { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens },
+        };
+      } catch (error) {
+        throw toLlmError(NAME, error, { signal: options?.signal });
+      }
+    },
+
+    stream: async function* (chatRequest, options) {
+      const response = await request(chatRequest, true, options?.signal);
+      let text = '';
+      let model = chatRequest.model;
+      let inputTokens = estimateTokens(chatRequest.messages);
+      let outputTokens: number | undefined;
+
+      try {
+        for await (const data of readServerSentEvents(response.body!)) {
+          const event: AnthropicStreamEvent = JSON.parse(data);
+
+          switch (event.type) {
+            case 'message_start':
+              model = event.message.model;
+              inputTokens = event.message.usage.input_tokens;
+              break;
+            case 'content_block_delta':
+              if (event.delta.text) {
+                text += event.delta.text;
+                yield event.delta.text;
+              }
+              break;
+            case 'message_delta':
+              outputTokens = event.usage.output_tokens;
+              break;
+            case 'error':
+              throw new LlmError({
+                code: event.error.type === 'overloaded_error' ? 'unavailable' : 'unknown',
+                message: event.error.message,
+                provider: NAME,
+              });
+          }
+        }
+      } catch (error) {
+        throw toLlmError(NAME, error, { signal: options?.signal });
+      }
+
+      return {
+        text,
+        model,
+        usage: { inputTokens, outputTokens: outputTokens ?? estimateTokens([{ role: 'assistant', content: text }]) },
+      };
+    },
+  };
+};
@@ -0,0 +1,77 @@
+import { LlmError } from '@src/background/llm/errors';
+import { estimateTokens } from '@src/background/llm/tokens';
+import { sampleFromSchema } from '@src/background/llm/schema';
+import type { ChatRequest, LlmProvider } from '@src/background/llm/types';
+
+const cancelled = () => new LlmError({ code: 'cancelled', message: 'The request was cancelled.', provider: 'Mock' });
+
+/**
+ * The same request always gets the same answer. Numbered lists in the prompt are answered with their first item, or
+ * with the first bulleted option for every scenario, so exam prompts produce parseable answers offline. Structured
+ * output requests get JSON matching their schema. Anything else is echoed back.
+ */
+const answer = ({ messages, output }: ChatRequest) => {
+  // Structured output gets the simplest matching value, e.g. the first option of every answer
+  if (output) return JSON.stringify(sampleFromSchema(output.schema));
+
+  const prompt = [...messages].reverse().find(({ role }) => role === 'user')?.content ?? '';
+  const items: string[] = prompt.match(/^\s*\d+\.\s+.+$/gm) ?? [];
+  const [option]: string[] = prompt.match(/^\s*-\s+.+$/gm) ?? [];
+
+  // True/false prompts list the scenarios numbered and the options as bullets
+  if (items.length && option) {
+    return items
+      .filter(item => !item.includes('['))
+      .map((_, index) => `${index + 1}. ${option.replace(/^\s*-\s+/, '')}`)
+      .join('\n');
+  }
+  if (items[0]) {
+    return items[0].replace(/^\s*\d+\.\s+/, '');
+  }
+
+  return `Mock answer to: ${prompt.trim().split('\n')[0] ?? ''}`;
+};
+
+/**
+ * Deterministic provider for offline development and tests. Streams its answer word by word.
+ */
+export const createMockProvider = ({ delay = 20 }: { delay?: number } = {}): LlmProvider => {
+  const complete = (request: ChatRequest) => {
+    const text = answer(request);
+
+    return {
+      text,
+      model: request.model,
+      usage: {
+        inputTokens: estimateTokens(request.messages),
+        outputTokens: estimateTokens([{ role: 'assistant', content: text }]),
+      },
+    };
+  };
+
+  return {
+    id: 'mock',
+    countTokens: estimateTokens,
+
+    validate: async () => {},
+
+    chat: async (request, options) => {
+      if (options?.signal?.aborted) throw cancelled();
+
+      return complete(request);
+    },
+
+    stream: async function* (request, options) {
+      const result = complete(request);
+
+      for (const word of result.text.match(/\S+\s*/g) ?? []) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+        if (options?.signal?.aborted) throw cancelled();
+
+        yield word;
+      }
+
+      return result;
+    },
+  };
+};
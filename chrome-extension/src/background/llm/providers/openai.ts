@@ -0,0 +1,156 @@
+import OpenAI from 'openai';
+import type { LlmProviderId } from '@extension/storage';
+import { LlmError, toLlmError } from '@src/background/llm/errors';
+import { estimateTokens } from '@src/background/llm/tokens';
+import type { ChatRequest, LlmProvider } from '@src/background/llm/types';
+
+type OpenAIProviderConfig = {
+  id: LlmProviderId;
+  /**
+   * Name shown in error messages.
+   */
+  name: string;
+  apiKey: string;
+  /**
+   * Endpoint of an OpenAI compatible server, the OpenAI API by default.
+   */
+  baseURL?: string;
+};
+
+/**
+ * OpenAI models accepting a JSON schema as response format. The others reject it with a 400.
+ */
+const JSON_SCHEMA_MODELS = /^(gpt-4o(?!-2024-05-13)|gpt-4\.1|gpt-4\.5|gpt-5|o1(?!-preview|-mini)|o3|o4)/;
+
+/**
+ * OpenAI models accepting JSON mode but no schema. JSON mode requires the messages to mention JSON, which the
+ * instruction of `chatStructured` does.
+ */
+const JSON_OBJECT_MODELS = /^(gpt-3\.5-turbo(?!-0301|-0613|-16k|-instruct)|gpt-4-turbo|gpt-4-\d{4}-preview)/;
+
+/**
+ * Provider for the OpenAI API and servers implementing its chat completions endpoint, like Ollama or llama.cpp.
+ */
+export const createOpenAIProvider = ({ id, name, apiKey, baseURL }: OpenAIProviderConfig): LlmProvider => {
+  const client = new OpenAI({
+    apiKey,
+    baseURL,
+    // The queue retries with backoff across all requests of the provider
+    maxRetries: 0,
+    dangerouslyAllowBrowser: true, // Required for browser environment
+  });
+
+  const normalizeError = (error: unknown, signal?: AbortSignal) => {
+    if (error instanceof OpenAI.APIUserAbortError) {
+      return new LlmError({ code: 'cancelled', message: 'The request was cancelled.', provider: name });
+    }
+    if (error instanceof OpenAI.APIConnectionError) {
+      return toLlmError(name, error, { signal, network: true });
+    }
+    if (error instanceof OpenAI.APIError) {
+      return toLlmError(name, error, { status: error.status, headers: error.headers, signal });
+    }
+
+    return toLlmError(name, error, { signal });
+  };
+
+  const toParams = ({ messages, model, temperature, maxTokens }: ChatRequest) => ({
+    model,
+    messages,
+    temperature,
+    max_tokens: maxTokens,
+  });
+
+  const toResponseFormat = ({ output, model }: ChatRequest) => {
+    if (!output) return undefined;
+
+    const base = model.replace(/^ft:/, '');
+    // Local servers like Ollama and llama.cpp accept a schema whatever the model
+    if (baseURL || JSON_SCHEMA_MODELS.test(base)) {
+      return {
+        response_format: {
+          type: 'json_schema' as const,
+          // Not strict, which would require every property to be listed as required
+          json_schema: { name: output.name, schema: output.schema, strict: false },
+        },
+      };
+    }
+    if (JSON_OBJECT_MODELS.test(base)) return { response_format: { type: 'json_object' as const } };
+
+    // Other models only have the schema in the prompt
+    return undefined;
+  };
+
+  return {
+    id,
+    countTokens: estimateTokens,
+
+    validate: async options => {
+      try {
+        await client.models.list({ signal: options?.signal });
+      } catch (error) {
+        throw normalizeError(error, options?.signal);
+      }
+    },
+
+    chat: async (request, options) => {
+      try {
+        const completion = await client.chat.completions.create(
+          { ...toParams(request), ...toResponseFormat(request) },
+          { signal: options?.signal },
+        );
+
+        return {
+          text: completion.choices[0]?.message.content ?? '',
+          model: completion.model,
+          usage: {
+            inputTokens: completion.usage?.prompt_tokens ?? estimateTokens(request.messages),
+            outputTokens: completion.usage?.completion_tokens ?? 0,
+          },
+        };
+      } catch (error) {
+        throw normalizeError(error, options?.signal);
+      }
+    },
+
+    stream: async function* (request, options) {
+      let text = '';
+      let model = request.model;
+      let usage: OpenAI.CompletionUsage | undefined;
+
+      try {
+        const stream = await client.chat.completions.create(
+          {
+            ...toParams(request),
+            stream: true,
+            // Local servers may not know the option
+            ...(baseURL ? {} : { stream_options: { include_usage: true } }),
+          },
+          { signal: options?.signal },
+        );
+
+        for await (const part of stream) {
+          model = part.model || model;
+          usage = part.usage ?? usage;
+
+          const delta = part.choices[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            yield delta;
+          }
+        }
+      } catch (error) {
+        throw normalizeError(error, options?.signal);
+      }
+
+      return {
+        text,
+        model,
+        usage: {
+          inputTokens: usage?.prompt_tokens ?? estimateTokens(request.messages),
+          outputTokens: usage?.completion_tokens ?? estimateTokens([{ role: 'assistant', content: text }]),
+        },
+      };
+    },
+  };
+};
@@ -0,0 +1,348 @@
+import type { LlmProviderId, LlmQueueJob, LlmQueueStatus } from '@extension/storage';
+import { llmQueueStorage } from '@extension/storage';
+import { LlmError } from '@src/background/llm/errors';
+import type { LlmErrorCode } from '@src/background/llm/errors';
+
+type ProviderLimits = {
+  /**
+   * Requests running at the same time.
+   */
+  concurrency: number;
+  /**
+   * Refill rate of the token bucket.
+   */
+  requestsPerMinute: number;
+  /**
+   * Size of the token bucket, the requests which may start at once after a quiet period.
+   */
+  burst: number;
+};
+
+const LIMITS: Record<LlmProviderId, ProviderLimits> = {
+  openai: { concurrency: 3, requestsPerMinute: 60, burst: 5 },
+  anthropic: { concurrency: 3, requestsPerMinute: 50, burst: 5 },
+  // Local servers usually run one model at a time on one GPU
+  local: { concurrency: 1, requestsPerMinute: Infinity, burst: 1 },
+  mock: { concurrency: 4, requestsPerMinute: Infinity, burst: 4 },
+};
+
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY = 1000;
+const MAX_DELAY = 60_000;
+
+/**
+ * How often the status of a waiting request is reported again. Pages cancel a stream after 30 seconds without a
+ * message, and the status of a request waiting out a long pause of the provider does not change.
+ */
+const STATUS_INTERVAL = 10_000;
+
+const RETRYABLE: LlmErrorCode[] = ['rate-limit', 'unavailable', 'network'];
+
+export type QueueOptions = {
+  /**
+   * Shown in the queue state, e.g. the route which made the request.
+   */
+  label?: string;
+  signal?: AbortSignal;
+  onStatus?: (status: LlmQueueStatus) => void;
+};
+
+type Waiter = {
+  job: LlmQueueJob;
+  onStatus?: (status: LlmQueueStatus) => void;
+  start: () => void;
+};
+
+type Lane = {
+  limits: ProviderLimits;
+  running: number;
+  waiting: Waiter[];
+  tokens: number;
+  refilledAt: number;
+  /**
+   * Set when the provider asked to back off, so waiting requests do not run into the same limit.
+   */
+  pausedUntil: number;
+  timer: ReturnType<typeof setTimeout> | null;
+};
+
+const lanes = new Map<LlmProviderId, Lane>();
+const jobs = new Map<string, LlmQueueJob>();
+let publishScheduled = false;
+
+const cancelled = (provider: string) =>
+  new LlmError({ code: 'cancelled', message: 'The request was cancelled.', provider });
+
+/**
+ * Writes the jobs to the session storage once per task, however many changed.
+ */
+const publish = () => {
+  if (publishScheduled) return;
+  publishScheduled = true;
+
+  setTimeout(() => {
+    publishScheduled = false;
+    llmQueueStorage.set({ jobs: Array.from(jobs.values()) }).catch(error => console.error(error));
+  });
+};
+
+const setStatus = (job: LlmQueueJob, status: LlmQueueStatus, onStatus?: (status: LlmQueueStatus) => void) => {
+  job.status = status;
+  onStatus?.(status);
+  publish();
+};
+
+/**
+ * Reports the status of a job again every {@link STATUS_INTERVAL} while it waits, returning a function which stops.
+ */
+const repeatStatus = (job: LlmQueueJob, onStatus?: (status: LlmQueueStatus) => void) => {
+  if (!onStatus) return () => {};
+
+  const timer = setInterval(() => {
+    if (job.status.state !== 'running') onStatus(job.status);
+  }, STATUS_INTERVAL);
+
+  return () => clearInterval(timer);
+};
+
+const getLane = (provider: LlmProviderId) => {
+  let lane = lanes.get(provider);
+  if (!lane) {
+    const limits = LIMITS[provider];
+    lane = {
+      limits,
+      running: 0,
+      waiting: [],
+      tokens: limits.burst,
+      refilledAt: Date.now(),
+      pausedUntil: 0,
+      timer: null,
+    };
+    lanes.set(provider, lane);
+  }
+
+  return lane;
+};
+
+/**
+ * Milliseconds until the bucket of the lane holds a token, taking it when there is one.
+ */
+const takeToken = (lane: Lane) => {
+  const now = Date.now();
+  if (lane.pausedUntil > now) return lane.pausedUntil - now;
+
+  const { requestsPerMinute, burst } = lane.limits;
+  if (requestsPerMinute === Infinity) return 0;
+
+  const perMillisecond = requestsPerMinute / 60_000;
+  lane.tokens = Math.min(burst, lane.tokens + (now - lane.refilledAt) * perMillisecond);
+  lane.refilledAt = now;
+
+  if (lane.tokens >= 1) {
+    lane.tokens -= 1;
+    return 0;
+  }
+
+  return Math.ceil((1 - lane.tokens) / perMillisecond);
+};
+
+/**
+ * Starts waiting requests while the lane has room and tokens, and reports the position of the others.
+ */
+const pump = (lane: Lane) => {
+  if (lane.timer) {
+    clearTimeout(lane.timer);
+    lane.timer = null;
+  }
+
+  while (lane.running < lane.limits.concurrency && lane.waiting.length) {
+    const wait = takeToken(lane);
+    if (wait > 0) {
+      lane.timer = setTimeout(() => pump(lane), wait);
+      break;
+    }
+
+    const waiter = lane.waiting.shift()!;
+    lane.running++;
+    waiter.start();
+  }
+
+  lane.waiting.forEach(({ job, onStatus }, ahead) => {
+    if (job.status.state !== 'queued' || job.status.ahead !== ahead) {
+      setStatus(job, { state: 'queued', ahead }, onStatus);
+    }
+  });
+};
+
+/**
+ * Waits for a free slot of the provider, resolving with a function which gives it back.
+ */
+const acquireSlot = (lane: Lane, job: LlmQueueJob, { signal, onStatus }: QueueOptions) =>
+  new Promise<() => void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelled(job.provider));
+      return;
+    }
+
+    const onAbort = () => {
+      lane.waiting = lane.waiting.filter(waiter => waiter.job !== job);
+      pump(lane);
+      reject(cancelled(job.provider));
+    };
+
+    const start = () => {
+      signal?.removeEventListener('abort', onAbort);
+      setStatus(job, { state: 'running' }, onStatus);
+
+      let released = false;
+      resolve(() => {
+        if (released) return;
+        released = true;
+        lane.running--;
+        pump(lane);
+      });
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    lane.waiting.push({ job, onStatus, start });
+    pump(lane);
+  });
+
+/**
+ * Exponential backoff with full jitter. A `retry-after` of the provider is waited at least, with a little jitter
+ * on top so retries of several requests do not arrive at the same moment.
+ */
+const getRetryDelay = (attempt: number, retryAfter?: number) => {
+  if (retryAfter !== undefined) {
+    return retryAfter + Math.random() * BASE_DELAY;
+  }
+
+  return Math.random() * Math.min(MAX_DELAY, BASE_DELAY * 2 ** attempt);
+};
+
+const isRetryable = (error: unknown): error is LlmError => error instanceof LlmError && RETRYABLE.includes(error.code);
+
+const sleep = (milliseconds: number, signal: AbortSignal | undefined, provider: string) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelled(provider));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, milliseconds);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const createJob = (provider: LlmProviderId, label = 'request'): LlmQueueJob => {
+  const job: LlmQueueJob = {
+    id: crypto.randomUUID(),
+    provider,
+    label,
+    enqueuedAt: Date.now(),
+    status: { state: 'queued', ahead: 0 },
+  };
+  jobs.set(job.id, job);
+
+  return job;
+};
+
+const removeJob = (job: LlmQueueJob) => {
+  jobs.delete(job.id);
+  publish();
+};
+
+/**
+ * Waits before the next attempt after a retryable error, or rethrows the error. A provider asking to wait longer
+ * than {@link MAX_DELAY} fails the request right away, its `retryAfter` telling the caller when to try again.
+ */
+const backOff = async (lane: Lane, job: LlmQueueJob, error: unknown, attempt: number, options: QueueOptions) => {
+  if (!isRetryable(error) || attempt + 1 >= MAX_ATTEMPTS || options.signal?.aborted) {
+    throw error;
+  }
+  if (error.retryAfter !== undefined && error.retryAfter > MAX_DELAY) {
+    throw error;
+  }
+
+  const delay = getRetryDelay(attempt, error.retryAfter);
+  const retryAt = Date.now() + delay;
+  if (error.code === 'rate-limit') {
+    lane.pausedUntil = Math.max(lane.pausedUntil, retryAt);
+  }
+
+  setStatus(job, { state: 'retrying', attempt: attempt + 1, retryAt }, options.onStatus);
+  await sleep(delay, options.signal, job.provider);
+};
+
+/**
+ * Runs a request once the provider has a free slot and rate limit budget, retrying rate limits, outages and
+ * network errors with backoff.
+ */
+export const runQueued = async <T>(
+  provider: LlmProviderId,
+  task: () => Promise<T>,
+  options: QueueOptions = {},
+): Promise<T> => {
+  const lane = getLane(provider);
+  const job = createJob(provider, options.label);
+  const stopRepeating = repeatStatus(job, options.onStatus);
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      const release = await acquireSlot(lane, job, options);
+      try {
+        return await task();
+      } catch (error) {
+        release();
+        await backOff(lane, job, error, attempt, options);
+      } finally {
+        release();
+      }
+    }
+  } finally {
+    stopRepeating();
+    removeJob(job);
+  }
+};
+
+/**
+ * Streams a response once the provider has a free slot, see {@link runQueued}. The slot is held until the stream
+ * ends. Only failures before the first delta are retried, since the caller already received the deltas after.
+ */
+export async function* streamQueued<T, R>(
+  provider: LlmProviderId,
+  createStream: () => AsyncGenerator<T, R, void>,
+  options: QueueOptions = {},
+): AsyncGenerator<T, R, void> {
+  const lane = getLane(provider);
+  const job = createJob(provider, options.label);
+  const stopRepeating = repeatStatus(job, options.onStatus);
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      const release = await acquireSlot(lane, job, options);
+      let started = false;
+      try {
+        const stream = createStream();
+        for (;;) {
+          const { value, done } = await stream.next();
+          if (done) return value;
+
+          started = true;
+          yield value;
+        }
+      } catch (error) {
+        release();
+        if (started) throw error;
+        await backOff(lane, job, error, attempt, options);
+      } finally {
+        release();
+      }
+    }
+  } finally {
+    stopRepeating();
+    removeJob(job);
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { JsonSchema } from '@src/background/llm/schema';
+import { coerceToSchema, parseJsonAnswer, sampleFromSchema, validateSchema } from '@src/background/llm/schema';
+
+const answerSchema = {
+  type: 'object',
+  properties: {
+    answers: {
+      type: 'array',
+      items: { type: 'string', enum: ['True', 'False'] },
+      minItems: 1,
+      maxItems: 3,
+    },
+    confidence: { type: 'integer', minimum: 0, maximum: 100 },
+    explanation: { type: 'string', maxLength: 20 },
+  },
+  required: ['answers', 'confidence'],
+  additionalProperties: false,
+} as const satisfies JsonSchema;
+
+describe('validateSchema', () => {
+  it('accepts a matching value', () => {
+    expect(validateSchema({ answers: ['True', 'False'], confidence: 80 }, answerSchema)).toEqual([]);
+  });
+
+  it('reports every problem with its path', () => {
+    const problems = validateSchema(
+      { answers: ['True', 'Maybe'], confidence: 80.5, explanation: 'x'.repeat(21), extra: 1 },
+      answerSchema,
+    );
+
+    expect(problems).toEqual([
+      '$.answers[1]: "Maybe" is not one of "True", "False"',
+      '$.confidence: expected an integer, got number',
+      '$.explanation: expected at most 20 characters',
+      '$: unexpected property "extra"',
+    ]);
+  });
+
+  it('reports missing properties and wrong types', () => {
+    expect(validateSchema({ answers: 'True' }, answerSchema)).toEqual([
+      '$: missing property "confidence"',
+      '$.answers: expected an array, got string',
+    ]);
+    expect(validateSchema(null, answerSchema)).toEqual(['$: expected an object, got null']);
+  });
+
+  it('checks the bounds of numbers and arrays', () => {
+    expect(validateSchema({ answers: [], confidence: 101 }, answerSchema)).toEqual([
+      '$.answers: expected at least 1 items, got 0',
+      '$.confidence: expected at most 100',
+    ]);
+  });
+});
+
+describe('coerceToSchema', () => {
+  it('fixes the case and whitespace of options and numbers sent as strings', () => {
+    const coerced = coerceToSchema({ answers: [' true', 'FALSE '], confidence: '75' }, answerSchema);
+
+    expect(coerced).toEqual({ answers: ['True', 'False'], confidence: 75 });
+    expect(validateSchema(coerced, answerSchema)).toEqual([]);
+  });
+
+  it('wraps a single item and unwraps a bare list', () => {
+    expect(coerceToSchema('true', answerSchema.properties.answers)).toEqual(['True']);
+    expect(
+      coerceToSchema(['False'], { type: 'object', properties: { answers: answerSchema.properties.answers } }),
+    ).toEqual({ answers: ['False'] });
+  });
+
+  it('reads booleans sent as strings and leaves unknown options as they are', () => {
+    expect(coerceToSchema('false', { type: 'boolean' })).toBe(false);
+    expect(coerceToSchema('Maybe', answerSchema.properties.answers.items)).toBe('Maybe');
+    expect(coerceToSchema('abc', { type: 'number' })).toBe('abc');
+  });
+});
+
+describe('parseJsonAnswer', () => {
+  it('reads JSON from a code fence surrounded by prose', () => {
+    expect(parseJsonAnswer('Here you go:\n```json\n{ "answers": ["True"] }\n```\nGood luck!')).toEqual({
+      answers: ['True'],
+    });
+  });
+
+  it('repairs trailing commas and typographic quotes', () => {
+    expect(parseJsonAnswer('{ “answers”: [“True”, ], }')).toEqual({ answers: ['True'] });
+  });
+
+  it('throws when the answer has no JSON', () => {
+    expect(() => parseJsonAnswer('I cannot answer that.')).toThrow(SyntaxError);
+  });
+});
+
+describe('sampleFromSchema', () => {
+  it('builds a value the schema accepts', () => {
+    const sample = sampleFromSchema(answerSchema);
+
+    expect(sample).toEqual({ answers: ['True'], confidence: 0 });
+    expect(validateSchema(sample, answerSchema)).toEqual([]);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * The subset of JSON Schema which structured output supports. Every provider accepts it, OpenAI as response format and
+ * Anthropic as tool input.
+ */
+export type JsonSchema =
+  | { type: 'string'; description?: string; enum?: readonly string[]; minLength?: number; maxLength?: number }
+  | { type: 'number' | 'integer'; description?: string; minimum?: number; maximum?: number }
+  | { type: 'boolean'; description?: string }
+  | { type: 'array'; description?: string; items: JsonSchema; minItems?: number; maxItems?: number }
+  | {
+      type: 'object';
+      description?: string;
+      properties: Readonly<Record<string, JsonSchema>>;
+      required?: readonly string[];
+      additionalProperties?: boolean;
+    };
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type RequiredKeys<S> = S extends { required: readonly (infer K)[] } ? K : never;
+
+type ObjectFromSchema<P, R> = Simplify<
+  { -readonly [K in keyof P as K extends R ? K : never]: FromSchema<P[K]> } & {
+    -readonly [K in keyof P as K extends R ? never : K]?: FromSchema<P[K]>;
+  }
+>;
+
+/**
+ * The type of the values a schema declared `as const` accepts.
+ */
+export type FromSchema<S> = S extends { type: 'string'; enum: readonly (infer E)[] }
+  ? E
+  : S extends { type: 'string' }
+    ? string
+    : S extends { type: 'number' | 'integer' }
+      ? number
+      : S extends { type: 'boolean' }
+        ? boolean
+        : S extends { type: 'array'; items: infer I }
+          ? FromSchema<I>[]
+          : S extends { type: 'object'; properties: infer P }
+            ? ObjectFromSchema<P, RequiredKeys<S>>
+            : unknown;
+
+const typeOf = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+/**
+ * Problems of a value against a schema, as `path: problem`, empty when it matches.
+ */
+export const validateSchema = (value: unknown, schema: JsonSchema, path = '$'): string[] => {
+  const problem = (message: string) => [`${path}: ${message}`];
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return problem(`expected a string, got ${typeOf(value)}`);
+      if (schema.enum && !schema.enum.includes(value)) {
+        return problem(`"${value}" is not one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return problem(`expected at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return problem(`expected at most ${schema.maxLength} characters`);
+      }
+      return [];
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || (schema.type === 'integer' && !Number.isInteger(value))) {
+        return problem(`expected ${schema.type === 'integer' ? 'an integer' : 'a number'}, got ${typeOf(value)}`);
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) return problem(`expected at least ${schema.minimum}`);
+      if (schema.maximum !== undefined && value > schema.maximum) return problem(`expected at most ${schema.maximum}`);
+      return [];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : problem(`expected a boolean, got ${typeOf(value)}`);
+    case 'array':
+      if (!Array.isArray(value)) return problem(`expected an array, got ${typeOf(value)}`);
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return problem(`expected at least ${schema.minItems} items, got ${value.length}`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return problem(`expected at most ${schema.maxItems} items, got ${value.length}`);
+      }
+      return value.flatMap((item, index) => validateSchema(item, schema.items, `${path}[${index}]`));
+    case 'object': {
+      if (typeOf(value) !== 'object') return problem(`expected an object, got ${typeOf(value)}`);
+      const record = value as Record<string, unknown>;
+
+      return [
+        ...(schema.required ?? [])
+          .filter(key => record[key] === undefined)
+          .map(key => `${path}: missing property "${key}"`),
+        ...Object.entries(record).flatMap(([key, item]) => {
+          const property = schema.properties[key];
+          if (property) return validateSchema(item, property, `${path}.${key}`);
+          return schema.additionalProperties === false ? [`${path}: unexpected property "${key}"`] : [];
+        }),
+      ];
+    }
+  }
+};
+
+/**
+ * Fixes mistakes models make with otherwise correct answers: options in the wrong case or with extra whitespace,
+ * numbers as strings, and a single object or list where the schema wants it wrapped or unwrapped.
+ */
+export const coerceToSchema = (value: unknown, schema: JsonSchema): unknown => {
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value === 'number' || typeof value === 'boolean') value = String(value);
+      if (typeof value !== 'string') return value;
+      const text = value.trim();
+      if (!schema.enum) return text;
+
+      const normalize = (option: string) => option.trim().replace(/\s+/g, ' ').toLowerCase();
+      return schema.enum.find(option => normalize(option) === normalize(text)) ?? text;
+    }
+    case 'number':
+    case 'integer':
+      return typeof value === 'string' && value.trim() && !Number.isNaN(Number(value)) ? Number(value) : value;
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'array':
+      if (!Array.isArray(value)) return value === undefined ? value : [coerceToSchema(value, schema.items)];
+      return value.map(item => coerceToSchema(item, schema.items));
+    case 'object': {
+      const keys = Object.keys(schema.properties);
+      // `[...]` answered for `{ "items": [...] }`
+      if (Array.isArray(value) && keys.length === 1 && schema.properties[keys[0]].type === 'array') {
+        return { [keys[0]]: coerceToSchema(value, schema.properties[keys[0]]) };
+      }
+      if (typeOf(value) !== 'object') return value;
+
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+          key,
+          schema.properties[key] ? coerceToSchema(item, schema.properties[key]) : item,
+        ]),
+      );
+    }
+  }
+};
+
+/**
+ * Reads the JSON in a model answer, which may be wrapped in a code fence or surrounded by prose, and may have
+ * trailing commas or typographic quotes. Throws a `SyntaxError` when there is none.
+ */
+export const parseJsonAnswer = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i)?.[1] ?? text;
+  const start = fenced.search(/[[{]/);
+  if (start === -1) throw new SyntaxError('The answer contains no JSON');
+
+  const end = Math.max(fenced.lastIndexOf('}'), fenced.lastIndexOf(']'));
+  const json = fenced.slice(start, end + 1);
+
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    const repaired = json.replace(/[“”]/g, '"').replace(/,\s*([}\]])/g, '$1');
+    if (repaired === json) throw error;
+
+    return JSON.parse(repaired);
+  }
+};
+
+/**
+ * The simplest value matching a schema, e.g. for the mock provider.
+ */
+export const sampleFromSchema = (schema: JsonSchema): unknown => {
+  switch (schema.type) {
+    case 'string':
+      return schema.enum?.[0] ?? 'Mock'.padEnd(schema.minLength ?? 0, '.');
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    case 'array':
+      return Array.from({ length: schema.minItems ?? 1 }, () => sampleFromSchema(schema.items));
+    case 'object':
+      return Object.fromEntries(
+        (schema.required ?? Object.keys(schema.properties)).map(key => [key, sampleFromSchema(schema.properties[key])]),
+      );
+  }
+};
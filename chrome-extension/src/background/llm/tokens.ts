@@ -0,0 +1,8 @@
+import type { ChatMessage } from '@src/background/llm/types';
+
+/**
+ * Rough token count for English text, about four characters per token plus a few tokens of overhead per message.
+ * Good enough for limits and estimates, the usage reported by the provider is exact.
+ */
+export const estimateTokens = (messages: ChatMessage[]) =>
+  messages.reduce((total, { content }) => total + Math.ceil(content.length / 4) + 4, 0);
@@ -0,0 +1,65 @@
+import type { LlmProviderId } from '@extension/storage';
+import type { JsonSchema } from '@src/background/llm/schema';
+
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+export type ChatRequest = {
+  messages: ChatMessage[];
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  /**
+   * Asks for JSON matching the schema, through the native structured output of the provider. Only `chat` honors it.
+   */
+  output?: StructuredOutput;
+};
+
+export type StructuredOutput = {
+  /**
+   * What the JSON is, e.g. `flashcards`. Letters, digits, `_` and `-` only.
+   */
+  name: string;
+  schema: JsonSchema;
+};
+
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type ChatResult = {
+  text: string;
+  usage: TokenUsage;
+  model: string;
+  /**
+   * Served from the response cache, the usage is the one of the original request.
+   */
+  cached?: boolean;
+};
+
+export type ChatOptions = {
+  signal?: AbortSignal;
+};
+
+/**
+ * A language model backend. Providers throw {@link LlmError}s only, so callers can handle every backend alike.
+ */
+export type LlmProvider = {
+  id: LlmProviderId;
+  chat: (request: ChatRequest, options?: ChatOptions) => Promise<ChatResult>;
+  /**
+   * Yields text deltas and returns the complete result.
+   */
+  stream: (request: ChatRequest, options?: ChatOptions) => AsyncGenerator<string, ChatResult, void>;
+  /**
+   * Estimates the tokens the messages take as input, without a request.
+   */
+  countTokens: (messages: ChatMessage[]) => number;
+  /**
+   * Makes a request which costs no tokens, rejecting when the API key does not work.
+   */
+  validate: (options?: ChatOptions) => Promise<void>;
+};
@@ -0,0 +1,141 @@
+import type { LlmProviderId, LlmUsageEntry } from '@extension/storage';
+import { getUsageDay, llmBudgetStorage, llmUsageStorage } from '@extension/storage';
+import { LlmError } from '@src/background/llm/errors';
+import { estimateTokens } from '@src/background/llm/tokens';
+import type { ChatRequest, ChatResult, TokenUsage } from '@src/background/llm/types';
+
+type Price = {
+  /**
+   * Model name or the start of it, so dated snapshots like `gpt-4o-2024-08-06` match too.
+   */
+  model: string;
+  /**
+   * US dollars per million input tokens.
+   */
+  input: number;
+  /**
+   * US dollars per million output tokens.
+   */
+  output: number;
+};
+
+/**
+ * List prices, more specific names first. Local and mock models cost nothing.
+ */
+const PRICES: Record<LlmProviderId, Price[]> = {
+  openai: [
+    { model: 'gpt-3.5-turbo', input: 0.5, output: 1.5 },
+    { model: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+    { model: 'gpt-4o', input: 2.5, output: 10 },
+    { model: 'gpt-4.1-nano', input: 0.1, output: 0.4 },
+    { model: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+    { model: 'gpt-4.1', input: 2, output: 8 },
+    { model: 'gpt-4-turbo', input: 10, output: 30 },
+    { model: 'gpt-4', input: 30, output: 60 },
+  ],
+  anthropic: [
+    { model: 'claude-3-5-haiku', input: 0.8, output: 4 },
+    { model: 'claude-3-haiku', input: 0.25, output: 1.25 },
+    { model: 'claude-3-5-sonnet', input: 3, output: 15 },
+    { model: 'claude-3-7-sonnet', input: 3, output: 15 },
+    { model: 'claude-sonnet', input: 3, output: 15 },
+    { model: 'claude-3-opus', input: 15, output: 75 },
+    { model: 'claude-opus', input: 15, output: 75 },
+  ],
+  local: [],
+  mock: [],
+};
+
+/**
+ * Used for models missing above. Caps should rather block too early than too late.
+ */
+const FALLBACK_PRICES: Record<LlmProviderId, Omit<Price, 'model'>> = {
+  openai: { input: 10, output: 30 },
+  anthropic: { input: 15, output: 75 },
+  local: { input: 0, output: 0 },
+  mock: { input: 0, output: 0 },
+};
+
+/**
+ * Estimated cost of the usage in US dollars.
+ */
+export const estimateCost = (provider: LlmProviderId, model: string, { inputTokens, outputTokens }: TokenUsage) => {
+  const price = PRICES[provider].find(price => model.startsWith(price.model)) ?? FALLBACK_PRICES[provider];
+
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
+
+/**
+ * Estimated cost of the requests in flight, so requests made at the same time cannot overrun a cap together.
+ */
+let reserved = 0;
+
+const formatDollars = (value: number) => `$${value.toFixed(2)}`;
+
+const sumCost = (entries: LlmUsageEntry[]) => entries.reduce((total, { cost }) => total + cost, 0);
+
+/**
+ * Checks a request against the daily and monthly caps before it is made, assuming it uses all of its output
+ * tokens. Rejects with a `budget-exceeded` {@link LlmError} when it might exceed a cap, otherwise reserves the
+ * estimated cost until the returned function is called.
+ */
+export const reserveBudget = async (provider: LlmProviderId, request: ChatRequest) => {
+  const estimate = estimateCost(provider, request.model, {
+    inputTokens: estimateTokens(request.messages),
+    outputTokens: request.maxTokens,
+  });
+  const budget = await llmBudgetStorage.get();
+  if (estimate === 0 || (budget.daily === null && budget.monthly === null)) return () => {};
+
+  const { entries } = await llmUsageStorage.get();
+  const today = getUsageDay();
+  const spentToday = sumCost(entries.filter(({ day }) => day === today));
+  const spentThisMonth = sumCost(entries.filter(({ day }) => day.slice(0, 7) === today.slice(0, 7)));
+
+  if (budget.daily !== null && spentToday + reserved + estimate > budget.daily) {
+    throw new LlmError({
+      code: 'budget-exceeded',
+      message:
+        `The daily LLM budget of ${formatDollars(budget.daily)} is used up (${formatDollars(spentToday)} spent ` +
+        'today). Raise it in the options or try again tomorrow.',
+      provider,
+    });
+  }
+
+  if (budget.monthly !== null && spentThisMonth + reserved + estimate > budget.monthly) {
+    throw new LlmError({
+      code: 'budget-exceeded',
+      message:
+        `The monthly LLM budget of ${formatDollars(budget.monthly)} is used up (${formatDollars(spentThisMonth)} ` +
+        'spent this month). Raise it in the options or try again next month.',
+      provider,
+    });
+  }
+
+  reserved += estimate;
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    reserved -= estimate;
+  };
+};
+
+/**
+ * Adds the tokens and estimated cost of a response to the usage of the feature. Cached responses cost nothing.
+ */
+export const recordUsage = async (provider: LlmProviderId, result: ChatResult, feature = 'request') => {
+  if (result.cached) return;
+
+  await llmUsageStorage
+    .add({
+      feature,
+      provider,
+      model: result.model,
+      inputTokens: result.usage.inputTokens,
+      outputTokens: result.usage.outputTokens,
+      cost: estimateCost(provider, result.model, result.usage),
+    })
+    .catch(error => console.error('Recording the LLM usage failed', error));
+};
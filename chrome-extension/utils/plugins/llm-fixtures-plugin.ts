@@ -0,0 +1,35 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { LlmFixtureFile } from '@extension/storage';
+import { colorLog } from '@extension/dev-utils';
+import type { PluginOption } from 'vite';
+import env from '@extension/env';
+
+const fixturesDir = resolve(import.meta.dirname, '..', '..', '..', 'tests', 'e2e', 'fixtures', 'llm');
+
+/**
+ * Merges the LLM fixture files into `llm-fixtures.json` of the build, only with `CEB_LLM_MODE=replay` so recorded
+ * prompts never ship in the published extension.
+ */
+export default (): PluginOption => ({
+  name: 'llm-fixtures',
+  buildStart() {
+    if (env.CEB_LLM_MODE !== 'replay') return;
+
+    if (!existsSync(fixturesDir)) {
+      this.error(`CEB_LLM_MODE=replay needs fixtures in ${fixturesDir}`);
+    }
+    readdirSync(fixturesDir).forEach(file => this.addWatchFile(resolve(fixturesDir, file)));
+  },
+  generateBundle() {
+    if (env.CEB_LLM_MODE !== 'replay') return;
+
+    const fixtures = readdirSync(fixturesDir)
+      .filter(file => file.endsWith('.json'))
+      .flatMap(file => (JSON.parse(readFileSync(resolve(fixturesDir, file), 'utf-8')) as LlmFixtureFile).fixtures);
+    const merged: LlmFixtureFile = { version: 1, fixtures };
+
+    this.emitFile({ type: 'asset', fileName: 'llm-fixtures.json', source: JSON.stringify(merged) });
+    colorLog(`Bundled ${fixtures.length} LLM fixtures for replay`, 'info');
+  },
+});
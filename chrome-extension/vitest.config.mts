@@ -0,0 +1,13 @@
+import { resolve } from 'node:path';
+import { defineConfig } from 'vitest/config';
+
+/**
+ * Unit tests run without the build plugins of `vite.config.mts`, which write the manifest and bundle assets.
+ */
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@src': resolve(import.meta.dirname, 'src'),
+    },
+  },
+});
@@ -1,10 +1,31 @@
 import { config } from '@dotenvx/dotenvx';
 
-export const baseEnv =
+/**
+ * Env values are compiled into the bundles and end up in the published zip, so secrets must never be part of them.
+ * API keys are entered at runtime in the options page instead.
+ */
+const SECRET_KEY_PATTERN = /_(API_KEY|KEY|SECRET|TOKEN|PASSWORD)$/;
+
+const withoutSecrets = (values: Record<string, string>) =>
+  Object.fromEntries(
+    Object.entries(values).filter(([key]) => {
+      if (!SECRET_KEY_PATTERN.test(key)) return true;
+
+      console.warn(`[env] Skipping ${key}: secrets are not compiled into the extension, enter them in the options.`);
+      return false;
+    }),
+  );
+
+export const baseEnv = withoutSecrets(
   config({
     path: `${import.meta.dirname}/../../../../.env`,
-  }).parsed ?? {};
+  }).parsed ?? {},
+);
 
 export const dynamicEnvValues = {
   CEB_NODE_ENV: baseEnv.CEB_DEV === 'true' ? 'development' : 'production',
+  /**
+   * `live`, `record` or `replay`, see the LLM fixtures of the e2e tests. Can be set in the shell, e.g. on CI.
+   */
+  CEB_LLM_MODE: process.env['CEB_LLM_MODE'] || 'live',
 } as const;
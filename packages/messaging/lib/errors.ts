@@ -0,0 +1,33 @@
+/**
+ * - `timeout`: no response within the timeout
+ * - `no-receiver`: no context handles the route, e.g. the background script is not running a handler for it
+ * - `handler-error`: the handler threw, the message is the one of the original error
+ * - `disconnected`: the extension was reloaded or the receiving context went away
+ * - `cancelled`: the sender aborted a stream
+ */
+export type MessagingErrorCode = 'timeout' | 'no-receiver' | 'handler-error' | 'disconnected' | 'cancelled';
+
+export type SerializedMessagingError = {
+  code: MessagingErrorCode;
+  message: string;
+  route: string;
+};
+
+/**
+ * Rejection reason of `sendMessage`. Errors thrown by handlers arrive with code `handler-error`.
+ */
+export class MessagingError extends Error {
+  readonly code: MessagingErrorCode;
+  readonly route: string;
+
+  constructor({ code, message, route }: SerializedMessagingError) {
+    super(message);
+    this.name = 'MessagingError';
+    this.code = code;
+    this.route = route;
+  }
+
+  toJSON(): SerializedMessagingError {
+    return { code: this.code, message: this.message, route: this.route };
+  }
+}
@@ -0,0 +1,6 @@
+export * from './errors.js';
+export * from './jobs.js';
+export * from './messaging.js';
+export * from './streams.js';
+export type * from './routes.js';
+export type * from './types.js';
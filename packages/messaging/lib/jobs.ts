@@ -0,0 +1,315 @@
+import type { BackgroundJob, BackgroundJobsState } from '@extension/storage';
+import { backgroundJobsStorage, isExtensionContext } from '@extension/storage';
+import { MessagingError } from './errors.js';
+import { handleMessages, sendMessage } from './messaging.js';
+import type {
+  JobCheckpoint,
+  JobHandler,
+  JobHandlerContext,
+  JobHandlers,
+  JobInput,
+  JobName,
+  JobOptions,
+  JobResult,
+  RouteRequest,
+} from './types.js';
+
+const MAX_RUNNING_JOBS = 2;
+
+/**
+ * Runs of a job before it is given up, so a job which keeps crashing the service worker does not do so forever.
+ */
+const MAX_ATTEMPTS = 3;
+
+/**
+ * How long ended jobs are kept for senders to read their result.
+ */
+const FINISHED_TTL = 60 * 60_000;
+
+/**
+ * Chrome stops a service worker after 30 seconds without extension events or API calls.
+ */
+const KEEPALIVE_INTERVAL = 20_000;
+
+/**
+ * Wakes a stopped service worker while jobs are pending, e.g. after Chrome stopped it anyway. 30 seconds is the
+ * shortest period Chrome allows.
+ */
+const WAKE_ALARM = 'background-jobs';
+const WAKE_PERIOD_MINUTES = 0.5;
+
+/**
+ * How often content scripts, which may not read the session storage, ask the background for the state of a job.
+ */
+const POLL_INTERVAL = 1000;
+
+const isPending = ({ state }: BackgroundJob) => state === 'queued' || state === 'running';
+
+/**
+ * Starts a job of the background and resolves with its id, see {@link waitForJob} to follow it.
+ */
+export const startJob = async <J extends JobName>(type: J, input: JobInput<J>) => {
+  const { id } = await sendMessage('startJob', { type, input } as RouteRequest<'startJob'>);
+
+  return id;
+};
+
+/**
+ * Cancels a job. Resolves `false` when it already ended.
+ */
+export const cancelJob = async (id: string) => {
+  const { cancelled } = await sendMessage('cancelJob', { id });
+
+  return cancelled;
+};
+
+/**
+ * Resolves with the result of a job once it completes, however often the service worker restarts meanwhile.
+ * Progress is read from the session storage, so the sender may also be a page opened after the job started. Content
+ * scripts, which may not read it, poll the background instead.
+ *
+ * Rejects with a {@link MessagingError}: `handler-error` when the job failed, `cancelled` when it was cancelled and
+ * `disconnected` when it is gone, e.g. because the browser restarted.
+ */
+export const waitForJob = <J extends JobName>(id: string, { onProgress, signal }: JobOptions = {}) =>
+  new Promise<JobResult<J>>((resolve, reject) => {
+    let updatedAt = 0;
+    let unsubscribe = () => {};
+    let settled = false;
+
+    const fail = (code: MessagingError['code'], message: string, route: string) => {
+      cleanup();
+      reject(new MessagingError({ code, message, route }));
+    };
+
+    const check = (job: BackgroundJob | null | undefined) => {
+      if (!job) {
+        fail('disconnected', `Job "${id}" no longer exists`, 'startJob');
+        return;
+      }
+      if (job.progress && job.updatedAt > updatedAt) onProgress?.(job.progress);
+      updatedAt = job.updatedAt;
+
+      switch (job.state) {
+        case 'completed':
+          cleanup();
+          resolve(job.result as JobResult<J>);
+          break;
+        case 'failed':
+          fail('handler-error', job.error ?? `Job "${job.type}" failed`, job.type);
+          break;
+        case 'cancelled':
+          fail('cancelled', `Job "${job.type}" was cancelled`, job.type);
+          break;
+      }
+    };
+
+    const onAbort = () => {
+      // The job is cancelled in the background as well, the promise rejects right away
+      cancelJob(id).catch(error => console.warn('Cancelling the job failed', error));
+      fail('cancelled', `Job "${id}" was cancelled`, 'startJob');
+    };
+
+    const cleanup = () => {
+      settled = true;
+      unsubscribe();
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    if (!isExtensionContext()) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const poll = () =>
+        sendMessage('getJob', { id })
+          .then(check, error => console.warn('Reading the job failed, trying again', error))
+          .finally(() => {
+            if (!settled) timer = setTimeout(poll, POLL_INTERVAL);
+          });
+      unsubscribe = () => clearTimeout(timer);
+      poll();
+      return;
+    }
+
+    const checkState = (state: BackgroundJobsState | null) => state && check(state.jobs[id]);
+    unsubscribe = backgroundJobsStorage.subscribe(() => checkState(backgroundJobsStorage.getSnapshot()));
+    backgroundJobsStorage.get().then(checkState, error => fail('disconnected', String(error), 'startJob'));
+  });
+
+/**
+ * Starts a job and resolves with its result, see {@link startJob} and {@link waitForJob}.
+ *
+ * @example
+ * const { answers } = await runJob('completePrompts', { prompts }, { onProgress: ({ done, total }) => show(done, total) });
+ */
+export const runJob = async <J extends JobName>(type: J, input: JobInput<J>, options?: JobOptions) =>
+  waitForJob<J>(await startJob(type, input), options);
+
+/**
+ * Registers job handlers and runs the jobs saved in the session storage. Register them in the background script only,
+ * at its top level, so jobs interrupted by a restart of the service worker resume as soon as it starts again.
+ *
+ * While jobs are pending the service worker is kept alive, and an alarm wakes it should Chrome stop it nonetheless.
+ *
+ * @returns a function removing the handlers
+ */
+export const handleJobs = (handlers: JobHandlers) => {
+  // Jobs running in this instance of the service worker. Saved `running` jobs missing here were interrupted.
+  const running = new Map<string, AbortController>();
+  let keepalive: ReturnType<typeof setInterval> | null = null;
+  let scheduling = Promise.resolve();
+
+  const updateJobs = (updater: (jobs: Record<string, BackgroundJob>) => void) =>
+    backgroundJobsStorage.set(({ jobs }) => {
+      const now = Date.now();
+      const next = Object.fromEntries(
+        Object.entries(jobs).filter(([, job]) => isPending(job) || now - job.updatedAt < FINISHED_TTL),
+      );
+      updater(next);
+
+      return { jobs: next };
+    });
+
+  /**
+   * Updates a job unless it ended meanwhile, e.g. because it was cancelled.
+   */
+  const updateRunning = (id: string, update: Partial<BackgroundJob>) =>
+    updateJobs(jobs => {
+      const job = jobs[id];
+      if (job?.state === 'running') jobs[id] = { ...job, ...update, updatedAt: Date.now() };
+    });
+
+  const updateKeepalive = (pending: boolean) => {
+    if (pending && !keepalive) {
+      keepalive = setInterval(() => chrome.runtime.getPlatformInfo(), KEEPALIVE_INTERVAL);
+      chrome.alarms.create(WAKE_ALARM, { periodInMinutes: WAKE_PERIOD_MINUTES });
+    } else if (!pending && keepalive) {
+      clearInterval(keepalive);
+      keepalive = null;
+      chrome.alarms.clear(WAKE_ALARM);
+    }
+  };
+
+  const run = async (job: BackgroundJob) => {
+    const controller = new AbortController();
+    running.set(job.id, controller);
+
+    const type = job.type as JobName;
+    // Handlers are looked up by the type saved with the job, which TypeScript cannot correlate with its input
+    const handler = handlers[type] as JobHandler<JobName> | undefined;
+    const context: JobHandlerContext<JobName> = {
+      id: job.id,
+      checkpoint: job.checkpoint as JobCheckpoint<JobName> | undefined,
+      signal: controller.signal,
+      report: (progress, checkpoint) =>
+        updateRunning(job.id, { progress, ...(checkpoint !== undefined && { checkpoint }) }),
+    };
+
+    try {
+      if (!handler) throw new Error(`No handler for job "${job.type}"`);
+
+      const result = await handler(job.input as JobInput<JobName>, context);
+      await updateRunning(job.id, { state: 'completed', result, checkpoint: undefined });
+    } catch (error) {
+      // Cancelled jobs are already marked as such
+      if (!controller.signal.aborted) {
+        console.error(`Job "${job.type}" failed`, error);
+        await updateRunning(job.id, { state: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    } finally {
+      running.delete(job.id);
+      schedule();
+    }
+  };
+
+  /**
+   * Starts queued jobs while slots are free and resumes the interrupted ones.
+   */
+  const schedule = () => {
+    scheduling = scheduling
+      .then(async () => {
+        let started: BackgroundJob[] = [];
+        let pending = false;
+
+        await updateJobs(jobs => {
+          // The updater may run more than once
+          started = [];
+          const now = Date.now();
+          const waiting = Object.values(jobs)
+            .filter(job => (job.state === 'running' && !running.has(job.id)) || job.state === 'queued')
+            // Interrupted jobs first, then in the order they were started
+            .sort((a, b) => Number(b.state === 'running') - Number(a.state === 'running') || a.createdAt - b.createdAt);
+
+          for (const job of waiting) {
+            if (running.size + started.length >= MAX_RUNNING_JOBS) break;
+
+            jobs[job.id] =
+              job.attempts >= MAX_ATTEMPTS
+                ? { ...job, state: 'failed', error: `Stopped after ${job.attempts} attempts`, updatedAt: now }
+                : { ...job, state: 'running', attempts: job.attempts + 1, updatedAt: now };
+            if (jobs[job.id].state === 'running') started.push(jobs[job.id]);
+          }
+          pending = Object.values(jobs).some(isPending);
+        });
+
+        started.forEach(run);
+        updateKeepalive(pending || running.size > 0);
+      })
+      .catch(error => console.error('Scheduling jobs failed', error));
+  };
+
+  const onAlarm = (alarm: chrome.alarms.Alarm) => {
+    if (alarm.name === WAKE_ALARM) schedule();
+  };
+  chrome.alarms.onAlarm.addListener(onAlarm);
+
+  const removeMessageHandlers = handleMessages({
+    startJob: async ({ type, input }) => {
+      if (!handlers[type]) throw new Error(`No handler for job "${type}"`);
+
+      const now = Date.now();
+      const job: BackgroundJob = {
+        id: crypto.randomUUID(),
+        type,
+        input,
+        state: 'queued',
+        progress: null,
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await updateJobs(jobs => {
+        jobs[job.id] = job;
+      });
+      schedule();
+
+      return { id: job.id };
+    },
+    cancelJob: async ({ id }) => {
+      let cancelled = false;
+      await updateJobs(jobs => {
+        const job = jobs[id];
+        cancelled = !!job && isPending(job);
+        if (cancelled) jobs[id] = { ...job, state: 'cancelled', updatedAt: Date.now() };
+      });
+      running.get(id)?.abort();
+      schedule();
+
+      return { cancelled };
+    },
+    getJob: async ({ id }) => (await backgroundJobsStorage.get()).jobs[id] ?? null,
+  });
+
+  schedule();
+
+  return () => {
+    removeMessageHandlers();
+    chrome.alarms.onAlarm.removeListener(onAlarm);
+    running.forEach(controller => controller.abort());
+    updateKeepalive(false);
+  };
+};
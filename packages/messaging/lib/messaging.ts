@@ -0,0 +1,117 @@
+import { MessagingError } from './errors.js';
+import type {
+  MessageEnvelope,
+  ResponseEnvelope,
+  RouteHandlers,
+  RouteName,
+  RouteResponse,
+  SendArgs,
+  SendOptions,
+} from './types.js';
+
+const CHANNEL = 'extension-messaging';
+
+const DEFAULT_TIMEOUT = 30_000;
+
+const isEnvelope = (message: unknown): message is MessageEnvelope =>
+  typeof message === 'object' && message !== null && (message as MessageEnvelope).channel === CHANNEL;
+
+/**
+ * Chrome reports a missing listener and a reloaded extension through `lastError` messages only.
+ */
+const toMessagingError = (route: string, error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (message.includes('Receiving end does not exist')) {
+    return new MessagingError({ code: 'no-receiver', message: `No handler for route "${route}"`, route });
+  }
+
+  return new MessagingError({ code: 'disconnected', message, route });
+};
+
+/**
+ * Sends a request to the handlers of a route and resolves with their response. Without a `tabId` the message goes to
+ * the background script and extension pages, with a `tabId` to the content scripts of that tab.
+ *
+ * Rejects with a {@link MessagingError}.
+ *
+ * @example
+ * const { text } = await sendMessage('completePrompt', { text: prompt }, { timeout: 60_000 });
+ */
+export const sendMessage = <R extends RouteName>(route: R, ...[request, options]: SendArgs<R>) => {
+  const envelope: MessageEnvelope<R> = { channel: CHANNEL, route, request: request as MessageEnvelope<R>['request'] };
+  const { timeout = DEFAULT_TIMEOUT, tabId, frameId }: SendOptions = options ?? {};
+
+  return new Promise<RouteResponse<R>>((resolve, reject) => {
+    const timer = setTimeout(
+      () =>
+        reject(
+          new MessagingError({ code: 'timeout', message: `Route "${route}" did not respond in ${timeout}ms`, route }),
+        ),
+      timeout,
+    );
+
+    const sent: Promise<ResponseEnvelope<R> | undefined> =
+      tabId === undefined
+        ? chrome.runtime.sendMessage(envelope)
+        : chrome.tabs.sendMessage(tabId, envelope, frameId === undefined ? {} : { frameId });
+
+    sent
+      .then(result => {
+        // A listener which closed the channel without responding
+        if (!result) {
+          throw new Error('Receiving end does not exist');
+        }
+        if (!result.ok) {
+          throw new MessagingError(result.error);
+        }
+
+        resolve(result.response);
+      })
+      .catch(error => reject(error instanceof MessagingError ? error : toMessagingError(route, error)))
+      .finally(() => clearTimeout(timer));
+  });
+};
+
+/**
+ * Registers handlers for routes in the current context. Messages for other routes are left to other listeners, so
+ * senders of unknown routes fail right away instead of waiting for a response that never comes.
+ *
+ * @returns a function removing the handlers
+ */
+export const handleMessages = (handlers: RouteHandlers) => {
+  const listener = (
+    message: unknown,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response: ResponseEnvelope) => void,
+  ) => {
+    if (!isEnvelope(message)) return false;
+
+    const handler = handlers[message.route] as
+      | ((request: unknown, sender: chrome.runtime.MessageSender) => unknown)
+      | undefined;
+    if (!handler) return false;
+
+    Promise.resolve()
+      .then(() => handler(message.request, sender))
+      .then(
+        response => sendResponse({ ok: true, response } as ResponseEnvelope),
+        (error: unknown) =>
+          sendResponse({
+            ok: false,
+            error: {
+              code: 'handler-error',
+              message: error instanceof Error ? error.message : String(error),
+              route: message.route,
+            },
+          }),
+      );
+
+    // Keeps the channel open for the asynchronous response
+    return true;
+  };
+
+  chrome.runtime.onMessage.addListener(listener);
+
+  return () => chrome.runtime.onMessage.removeListener(listener);
+};
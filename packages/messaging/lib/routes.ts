@@ -0,0 +1,138 @@
+import type {
+  BackgroundJob,
+  ChatThreadMessage,
+  LessonContext,
+  LessonNote,
+  LlmProviderId,
+  LlmQueueState,
+  LlmQueueStatus,
+} from '@extension/storage';
+
+/**
+ * Every message the extension exchanges, by route name. Add a route here to make it available to `sendMessage` and
+ * `handleMessages` in all contexts.
+ */
+export type MessageRoutes = {
+  /**
+   * Lets content scripts and pages check that the background script is alive.
+   */
+  checkConnection: {
+    request: void;
+    response: { status: 'connected'; timestamp: string };
+  };
+  /**
+   * Sends a prompt to the configured language model.
+   */
+  completePrompt: {
+    request: { text: string };
+    response: { text: string };
+  };
+  /**
+   * Answers an exam question with the language model, validated as structured output. Every answer is exactly one of
+   * the choices, `count` answers in the order of the questions or scenarios of the prompt.
+   */
+  answerQuestion: {
+    request: { prompt: string; choices: string[]; count: number };
+    response: { answers: string[] };
+  };
+  /**
+   * Starts a job of the background, see {@link JobRoutes}. Resolves with its id once it is saved, before it runs.
+   */
+  startJob: {
+    request: { [J in keyof JobRoutes]: { type: J; input: JobRoutes[J]['input'] } }[keyof JobRoutes];
+    response: { id: string };
+  };
+  /**
+   * Cancels a queued or running job. Resolves `false` when it already ended.
+   */
+  cancelJob: {
+    request: { id: string };
+    response: { cancelled: boolean };
+  };
+  /**
+   * Reads a job of the background, for content scripts which may not read the session storage. `null` when it no
+   * longer exists.
+   */
+  getJob: {
+    request: { id: string };
+    response: BackgroundJob | null;
+  };
+  /**
+   * Reads the queue of language model requests, for content scripts which may not read the session storage.
+   */
+  getLlmQueue: {
+    request: void;
+    response: LlmQueueState;
+  };
+  /**
+   * Reads the lesson a tab shows, sent to the content script of the tab. `null` when it shows no lesson.
+   */
+  getLessonContext: {
+    request: void;
+    response: LessonContext | null;
+  };
+  /**
+   * Saves a lesson page the learner read to the lesson notes, sent by the content script. Resolves `false` when the
+   * note is already saved with the same content.
+   */
+  saveLessonNote: {
+    request: Omit<LessonNote, 'capturedAt'>;
+    response: { saved: boolean };
+  };
+  /**
+   * Tests an API key with a cheap request to its provider before it is saved. Rejects when the key does not work.
+   */
+  validateApiKey: {
+    request: { provider: LlmProviderId; apiKey: string };
+    response: { valid: true };
+  };
+};
+
+/**
+ * Routes streaming their response over a port, by route name. `chunk` is sent repeatedly, `result` once at the end.
+ */
+export type StreamRoutes = {
+  /**
+   * Streams the completion of a prompt by the configured language model as text deltas. While the request waits in
+   * the queue of the provider, chunks with an empty text report its `queue` status.
+   */
+  streamPrompt: {
+    request: { text: string };
+    chunk: { text: string; queue?: LlmQueueStatus };
+    result: { text: string };
+  };
+  /**
+   * Streams the next answer of the tutor to a conversation, see `streamPrompt`. The lesson is given to the tutor as
+   * context.
+   */
+  streamTutorChat: {
+    request: { messages: Array<Pick<ChatThreadMessage, 'role' | 'content'>>; lesson?: LessonContext };
+    chunk: { text: string; queue?: LlmQueueStatus };
+    result: { text: string };
+  };
+};
+
+/**
+ * Long running jobs of the background, by job type. Jobs outlive the service worker: they are saved in the session
+ * storage with their progress and a checkpoint, and resume from the checkpoint when the worker restarts.
+ */
+export type JobRoutes = {
+  /**
+   * Sends prompts to the language model one after another, e.g. for every question of a unit. Answers are in the
+   * order of the prompts.
+   */
+  completePrompts: {
+    input: { prompts: string[] };
+    checkpoint: { answers: string[] };
+    result: { answers: string[] };
+  };
+  /**
+   * Makes flashcard drafts from a lesson note, queued in `flashcardDraftsStorage` for the learner to review. Long
+   * lessons are sent in parts, the checkpoint counts the parts done.
+   */
+  makeFlashcards: {
+    input: { noteId: string };
+    checkpoint: { parts: number; drafts: number };
+    result: { drafts: number };
+  };
+};
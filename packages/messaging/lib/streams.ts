@@ -0,0 +1,248 @@
+import { MessagingError } from './errors.js';
+import type { MessagingErrorCode } from './errors.js';
+import type {
+  StreamChunk,
+  StreamClientMessage,
+  StreamHandlerContext,
+  StreamHandlers,
+  StreamOptions,
+  StreamRequest,
+  StreamResult,
+  StreamRouteName,
+  StreamServerMessage,
+} from './types.js';
+
+const STREAM_PORT = 'extension-messaging-stream';
+
+const DEFAULT_TIMEOUT = 30_000;
+
+/**
+ * Chunks a handler may send ahead of the acknowledgements of the receiver.
+ */
+const WINDOW_SIZE = 8;
+
+/**
+ * How often a stream reconnects after losing its port, e.g. because the service worker was restarted.
+ */
+const MAX_RECONNECTS = 3;
+
+const RECONNECT_DELAY = 500;
+
+/**
+ * Requests a streamed response and resolves with its result. Chunks are passed to `onChunk` as they arrive.
+ * If the port is lost mid-stream the request is sent again together with the chunks received so far, so the handler
+ * can continue where it stopped.
+ *
+ * Rejects with a {@link MessagingError}, or with the error thrown by `onChunk`.
+ *
+ * @example
+ * const controller = new AbortController();
+ * await streamMessage('streamPrompt', { text }, { onChunk: ({ text }) => append(text), signal: controller.signal });
+ */
+export const streamMessage = <R extends StreamRouteName>(
+  route: R,
+  request: StreamRequest<R>,
+  options?: StreamOptions<R>,
+) =>
+  new Promise<StreamResult<R>>((resolve, reject) => {
+    const { onChunk, signal, timeout = DEFAULT_TIMEOUT } = options ?? {};
+    const received: StreamChunk<R>[] = [];
+    let port: chrome.runtime.Port | null = null;
+    let everAccepted = false;
+    let reconnects = 0;
+    let settled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // Chunks are handed to onChunk one after another
+    let delivery = Promise.resolve();
+
+    const onAbort = () => {
+      port?.postMessage({ type: 'cancel' } satisfies StreamClientMessage);
+      fail('cancelled', `Stream "${route}" was cancelled`);
+    };
+
+    const finish = (error: unknown, result?: StreamResult<R>) => {
+      if (settled) return;
+      settled = true;
+
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      port?.disconnect();
+      port = null;
+
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result!);
+      }
+    };
+
+    const fail = (code: MessagingErrorCode, message: string) => finish(new MessagingError({ code, message, route }));
+
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        port?.postMessage({ type: 'cancel' } satisfies StreamClientMessage);
+        fail('timeout', `Stream "${route}" sent nothing for ${timeout}ms`);
+      }, timeout);
+    };
+
+    const connect = () => {
+      const current = chrome.runtime.connect({ name: STREAM_PORT });
+      let accepted = false;
+      port = current;
+
+      current.onMessage.addListener((message: StreamServerMessage<R>) => {
+        if (settled || port !== current) return;
+        resetTimer();
+
+        switch (message.type) {
+          case 'started':
+            accepted = true;
+            everAccepted = true;
+            break;
+          case 'chunk':
+            received.push(message.chunk);
+            delivery = delivery
+              .then(() => onChunk?.(message.chunk))
+              .then(
+                () => {
+                  if (port === current) current.postMessage({ type: 'ack', seq: message.seq });
+                },
+                error => {
+                  current.postMessage({ type: 'cancel' } satisfies StreamClientMessage);
+                  finish(error);
+                },
+              );
+            break;
+          case 'end':
+            delivery.then(() => finish(null, message.result));
+            break;
+          case 'error':
+            finish(new MessagingError(message.error));
+            break;
+        }
+      });
+
+      current.onDisconnect.addListener(() => {
+        // Reading lastError keeps Chrome from logging it as unchecked
+        const lastError = chrome.runtime.lastError?.message;
+        if (settled || port !== current) return;
+
+        if (!accepted && !everAccepted) {
+          fail('no-receiver', `No handler for stream "${route}"`);
+          return;
+        }
+        if (reconnects >= MAX_RECONNECTS) {
+          fail('disconnected', lastError ?? `Stream "${route}" lost its connection`);
+          return;
+        }
+
+        reconnects++;
+        port = null;
+        setTimeout(() => !settled && connect(), RECONNECT_DELAY * reconnects);
+      });
+
+      current.postMessage({ type: 'start', route, request, resumeAfter: received } satisfies StreamClientMessage<R>);
+      resetTimer();
+    };
+
+    if (signal?.aborted) {
+      fail('cancelled', `Stream "${route}" was cancelled`);
+      return;
+    }
+    signal?.addEventListener('abort', onAbort);
+    connect();
+  });
+
+/**
+ * Registers stream handlers in the current context. Register each route in one context only, usually the background
+ * script, since a port reaches every context listening for connections.
+ *
+ * @returns a function removing the handlers
+ */
+export const handleStreams = (handlers: StreamHandlers) => {
+  const listener = (port: chrome.runtime.Port) => {
+    if (port.name !== STREAM_PORT) return;
+
+    const controller = new AbortController();
+    let acked = 0;
+    let wake: (() => void) | null = null;
+
+    const post = (message: StreamServerMessage) => {
+      try {
+        port.postMessage(message);
+      } catch {
+        // The receiver went away, the disconnect listener aborts the handler
+      }
+    };
+
+    const run = async ({ route, request, resumeAfter }: Extract<StreamClientMessage, { type: 'start' }>) => {
+      const handler = handlers[route] as (
+        request: unknown,
+        context: StreamHandlerContext<typeof route>,
+      ) => AsyncGenerator<unknown, unknown, void>;
+      const { signal } = controller;
+      const iterator = handler(request, { sender: port.sender!, signal, resumeAfter });
+      let sent = 0;
+
+      try {
+        for (;;) {
+          // Backpressure: wait until the receiver caught up
+          while (sent - acked >= WINDOW_SIZE && !signal.aborted) {
+            await new Promise<void>(resolve => (wake = resolve));
+          }
+          if (signal.aborted) break;
+
+          const { value, done } = await iterator.next();
+          if (signal.aborted) break;
+
+          if (done) {
+            post({ type: 'end', result: value as StreamResult<typeof route> });
+            return;
+          }
+          post({ type: 'chunk', seq: sent++, chunk: value as StreamChunk<typeof route> });
+        }
+
+        await iterator.return(undefined);
+      } catch (error) {
+        if (!signal.aborted) {
+          post({
+            type: 'error',
+            error: { code: 'handler-error', message: error instanceof Error ? error.message : String(error), route },
+          });
+        }
+      }
+    };
+
+    port.onMessage.addListener((message: StreamClientMessage) => {
+      switch (message.type) {
+        case 'start':
+          if (!handlers[message.route]) {
+            // Another context may handle the route, the sender fails if none does
+            port.disconnect();
+            return;
+          }
+          post({ type: 'started' });
+          run(message);
+          break;
+        case 'ack':
+          acked = Math.max(acked, message.seq + 1);
+          wake?.();
+          break;
+        case 'cancel':
+          controller.abort();
+          wake?.();
+          break;
+      }
+    });
+
+    port.onDisconnect.addListener(() => {
+      controller.abort();
+      wake?.();
+    });
+  };
+
+  chrome.runtime.onConnect.addListener(listener);
+
+  return () => chrome.runtime.onConnect.removeListener(listener);
+};
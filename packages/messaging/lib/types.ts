@@ -0,0 +1,156 @@
+import type { JobRoutes, MessageRoutes, StreamRoutes } from './routes.js';
+import type { SerializedMessagingError } from './errors.js';
+import type { BackgroundJobProgress } from '@extension/storage';
+
+export type RouteName = keyof MessageRoutes;
+
+export type RouteRequest<R extends RouteName> = MessageRoutes[R]['request'];
+
+export type RouteResponse<R extends RouteName> = MessageRoutes[R]['response'];
+
+export type RouteHandler<R extends RouteName> = (
+  request: RouteRequest<R>,
+  sender: chrome.runtime.MessageSender,
+) => RouteResponse<R> | Promise<RouteResponse<R>>;
+
+export type RouteHandlers = { [R in RouteName]?: RouteHandler<R> };
+
+export type SendOptions = {
+  /**
+   * Milliseconds to wait for the response before rejecting with a `timeout` error.
+   * @default 30000
+   */
+  timeout?: number;
+  /**
+   * Sends the message to the content scripts of a tab instead of the background script and extension pages.
+   */
+  tabId?: number;
+  /**
+   * Only with {@link SendOptions.tabId}: the frame to send the message to.
+   */
+  frameId?: number;
+};
+
+/**
+ * Request arguments of a route: routes without request payload can be sent without one.
+ */
+export type SendArgs<R extends RouteName> =
+  RouteRequest<R> extends void
+    ? [request?: undefined, options?: SendOptions]
+    : [request: RouteRequest<R>, options?: SendOptions];
+
+export type MessageEnvelope<R extends RouteName = RouteName> = {
+  channel: 'extension-messaging';
+  route: R;
+  request: RouteRequest<R>;
+};
+
+export type ResponseEnvelope<R extends RouteName = RouteName> =
+  | { ok: true; response: RouteResponse<R> }
+  | { ok: false; error: SerializedMessagingError };
+
+export type StreamRouteName = keyof StreamRoutes;
+
+export type StreamRequest<R extends StreamRouteName> = StreamRoutes[R]['request'];
+
+export type StreamChunk<R extends StreamRouteName> = StreamRoutes[R]['chunk'];
+
+export type StreamResult<R extends StreamRouteName> = StreamRoutes[R]['result'];
+
+export type StreamHandlerContext<R extends StreamRouteName> = {
+  sender: chrome.runtime.MessageSender;
+  /**
+   * Aborted when the sender cancels or goes away.
+   */
+  signal: AbortSignal;
+  /**
+   * Chunks the sender already received before the connection was lost, e.g. because the service worker restarted.
+   * The handler should continue after them instead of starting over.
+   */
+  resumeAfter: StreamChunk<R>[];
+};
+
+/**
+ * Yields the chunks of the response and returns the result. The next chunk is only requested once the receiver
+ * caught up, so a slow receiver slows down the producer.
+ */
+export type StreamHandler<R extends StreamRouteName> = (
+  request: StreamRequest<R>,
+  context: StreamHandlerContext<R>,
+) => AsyncGenerator<StreamChunk<R>, StreamResult<R>, void>;
+
+export type StreamHandlers = { [R in StreamRouteName]?: StreamHandler<R> };
+
+export type StreamOptions<R extends StreamRouteName> = {
+  /**
+   * Called for every chunk. The next chunk is only sent once a returned promise settles.
+   */
+  onChunk?: (chunk: StreamChunk<R>) => void | Promise<void>;
+  /**
+   * Cancels the stream, rejecting with a `cancelled` error.
+   */
+  signal?: AbortSignal;
+  /**
+   * Milliseconds to wait for the next chunk before rejecting with a `timeout` error.
+   * @default 30000
+   */
+  timeout?: number;
+};
+
+export type StreamClientMessage<R extends StreamRouteName = StreamRouteName> =
+  | { type: 'start'; route: R; request: StreamRequest<R>; resumeAfter: StreamChunk<R>[] }
+  | { type: 'ack'; seq: number }
+  | { type: 'cancel' };
+
+export type StreamServerMessage<R extends StreamRouteName = StreamRouteName> =
+  | { type: 'started' }
+  | { type: 'chunk'; seq: number; chunk: StreamChunk<R> }
+  | { type: 'end'; result: StreamResult<R> }
+  | { type: 'error'; error: SerializedMessagingError };
+
+export type JobName = keyof JobRoutes;
+
+export type JobInput<J extends JobName> = JobRoutes[J]['input'];
+
+export type JobCheckpoint<J extends JobName> = JobRoutes[J]['checkpoint'];
+
+export type JobResult<J extends JobName> = JobRoutes[J]['result'];
+
+export type JobHandlerContext<J extends JobName> = {
+  id: string;
+  /**
+   * Saved by an earlier run of the job which was stopped by a restart of the service worker. The handler should
+   * continue from it instead of starting over.
+   */
+  checkpoint: JobCheckpoint<J> | undefined;
+  /**
+   * Aborted when the job is cancelled.
+   */
+  signal: AbortSignal;
+  /**
+   * Publishes the progress of the job, together with a checkpoint to resume from. Resolves once both are saved.
+   */
+  report: (progress: BackgroundJobProgress, checkpoint?: JobCheckpoint<J>) => Promise<void>;
+};
+
+/**
+ * Runs a job and resolves with its result. May run again for the same job after a restart of the service worker, so
+ * work done before the last checkpoint should be skipped.
+ */
+export type JobHandler<J extends JobName> = (
+  input: JobInput<J>,
+  context: JobHandlerContext<J>,
+) => Promise<JobResult<J>>;
+
+export type JobHandlers = { [J in JobName]?: JobHandler<J> };
+
+export type JobOptions = {
+  /**
+   * Called whenever the job reports progress.
+   */
+  onProgress?: (progress: BackgroundJobProgress) => void;
+  /**
+   * Cancels the job, rejecting with a `cancelled` error.
+   */
+  signal?: AbortSignal;
+};
@@ -0,0 +1,4 @@
+export * from './prompts.js';
+export * from './render.js';
+export * from './templates.js';
+export type * from './types.js';
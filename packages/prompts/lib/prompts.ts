@@ -0,0 +1,40 @@
+import { promptOverridesStorage } from '@extension/storage';
+import { renderTemplate, validateTemplate } from './render.js';
+import { defaultPromptTemplates } from './templates.js';
+import type { PromptId, PromptTemplate, PromptValues, PromptVars } from './types.js';
+
+/**
+ * The template of an id as used for rendering: the override from the options when it is valid, else the default.
+ */
+export const getPromptTemplate = async (id: PromptId): Promise<PromptTemplate & { overridden: boolean }> => {
+  const template: PromptTemplate = defaultPromptTemplates[id];
+  const override = (await promptOverridesStorage.get())[id];
+
+  if (override) {
+    const problems = validateTemplate(override.template, template.variables);
+    if (!problems.length) return { ...template, template: override.template, overridden: true };
+
+    // Defaults may drop variables an older override still uses
+    console.warn(`Ignoring the override of the "${id}" prompt:`, problems);
+  }
+
+  return { ...template, overridden: false };
+};
+
+/**
+ * Renders a prompt from its template, using the override from the options when there is one.
+ *
+ * @example
+ * const prompt = await renderPrompt('multipleChoice', { title, question, choices });
+ */
+export const renderPrompt = async <Id extends PromptId>(id: Id, vars: PromptVars<Id>) => {
+  const { template } = await getPromptTemplate(id);
+
+  return renderTemplate(template, vars as PromptValues);
+};
+
+/**
+ * Renders a template with the sample values of its variables, for previews.
+ */
+export const renderSample = (source: string, variables: PromptTemplate['variables']) =>
+  renderTemplate(source, Object.fromEntries(Object.entries(variables).map(([name, { sample }]) => [name, sample])));
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { renderTemplate, validateTemplate } from './render.js';
+import type { PromptTemplate } from './types.js';
+
+const variables: PromptTemplate['variables'] = {
+  question: { type: 'text', description: 'The question', sample: 'What is an easement?' },
+  context: { type: 'text', description: 'Notes of the learner', sample: '' },
+  choices: { type: 'list', description: 'The choices', sample: ['Yes', 'No'] },
+};
+
+describe('validateTemplate', () => {
+  it('accepts a template using known variables', () => {
+    expect(
+      validateTemplate(
+        '{{question}}\n{{#if context}}Notes: {{context}}{{/if}}\n{{#each choices}}{{@number}}. {{this}}{{/each}}',
+        variables,
+      ),
+    ).toEqual([]);
+  });
+
+  it('reports blocks that are never closed or closed by the wrong tag', () => {
+    expect(validateTemplate('{{#each choices}}{{this}}', variables)).toEqual(['{{#each choices}} is never closed']);
+    expect(validateTemplate('{{#if context}}{{context}}{{/each}}', variables)).toEqual([
+      '{{/each}} does not close {{#if context}}',
+    ]);
+    expect(validateTemplate('{{question}}{{/if}}', variables)).toEqual(['{{/if}} does not close any block']);
+  });
+
+  it('reports unknown blocks and tags', () => {
+    expect(validateTemplate('{{#with question}}{{/with}}', variables)).toEqual([
+      'Unknown block {{#with question}}, use {{#each name}} or {{#if name}}',
+    ]);
+    expect(validateTemplate('{{#each}}{{/each}}', variables)).toEqual([
+      'Unknown block {{#each}}, use {{#each name}} or {{#if name}}',
+    ]);
+    expect(validateTemplate('{{question context}}', variables)).toEqual([
+      'Unknown tag {{question context}}, variables are written as {{name}}',
+    ]);
+  });
+
+  it('reports variables the template does not have or uses the wrong way', () => {
+    expect(validateTemplate('{{answer}}', variables)).toEqual(['Unknown variable "answer"']);
+    expect(validateTemplate('{{this}}', variables)).toEqual(['Unknown variable "this"']);
+    expect(validateTemplate('{{#each question}}{{this}}{{/each}}', variables)).toEqual([
+      '"question" is not a list and cannot be used with {{#each}}',
+    ]);
+    expect(validateTemplate('{{choices}}', variables)).toEqual([
+      '"choices" is a list, use {{#each choices}}{{this}}{{/each}}',
+    ]);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('inserts variables and numbers list items one per line', () => {
+    expect(
+      renderTemplate('Q: {{ question }}\n{{#each choices}}{{@number}}. {{this}}{{/each}}', {
+        question: 'Is it a lien?',
+        choices: ['Yes', 'No'],
+      }),
+    ).toBe('Q: Is it a lien?\n1. Yes\n2. No');
+  });
+
+  it('renders if blocks only for values which are not empty', () => {
+    const template = '{{#if context}}Notes: {{context}}\n{{/if}}{{question}}';
+
+    expect(renderTemplate(template, { question: 'Q', context: 'N' })).toBe('Notes: N\nQ');
+    expect(renderTemplate(template, { question: 'Q', context: '  ' })).toBe('Q');
+    expect(renderTemplate('{{#if choices}}Choices{{/if}}', { choices: [] })).toBe('');
+  });
+
+  it('renders missing values as empty', () => {
+    expect(renderTemplate('[{{question}}]{{#each choices}}{{this}}{{/each}}', {})).toBe('[]');
+  });
+
+  it('throws when the template cannot be parsed', () => {
+    expect(() => renderTemplate('{{#if context}}', {})).toThrow('{{#if context}} is never closed');
+  });
+});
@@ -0,0 +1,118 @@
+import type { PromptTemplate, PromptValues } from './types.js';
+
+type Block = { type: 'each' | 'if'; name: string; children: Node[] };
+
+type Node = { type: 'text'; value: string } | { type: 'variable'; name: string } | Block;
+
+/**
+ * `{{name}}`, `{{#each name}}`, `{{/each}}`, `{{#if name}}` and `{{/if}}`. Inside `each`, `{{this}}` is the item
+ * and `{{@number}}` its position counting from 1.
+ */
+const TAG = /\{\{\s*([#/]?)\s*([@\w]+)(?:\s+(\w+))?\s*\}\}/g;
+
+const ITEM_VARIABLES = ['this', '@number'];
+
+/**
+ * Parses a template, throwing on unbalanced or unknown blocks.
+ */
+const parse = (source: string) => {
+  const root: Node[] = [];
+  const stack: Block[] = [];
+  const current = () => stack.at(-1)?.children ?? root;
+
+  let last = 0;
+  for (const match of source.matchAll(TAG)) {
+    const [tag, sigil, keyword, name] = match;
+    if (match.index > last) current().push({ type: 'text', value: source.slice(last, match.index) });
+    last = match.index + tag.length;
+
+    if (sigil === '#') {
+      if (!(keyword === 'each' || keyword === 'if') || !name) {
+        throw new Error(`Unknown block ${tag}, use {{#each name}} or {{#if name}}`);
+      }
+      const block: Block = { type: keyword, name, children: [] };
+      current().push(block);
+      stack.push(block);
+    } else if (sigil === '/') {
+      const block = stack.pop();
+      if (!block || block.type !== keyword) {
+        throw new Error(`${tag} does not close ${block ? `{{#${block.type} ${block.name}}}` : 'any block'}`);
+      }
+    } else if (name) {
+      throw new Error(`Unknown tag ${tag}, variables are written as {{name}}`);
+    } else {
+      current().push({ type: 'variable', name: keyword });
+    }
+  }
+
+  const open = stack.at(-1);
+  if (open) throw new Error(`{{#${open.type} ${open.name}}} is never closed`);
+  if (last < source.length) root.push({ type: 'text', value: source.slice(last) });
+
+  return root;
+};
+
+/**
+ * Problems of a template edited by the user, empty when it can be rendered with the variables of the default.
+ */
+export const validateTemplate = (source: string, variables: PromptTemplate['variables']) => {
+  let nodes: Node[];
+  try {
+    nodes = parse(source);
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+
+  const problems: string[] = [];
+  const check = (nodes: Node[], inEach: boolean) =>
+    nodes.forEach(node => {
+      if (node.type === 'text') return;
+      if (node.type === 'variable' && inEach && ITEM_VARIABLES.includes(node.name)) return;
+
+      const variable = variables[node.name];
+      if (!variable) {
+        problems.push(`Unknown variable "${node.name}"`);
+      } else if (node.type === 'each' && variable.type !== 'list') {
+        problems.push(`"${node.name}" is not a list and cannot be used with {{#each}}`);
+      } else if (node.type === 'variable' && variable.type === 'list') {
+        problems.push(`"${node.name}" is a list, use {{#each ${node.name}}}{{this}}{{/each}}`);
+      }
+
+      if (node.type !== 'variable') check(node.children, inEach || node.type === 'each');
+    });
+  check(nodes, false);
+
+  return problems;
+};
+
+const isEmpty = (value: string | readonly string[] | undefined) =>
+  value === undefined || (typeof value === 'string' ? !value.trim() : !value.length);
+
+const renderNodes = (nodes: Node[], values: PromptValues, item?: { text: string; number: number }): string =>
+  nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return node.value;
+        case 'variable':
+          if (item && node.name === 'this') return item.text;
+          if (item && node.name === '@number') return String(item.number);
+          return String(values[node.name] ?? '');
+        case 'if':
+          return isEmpty(values[node.name]) ? '' : renderNodes(node.children, values, item);
+        case 'each': {
+          const list = values[node.name];
+          // Items are lines of the prompt
+          return (Array.isArray(list) ? list : [])
+            .map((text, index) => renderNodes(node.children, values, { text, number: index + 1 }))
+            .join('\n');
+        }
+      }
+    })
+    .join('');
+
+/**
+ * Renders a template. `{{#each}}` renders its block once per item, one item per line. `{{#if}}` renders its block
+ * when the variable is not empty. Throws when the template cannot be parsed, see {@link validateTemplate}.
+ */
+export const renderTemplate = (source: string, values: PromptValues) => renderNodes(parse(source), values);
@@ -0,0 +1,182 @@
+import type { PromptTemplate } from './types.js';
+
+/**
+ * Prompts shipped with the extension, by id. Raise the `version` of a template when changing it.
+ */
+export const defaultPromptTemplates = {
+  multipleChoice: {
+    name: 'Multiple choice question',
+    description: 'Asks for the one correct option of a multiple choice question or unit exam question.',
+    version: 2,
+    variables: {
+      title: {
+        type: 'text',
+        description: 'Title of the lesson page, empty in unit exams',
+        sample: 'Agency Relationships',
+      },
+      question: {
+        type: 'text',
+        description: 'The question',
+        sample: 'Which of the following creates an agency relationship?',
+      },
+      choices: {
+        type: 'list',
+        description: 'Text of each option',
+        sample: ['A listing agreement', 'A property survey', 'A title search', 'An appraisal'],
+      },
+    },
+    template: `You are a real estate exam expert. Answer the following multiple choice question with precision:
+
+{{#if title}}Title: {{title}}
+{{/if}}
+Question: {{question}}
+
+Choose the best answer from these options:
+{{#each choices}}{{@number}}. {{this}}{{/each}}
+
+IMPORTANT: Answer with the EXACT text of the correct option, without its number.`,
+  },
+  trueFalse: {
+    name: 'True/false scenarios',
+    description: 'Asks which option, e.g. true or false, applies to each scenario of a question.',
+    version: 2,
+    variables: {
+      title: {
+        type: 'text',
+        description: 'Title of the lesson page',
+        sample: 'Fair Housing',
+      },
+      question: {
+        type: 'text',
+        description: 'The question',
+        sample: 'Does the Fair Housing Act apply in these situations?',
+      },
+      scenarios: {
+        type: 'list',
+        description: 'Text of each scenario',
+        sample: ['An owner renting a room in their own home', 'A broker listing a single-family home'],
+      },
+      options: {
+        type: 'list',
+        description: 'Options to choose from for every scenario',
+        sample: ['Law is applicable', 'Law is not applicable'],
+      },
+    },
+    template: `You are a real estate exam expert. Answer the following true/false questions with precision:
+
+Title: {{title}}
+Question: {{question}}
+
+For each of the following scenarios, indicate the correct answer:
+{{#each scenarios}}{{@number}}. {{this}}{{/each}}
+
+Options for each scenario:
+{{#each options}}- {{this}}{{/each}}
+
+IMPORTANT: Answer with EXACTLY the text of the correct option for each scenario, in the order of the scenarios.`,
+  },
+  explainAnswer: {
+    name: 'Study mode explanation',
+    description: 'Explains a practice question in study mode, once the student checked their own answer.',
+    version: 1,
+    variables: {
+      title: {
+        type: 'text',
+        description: 'Title of the lesson page',
+        sample: 'Agency Relationships',
+      },
+      question: {
+        type: 'text',
+        description: 'The question',
+        sample: 'Which of the following creates an agency relationship?',
+      },
+      choices: {
+        type: 'list',
+        description: 'Text of each option, or of each scenario of a true/false question',
+        sample: ['A listing agreement', 'A property survey', 'A title search', 'An appraisal'],
+      },
+      options: {
+        type: 'list',
+        description: 'Options to choose from for every scenario, empty for multiple choice questions',
+        sample: [],
+      },
+      result: {
+        type: 'text',
+        description: 'Whether the answer of the student was correct or incorrect',
+        sample: 'incorrect',
+      },
+    },
+    template: `You are a patient tutor helping a student prepare for a real estate license exam.
+The student just checked their answer to this practice question, and it was {{result}}.
+
+{{#if title}}Title: {{title}}
+{{/if}}
+Question: {{question}}
+
+{{#each choices}}{{@number}}. {{this}}{{/each}}
+{{#if options}}Options for each of these scenarios:
+{{#each options}}- {{this}}{{/each}}
+{{/if}}
+Explain briefly which answer is correct and why, why the other options are wrong, and which trap the question sets.
+Format your answer in Markdown.`,
+  },
+  makeFlashcards: {
+    name: 'Flashcards from a lesson',
+    description: 'Asks for basic and cloze flashcards about the paragraphs of a captured lesson note.',
+    version: 1,
+    variables: {
+      title: {
+        type: 'text',
+        description: 'Title of the lesson',
+        sample: 'Water Rights',
+      },
+      paragraphs: {
+        type: 'list',
+        description: 'Paragraphs of the lesson, or of a part of it',
+        sample: [
+          'Littoral rights are the rights of owners whose land borders a lake, sea or ocean.',
+          'Riparian rights belong to owners of land along a river or stream.',
+        ],
+      },
+    },
+    template: `You write flashcards for a student preparing for a real estate license exam.
+
+Lesson{{#if title}}: {{title}}{{/if}}
+
+Paragraphs:
+{{#each paragraphs}}{{@number}}. {{this}}{{/each}}
+
+Write flashcards about the terms, rules and numbers worth remembering:
+- "basic" cards ask a question or name a term on the front, and answer it briefly on the back.
+- "cloze" cards copy a key sentence of a paragraph to the front with its key words replaced by [...], and have the missing words on the back.
+Give the number of the paragraph each card is based on. Only use facts the lesson states, and skip paragraphs with nothing worth remembering.`,
+  },
+  tutor: {
+    name: 'Tutor chat',
+    description: 'System prompt of the tutor chat in the side panel, with the lesson of the active tab when attached.',
+    version: 2,
+    variables: {
+      lessonTitle: {
+        type: 'text',
+        description: 'Title of the attached lesson, empty without one',
+        sample: 'Agency Relationships',
+      },
+      lesson: {
+        type: 'text',
+        description: 'Text of the attached lesson, empty without one',
+        sample: 'An agency relationship is created when a principal authorizes an agent to act on their behalf.',
+      },
+    },
+    template: `You are a patient tutor helping a student prepare for a real estate license exam.
+Explain concepts clearly and briefly, use concrete examples, and point out common exam traps.
+When the student asks about a question, help them reason towards the answer instead of only stating it.
+Never say which answer of a unit exam or final exam question is correct, even when asked directly: graded work is the
+student's own. Explain the concepts it tests instead.
+Format your answers in Markdown.
+{{#if lesson}}
+
+The student is reading this lesson{{#if lessonTitle}} titled "{{lessonTitle}}"{{/if}}:
+
+{{lesson}}{{/if}}`,
+  },
+} as const satisfies Record<string, PromptTemplate>;
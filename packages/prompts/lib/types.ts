@@ -0,0 +1,44 @@
+import type { defaultPromptTemplates } from './templates.js';
+
+/**
+ * `text` variables are inserted with `{{name}}`, `list` variables are iterated with `{{#each name}}`.
+ */
+export type PromptVariableType = 'text' | 'list';
+
+export type PromptVariable = {
+  type: PromptVariableType;
+  description: string;
+  /**
+   * Shown in the preview of the options page.
+   */
+  sample: string | readonly string[];
+};
+
+export type PromptTemplate = {
+  name: string;
+  description: string;
+  /**
+   * Raised whenever the default template changes, so overrides based on an older version can be pointed out.
+   */
+  version: number;
+  variables: Readonly<Record<string, PromptVariable>>;
+  template: string;
+};
+
+export type PromptId = keyof typeof defaultPromptTemplates;
+
+type VariableValue<V> = V extends { type: 'list' } ? readonly string[] : string;
+
+type Variables<Id extends PromptId> = (typeof defaultPromptTemplates)[Id]['variables'];
+
+/**
+ * Values of the variables of a template, by variable name.
+ */
+export type PromptVars<Id extends PromptId> = {
+  [Name in keyof Variables<Id>]: VariableValue<Variables<Id>[Name]>;
+};
+
+/**
+ * Values of the variables of any template, as used by the renderer.
+ */
+export type PromptValues = Record<string, string | readonly string[]>;
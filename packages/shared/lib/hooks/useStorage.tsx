@@ -1,13 +1,13 @@
 import { useRef, useSyncExternalStore } from 'react';
-import type { BaseStorage } from '@extension/storage';
+import type { ObservableStorage } from '@extension/storage';
 
 type WrappedPromise = ReturnType<typeof wrapPromise>;
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-const storageMap: Map<BaseStorage<any>, WrappedPromise> = new Map();
+const storageMap: Map<ObservableStorage<any>, WrappedPromise> = new Map();
 
 export const useStorage = <
-  Storage extends BaseStorage<Data>,
-  Data = Storage extends BaseStorage<infer Data> ? Data : unknown,
+  Storage extends ObservableStorage<Data>,
+  Data = Storage extends ObservableStorage<infer Data> ? Data : unknown,
 >(
   storage: Storage,
 ) => {
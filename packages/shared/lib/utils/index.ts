@@ -1 +1,2 @@
 export * from './shared-types.js';
+export * from './sanitizeHtml.js';
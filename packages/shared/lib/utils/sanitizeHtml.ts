@@ -0,0 +1,104 @@
+// Formatting kept in lesson notes, any other element is replaced by its content
+const NOTE_TAGS = new Set([
+  'A',
+  'B',
+  'BLOCKQUOTE',
+  'BR',
+  'CODE',
+  'EM',
+  'H1',
+  'H2',
+  'H3',
+  'H4',
+  'H5',
+  'H6',
+  'HR',
+  'I',
+  'LI',
+  'OL',
+  'P',
+  'PRE',
+  'STRONG',
+  'SUB',
+  'SUP',
+  'TABLE',
+  'TBODY',
+  'TD',
+  'TH',
+  'THEAD',
+  'TR',
+  'U',
+  'UL',
+]);
+
+// Elements dropped from lesson notes with their content
+const DROPPED_TAGS = new Set([
+  'AUDIO',
+  'BUTTON',
+  'CANVAS',
+  'EMBED',
+  'FORM',
+  'IFRAME',
+  'INPUT',
+  'NOSCRIPT',
+  'OBJECT',
+  'SCRIPT',
+  'SELECT',
+  'STYLE',
+  'SVG',
+  'TEMPLATE',
+  'TEXTAREA',
+  'VIDEO',
+]);
+
+const cleanChildren = (parent: Element, baseUrl: string) => {
+  Array.from(parent.children).forEach(child => {
+    if (DROPPED_TAGS.has(child.tagName.toUpperCase())) {
+      child.remove();
+      return;
+    }
+    cleanChildren(child, baseUrl);
+    if (!NOTE_TAGS.has(child.tagName.toUpperCase())) {
+      child.replaceWith(...Array.from(child.childNodes));
+      return;
+    }
+
+    const href = child.tagName.toUpperCase() === 'A' ? child.getAttribute('href') : null;
+    Array.from(child.attributes).forEach(({ name }) => child.removeAttribute(name));
+    if (!href) return;
+    try {
+      const url = new URL(href, baseUrl);
+      if (url.protocol === 'http:' || url.protocol === 'https:') child.setAttribute('href', url.href);
+    } catch {
+      // Invalid links keep their text only
+    }
+  });
+  // Comments and processing instructions carry nothing worth keeping
+  Array.from(parent.childNodes)
+    .filter(node => node.nodeType !== Node.ELEMENT_NODE && node.nodeType !== Node.TEXT_NODE)
+    .forEach(node => node.remove());
+};
+
+/**
+ * Copies the content of elements with only the formatting of lesson notes, removing every attribute but absolute
+ * http(s) link targets.
+ *
+ * @param baseUrl resolves relative links
+ */
+export const sanitizeNoteElements = (elements: Element[], baseUrl: string) =>
+  elements
+    .map(element => {
+      const copy = element.cloneNode(true) as Element;
+      cleanChildren(copy, baseUrl);
+      return copy.innerHTML.trim();
+    })
+    .filter(Boolean)
+    .join('\n');
+
+/**
+ * Sanitizes lesson note HTML, see {@link sanitizeNoteElements}. Run it wherever notes are rendered, as notes come from
+ * content scripts and backups, which are not trusted. The HTML is parsed into an inert document, so nothing in it
+ * runs or loads.
+ */
+export const sanitizeNoteHtml = (html: string, baseUrl: string) =>
+  sanitizeNoteElements([new DOMParser().parseFromString(html, 'text/html').body], baseUrl);
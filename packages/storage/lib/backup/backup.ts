@@ -0,0 +1,230 @@
+import { getRegisteredCollections, getRegisteredStorages, StorageEnum } from '../base/index.js';
+import type {
+  BackupCollectionItem,
+  BackupFile,
+  BackupStorageItem,
+  ExportBackupOptions,
+  RestoreAction,
+  RestoreBackupOptions,
+  RestorePreview,
+} from './types.js';
+// Registers every storage of this package, also those the importing page does not use itself
+import '../impl/index.js';
+
+const BACKUP_FORMAT = 'extension-backup';
+
+/**
+ * Bump when the file layout changes in a way older extension versions cannot read.
+ */
+const BACKUP_FORMAT_VERSION = 1;
+
+const chrome = globalThis.chrome;
+
+const storageId = (storageEnum: StorageEnum, key: string) => `${storageEnum}:${key}`;
+
+/**
+ * Registered storages by area and key. Storages moved to another area are also found under their old area.
+ */
+const getStoragesById = () =>
+  new Map(
+    getRegisteredStorages().flatMap(storage => [
+      [storageId(storage.storageEnum, storage.key), storage] as const,
+      ...(storage.movedFrom ? [[storageId(storage.movedFrom, storage.key), storage] as const] : []),
+    ]),
+  );
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Collects the raw values of all registered storages and collections which take part in backups.
+ */
+export const createBackup = async (): Promise<BackupFile> => {
+  const storages = await Promise.all(
+    getRegisteredStorages()
+      .filter(storage => storage.backup)
+      .map(async ({ key, storageEnum, exportRaw }): Promise<BackupStorageItem> => {
+        const { value, version, expiresAt } = await exportRaw();
+        return { key, storageEnum, version, value, ...(expiresAt !== undefined && { expiresAt }) };
+      }),
+  );
+
+  const collections = await Promise.all(
+    getRegisteredCollections()
+      .filter(collection => collection.backup)
+      .map(async ({ name, getAll }): Promise<BackupCollectionItem> => ({ name, records: await getAll() })),
+  );
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    extensionVersion: chrome?.runtime?.getManifest().version,
+    storages: storages.filter(item => item.value !== undefined),
+    collections,
+  };
+};
+
+/**
+ * Creates a backup as a file ready to be downloaded.
+ */
+export const exportBackup = async (options?: ExportBackupOptions): Promise<Blob> => {
+  const json = new Blob([JSON.stringify(await createBackup())], { type: 'application/json' });
+
+  if (!options?.gzip) {
+    return json;
+  }
+
+  const compressed = await new Response(json.stream().pipeThrough(new CompressionStream('gzip'))).arrayBuffer();
+
+  return new Blob([compressed], { type: 'application/gzip' });
+};
+
+export const getBackupFileName = (options?: ExportBackupOptions) => {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+  return `extension-backup-${timestamp}.json${options?.gzip ? '.gz' : ''}`;
+};
+
+/**
+ * Checks the shape of parsed backup data, and that this version of the extension can read every value of it. Throws
+ * with a description of the first problem found.
+ */
+export const validateBackup = (data: unknown): BackupFile => {
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT) {
+    throw new Error('Invalid backup: not a backup file of this extension');
+  }
+  if (typeof data.formatVersion !== 'number' || data.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error(`Invalid backup: format version ${data.formatVersion} is not supported, please update`);
+  }
+  if (!Array.isArray(data.storages) || !Array.isArray(data.collections)) {
+    throw new Error('Invalid backup: storages or collections are missing');
+  }
+
+  const storageAreas = Object.values(StorageEnum) as string[];
+  const versions = new Map([...getStoragesById()].map(([id, storage]) => [id, storage.version ?? 0]));
+
+  data.storages.forEach((item, index) => {
+    if (!isRecord(item) || typeof item.key !== 'string' || !storageAreas.includes(item.storageEnum as string)) {
+      throw new Error(`Invalid backup: storage entry ${index} is malformed`);
+    }
+    if (item.version !== undefined && typeof item.version !== 'number') {
+      throw new Error(`Invalid backup: storage "${item.key}" has an invalid version`);
+    }
+    if (item.expiresAt !== undefined && typeof item.expiresAt !== 'number') {
+      throw new Error(`Invalid backup: storage "${item.key}" has an invalid expiry`);
+    }
+
+    const supported = versions.get(storageId(item.storageEnum as StorageEnum, item.key));
+    if (supported !== undefined && (item.version ?? 0) > supported) {
+      throw new Error(
+        `Invalid backup: storage "${item.key}" is at version ${item.version}, newer than ${supported} of this extension, please update`,
+      );
+    }
+  });
+
+  data.collections.forEach((item, index) => {
+    if (!isRecord(item) || typeof item.name !== 'string' || !Array.isArray(item.records)) {
+      throw new Error(`Invalid backup: collection entry ${index} is malformed`);
+    }
+  });
+
+  return data as BackupFile;
+};
+
+/**
+ * Reads a backup file, plain or gzipped, and validates it.
+ */
+export const parseBackup = async (file: Blob): Promise<BackupFile> => {
+  const [first, second] = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  const isGzip = first === 0x1f && second === 0x8b;
+  const stream = isGzip ? file.stream().pipeThrough(new DecompressionStream('gzip')) : file.stream();
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await new Response(stream).text());
+  } catch {
+    throw new Error('Invalid backup: the file is not valid JSON');
+  }
+
+  return validateBackup(data);
+};
+
+/**
+ * Lists what restoring the backup would create, overwrite or skip, without writing anything.
+ */
+export const previewRestore = async (backup: BackupFile): Promise<RestorePreview> => {
+  const registeredStorages = getStoragesById();
+  const registeredCollections = new Map(getRegisteredCollections().map(collection => [collection.name, collection]));
+
+  const storages = await Promise.all(
+    backup.storages.map(async ({ key, storageEnum, value, version }) => {
+      const registered = registeredStorages.get(storageId(storageEnum, key));
+      let action: RestoreAction = 'skip';
+
+      if (registered?.backup) {
+        const current = await registered.exportRaw();
+        if (current.value === undefined) {
+          action = 'create';
+        } else {
+          action = isSame(current.value, value) && current.version === version ? 'unchanged' : 'overwrite';
+        }
+      }
+
+      return { key, storageEnum, action };
+    }),
+  );
+
+  const collections = await Promise.all(
+    backup.collections.map(async ({ name, records }) => {
+      const registered = registeredCollections.get(name);
+      if (!registered?.backup) {
+        return { name, action: 'skip' as const, existing: 0, incoming: records.length };
+      }
+
+      const existing = await registered.getAll();
+      let action: RestoreAction = 'overwrite';
+      if (existing.length === 0) {
+        action = 'create';
+      } else if (isSame(existing, records)) {
+        action = 'unchanged';
+      }
+
+      return { name, action, existing: existing.length, incoming: records.length };
+    }),
+  );
+
+  return { storages, collections };
+};
+
+/**
+ * Restores a validated backup. Storage values replace the current ones, collections are replaced as a whole.
+ * Resolves with the preview of what was done.
+ */
+export const restoreBackup = async (backup: BackupFile, options?: RestoreBackupOptions): Promise<RestorePreview> => {
+  const preview = await previewRestore(backup);
+
+  if (options?.dryRun) {
+    return preview;
+  }
+
+  const needsWrite = (action: RestoreAction) => action === 'create' || action === 'overwrite';
+  const registeredStorages = getStoragesById();
+  const registeredCollections = new Map(getRegisteredCollections().map(collection => [collection.name, collection]));
+
+  for (const [index, { key, storageEnum, value, version, expiresAt }] of backup.storages.entries()) {
+    if (needsWrite(preview.storages[index].action)) {
+      await registeredStorages.get(storageId(storageEnum, key))!.importRaw({ value, version, expiresAt });
+    }
+  }
+
+  for (const [index, { name, records }] of backup.collections.entries()) {
+    if (needsWrite(preview.collections[index].action)) {
+      await registeredCollections.get(name)!.replaceAll(records);
+    }
+  }
+
+  return preview;
+};
@@ -0,0 +1,63 @@
+import type { StorageEnum } from '../base/index.js';
+
+export type BackupStorageItem = {
+  key: string;
+  storageEnum: StorageEnum;
+  /**
+   * Schema version of the value, restored values from older versions are migrated. Backups with values from newer
+   * versions are rejected.
+   */
+  version?: number;
+  /**
+   * The value as it is persisted, before deserialization.
+   */
+  value: unknown;
+  /**
+   * When the value expires, for storages with a time to live.
+   */
+  expiresAt?: number;
+};
+
+export type BackupCollectionItem = {
+  name: string;
+  records: unknown[];
+};
+
+export type BackupFile = {
+  format: 'extension-backup';
+  formatVersion: number;
+  createdAt: string;
+  extensionVersion?: string;
+  storages: BackupStorageItem[];
+  collections: BackupCollectionItem[];
+};
+
+/**
+ * What restoring an item would do.
+ * - `create`: nothing is stored yet
+ * - `overwrite`: the stored value differs and will be replaced
+ * - `unchanged`: the stored value equals the backup
+ * - `skip`: the item is unknown to this version of the extension or excluded from backups
+ */
+export type RestoreAction = 'create' | 'overwrite' | 'unchanged' | 'skip';
+
+export type RestorePreview = {
+  storages: Array<{ key: string; storageEnum: StorageEnum; action: RestoreAction }>;
+  collections: Array<{ name: string; action: RestoreAction; existing: number; incoming: number }>;
+};
+
+export type ExportBackupOptions = {
+  /**
+   * Compress the file with gzip.
+   * @default false
+   */
+  gzip?: boolean;
+};
+
+export type RestoreBackupOptions = {
+  /**
+   * Only compute the preview without writing anything.
+   * @default false
+   */
+  dryRun?: boolean;
+};
@@ -1,5 +1,12 @@
-import type { BaseStorage, StorageConfig, ValueOrUpdate } from './types.js';
+import type { BaseStorage, StampedValue, StorageConfig, ValueOrUpdate } from './types.js';
+import type { RawStorageValue, StorageEntry } from './registry.js';
+import { registerStorageEntry } from './registry.js';
+import { compareAndSetEntry, removeEntryIf, updateAtomically } from './transaction.js';
+import { evictEntries, EXPIRES_KEY_SUFFIX, isExpired } from './eviction.js';
+import { createStamp, STAMP_KEY_SUFFIX } from './context.js';
 import { SessionAccessLevelEnum, StorageEnum } from './enums.js';
+import { CHUNK_KEY_SUFFIX } from '../sync/chunks.js';
+import { createSyncStorage } from '../sync/sync.js';
 
 /**
  * Chrome reference error while running `processTailwindFeatures` in tailwindcss.
@@ -40,6 +47,18 @@ const updateCache = async <D>(valueOrUpdate: ValueOrUpdate<D>, cache: D | null):
  */
 let globalSessionAccessLevelFlag: StorageConfig['sessionAccessForContentScripts'] = false;
 
+/**
+ * Suffix of the sibling key which holds the schema version of a versioned storage.
+ */
+export const VERSION_KEY_SUFFIX = '__version';
+
+/**
+ * Whether a key is a sibling of a storage value rather than a value of its own.
+ */
+export const isStorageMetaKey = (key: string) =>
+  [VERSION_KEY_SUFFIX, STAMP_KEY_SUFFIX, EXPIRES_KEY_SUFFIX].some(suffix => key.endsWith(suffix)) ||
+  new RegExp(`${CHUNK_KEY_SUFFIX}\\d+$`).test(key);
+
 /**
  * Checks if the storage permission is granted in the manifest.json.
  */
@@ -53,12 +72,47 @@ function checkStoragePermission(storageEnum: StorageEnum): void {
   }
 }
 
+/**
+ * Sync values are chunked, throttled and merged by {@link createSyncStorage}, which has no schema versions, expiry
+ * or custom serialization and no stamps to compare against.
+ */
+function createSyncBackedStorage<D>(key: string, fallback: D, config?: StorageConfig<D>): BaseStorage<D> {
+  const unsupported = (['version', 'migrations', 'eviction', 'serialization'] as const).filter(
+    option => config?.[option] !== undefined,
+  );
+  if (unsupported.length > 0) {
+    throw new Error(`Sync storage "${key}" does not support ${unsupported.join(', ')}`);
+  }
+
+  const storage = createSyncStorage(key, fallback, { backup: config?.backup, movedFrom: config?.movedFrom });
+
+  return {
+    key,
+    storageEnum: StorageEnum.Sync,
+    get: storage.get,
+    set: storage.set,
+    update: async updater => {
+      await storage.set(updater);
+      return storage.get();
+    },
+    getWithStamp: async () => ({ value: await storage.get(), stamp: null }),
+    compareAndSet: async () => {
+      throw new Error(`Sync storage "${key}" merges concurrent writes, use update instead of compareAndSet`);
+    },
+    getSnapshot: storage.getSnapshot,
+    subscribe: storage.subscribe,
+  };
+}
+
 /**
  * Creates a storage area for persisting and exchanging data.
  */
 export function createStorage<D = string>(key: string, fallback: D, config?: StorageConfig<D>): BaseStorage<D> {
+  if (config?.storageEnum === StorageEnum.Sync) {
+    return createSyncBackedStorage(key, fallback, config);
+  }
+
   let cache: D | null = null;
-  let initedCache = false;
   let listeners: Array<() => void> = [];
 
   const storageEnum = config?.storageEnum ?? StorageEnum.Local;
@@ -67,6 +121,20 @@ export function createStorage<D = string>(key: string, fallback: D, config?: Sto
   const serialize = config?.serialization?.serialize ?? ((v: D) => v);
   const deserialize = config?.serialization?.deserialize ?? (v => v as D);
 
+  const version = config?.version;
+  const migrations = config?.migrations ?? [];
+  const versionKey = `${key}${VERSION_KEY_SUFFIX}`;
+  let migration: Promise<void> | null = null;
+
+  const ttl = config?.eviction?.ttl;
+  const maxEntries = config?.eviction?.maxEntries;
+  const entriesKey = config?.eviction?.entries;
+  const expiresKey = `${key}${EXPIRES_KEY_SUFFIX}`;
+
+  if (version !== undefined && migrations.length < version) {
+    throw new Error(`Storage "${key}" is at version ${version} but only ${migrations.length} migrations are defined`);
+  }
+
   // Set global session storage access level for StoryType.Session, only when not already done but needed.
   if (
     globalSessionAccessLevelFlag === false &&
@@ -85,30 +153,180 @@ export function createStorage<D = string>(key: string, fallback: D, config?: Sto
     globalSessionAccessLevelFlag = true;
   }
 
+  /**
+   * Upgrades a raw value from the given version to the configured one.
+   */
+  const runMigrations = async (value: unknown, from: number): Promise<unknown> => {
+    let migrated = value;
+    for (let current = from; current < (version ?? 0); current++) {
+      migrated = await migrations[current](migrated);
+    }
+
+    return migrated;
+  };
+
+  /**
+   * Brings the persisted value up to the configured version. Runs at most once per context; a failed run is retried
+   * on the next call.
+   */
+  const migrate = (): Promise<void> => {
+    if (version === undefined || !chrome) {
+      return Promise.resolve();
+    }
+
+    migration ??= (async () => {
+      const stored = await chrome.storage[storageEnum].get([key, versionKey]);
+      // Nothing persisted yet, so there is nothing to upgrade
+      if (stored[key] === undefined) return;
+
+      const storedVersion: number = stored[versionKey] ?? 0;
+      if (storedVersion > version) {
+        console.warn(`Storage "${key}" has version ${storedVersion}, newer than ${version}. Skipping migrations.`);
+        return;
+      }
+      if (storedVersion === version) return;
+
+      const value = await runMigrations(stored[key], storedVersion);
+
+      await chrome.storage[storageEnum].set({ [key]: value, [versionKey]: version });
+    })().catch(error => {
+      migration = null;
+      throw error;
+    });
+
+    return migration;
+  };
+
+  const stampKey = `${key}${STAMP_KEY_SUFFIX}`;
+  const allKeys = [key, versionKey, stampKey, expiresKey];
+
+  const _emitChange = () => {
+    listeners.forEach(listener => listener());
+  };
+
+  const exportRaw = async (): Promise<RawStorageValue> => {
+    checkStoragePermission(storageEnum);
+    await migrate();
+    const stored = await chrome?.storage[storageEnum].get([key, versionKey, expiresKey]);
+
+    if (isExpired(stored?.[expiresKey])) {
+      return { value: undefined };
+    }
+
+    return { value: stored?.[key], version: stored?.[versionKey], expiresAt: stored?.[expiresKey] };
+  };
+
+  const importRaw = async ({ value, version: rawVersion = 0, expiresAt }: RawStorageValue) => {
+    checkStoragePermission(storageEnum);
+
+    if (rawVersion > (version ?? 0)) {
+      throw new Error(`Storage "${key}" is at version ${version ?? 0}, it cannot read version ${rawVersion}`);
+    }
+    if (value === undefined || (ttl !== undefined && isExpired(expiresAt))) {
+      await chrome?.storage[storageEnum].remove(allKeys);
+      entry.commit(fallback);
+      return;
+    }
+
+    const migrated = await runMigrations(value, rawVersion);
+    await chrome?.storage[storageEnum].set({
+      [key]: migrated,
+      ...(version !== undefined && { [versionKey]: version }),
+      // Restoring keeps the expiry of the backup, values from backups without one get a fresh time to live
+      ...(ttl !== undefined && { [expiresKey]: expiresAt ?? Date.now() + ttl }),
+      [stampKey]: createStamp(),
+    });
+    entry.commit(entry.decode(migrated));
+  };
+
+  const purgeExpired = async () => {
+    if (ttl === undefined || !chrome) {
+      return false;
+    }
+    checkStoragePermission(storageEnum);
+
+    return removeEntryIf(entry, allKeys, items => isExpired(items[expiresKey]));
+  };
+
+  const entry: StorageEntry<D> = {
+    key,
+    storageEnum,
+    version,
+    backup: config?.backup ?? (storageEnum !== StorageEnum.Session && storageEnum !== StorageEnum.Managed),
+    exportRaw,
+    importRaw,
+    purgeExpired,
+    stampKey,
+    readKeys: ttl !== undefined ? [key, expiresKey] : [key],
+    migrate,
+    decode: raw => deserialize(raw as string) ?? fallback,
+    read: items => (isExpired(items[expiresKey]) ? fallback : entry.decode(items[key])),
+    evict: (next, prev) => {
+      if (maxEntries === undefined) return next;
+      if (entriesKey === undefined) return evictEntries(next, prev, maxEntries);
+
+      return { ...next, [entriesKey]: evictEntries(next[entriesKey], prev?.[entriesKey], maxEntries) };
+    },
+    encode: value => ({
+      [key]: serialize(value),
+      ...(version !== undefined && { [versionKey]: version }),
+      ...(ttl !== undefined && { [expiresKey]: Date.now() + ttl }),
+    }),
+    commit: value => {
+      cache = value;
+      _emitChange();
+    },
+  };
+
+  registerStorageEntry(entry);
+
   // Register life cycle methods
   const get = async (): Promise<D> => {
     checkStoragePermission(storageEnum);
-    const value = await chrome?.storage[storageEnum].get([key]);
+    await migrate();
+    const value = await chrome?.storage[storageEnum].get(entry.readKeys);
 
     if (!value) {
       return fallback;
     }
 
-    return deserialize(value[key]) ?? fallback;
+    return entry.read(value);
   };
 
-  const _emitChange = () => {
-    listeners.forEach(listener => listener());
+  const getWithStamp = async (): Promise<StampedValue<D>> => {
+    checkStoragePermission(storageEnum);
+    await migrate();
+    const value = await chrome?.storage[storageEnum].get([...entry.readKeys, stampKey]);
+
+    return { value: entry.read(value ?? {}), stamp: value?.[stampKey] ?? null };
   };
 
-  const set = async (valueOrUpdate: ValueOrUpdate<D>) => {
-    if (!initedCache) {
-      cache = await get();
+  const update = async (updater: (prev: D) => D | Promise<D>): Promise<D> => {
+    checkStoragePermission(storageEnum);
+
+    if (!chrome) {
+      const prev = cache ?? fallback;
+      const value = entry.evict(await updater(prev), prev);
+      entry.commit(value);
+      return value;
     }
-    cache = await updateCache(valueOrUpdate, cache);
 
-    await chrome?.storage[storageEnum].set({ [key]: serialize(cache) });
-    _emitChange();
+    const [value] = await updateAtomically<[D]>([entry], async ([prev]) => [await updater(prev)]);
+
+    return value;
+  };
+
+  const compareAndSet = async (stamp: string | null, value: D): Promise<boolean> => {
+    checkStoragePermission(storageEnum);
+    await migrate();
+
+    return compareAndSetEntry(entry, stamp, value);
+  };
+
+  const set = async (valueOrUpdate: ValueOrUpdate<D>) => {
+    await update(
+      typeof valueOrUpdate === 'function' ? (valueOrUpdate as (prev: D) => D | Promise<D>) : () => valueOrUpdate,
+    );
   };
 
   const subscribe = (listener: () => void) => {
@@ -123,11 +341,13 @@ export function createStorage<D = string>(key: string, fallback: D, config?: Sto
     return cache;
   };
 
-  get().then(data => {
-    cache = data;
-    initedCache = true;
-    _emitChange();
-  });
+  get()
+    .then(data => {
+      cache = data;
+      _emitChange();
+    })
+    // E.g. the session storage in content scripts, which may not read it
+    .catch(error => console.debug(`Loading storage "${key}" failed`, error));
 
   // Listener for live updates from the browser
   async function _updateFromStorageOnChanged(changes: { [key: string]: chrome.storage.StorageChange }) {
@@ -145,12 +365,26 @@ export function createStorage<D = string>(key: string, fallback: D, config?: Sto
 
   // Register listener for live updates for our storage area
   if (liveUpdate) {
-    chrome?.storage[storageEnum].onChanged.addListener(_updateFromStorageOnChanged);
+    chrome?.storage[storageEnum]?.onChanged.addListener(_updateFromStorageOnChanged);
+  }
+
+  // Migrate eagerly after an extension update. Only available in extension contexts, not in content scripts.
+  if (version !== undefined) {
+    chrome?.runtime?.onInstalled?.addListener(({ reason }) => {
+      if (reason === chrome.runtime.OnInstalledReason.UPDATE) {
+        migrate().catch(error => console.error(`Migration of storage "${key}" failed`, error));
+      }
+    });
   }
 
   return {
+    key,
+    storageEnum,
     get,
     set,
+    update,
+    getWithStamp,
+    compareAndSet,
     getSnapshot,
     subscribe,
   };
@@ -0,0 +1,47 @@
+const chrome = globalThis.chrome;
+
+/**
+ * Content scripts share the storage API with the extension, but IndexedDB and the locks belong to the host page.
+ */
+export const isExtensionContext = () =>
+  !!chrome?.runtime?.id && globalThis.location?.origin === new URL(chrome.runtime.getURL('')).origin;
+
+/**
+ * Names the context running this code: `background`, `content-script` or the page directory of an extension page,
+ * e.g. `popup` or `devtools-panel`.
+ */
+export const getExtensionContext = (): string => {
+  if (!chrome?.runtime?.id) {
+    return 'unknown';
+  }
+  // The service worker has no DOM
+  if (typeof document === 'undefined') {
+    return 'background';
+  }
+  if (!isExtensionContext()) {
+    return 'content-script';
+  }
+
+  return globalThis.location.pathname.split('/').filter(Boolean)[0] ?? 'unknown';
+};
+
+/**
+ * Suffix of the sibling key which holds the write stamp used for optimistic concurrency.
+ */
+export const STAMP_KEY_SUFFIX = '__stamp';
+
+/**
+ * Write stamps are prefixed with the context which wrote them, so tools can tell who changed a value.
+ */
+export const createStamp = () => `${getExtensionContext()}:${crypto.randomUUID()}`;
+
+/**
+ * Returns the context which wrote a stamp created by {@link createStamp}.
+ */
+export const getStampContext = (stamp: unknown): string | null => {
+  if (typeof stamp !== 'string' || !stamp.includes(':')) {
+    return null;
+  }
+
+  return stamp.slice(0, stamp.lastIndexOf(':'));
+};
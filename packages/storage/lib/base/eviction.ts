@@ -0,0 +1,46 @@
+import { getRegisteredStorages } from './registry.js';
+
+/**
+ * Suffix of the sibling key which holds the expiry time of a storage with a time to live.
+ */
+export const EXPIRES_KEY_SUFFIX = '__expires';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isExpired = (expiresAt: unknown, now = Date.now()) => typeof expiresAt === 'number' && expiresAt <= now;
+
+/**
+ * Keeps the `maxEntries` most recently written entries of an array or object value. Object keys are reordered so the
+ * ones written last come last, which makes the persisted key order the recency order for the next write.
+ */
+export const evictEntries = <D>(next: D, prev: D | undefined, maxEntries: number): D => {
+  if (Array.isArray(next)) {
+    return (next.length > maxEntries ? next.slice(-maxEntries) : next) as D;
+  }
+  if (!isPlainObject(next)) {
+    return next;
+  }
+
+  const previous: Record<string, unknown> = isPlainObject(prev) ? prev : {};
+  const isUnchanged = ([key, value]: [string, unknown]) =>
+    key in previous && JSON.stringify(previous[key]) === JSON.stringify(value);
+  const entries = Object.entries(next);
+  const ordered = [...entries.filter(isUnchanged), ...entries.filter(entry => !isUnchanged(entry))];
+
+  return Object.fromEntries(ordered.slice(-maxEntries)) as D;
+};
+
+/**
+ * Removes the expired values of all storages registered in the current context. Resolves with the number of removed
+ * values.
+ */
+export const purgeExpiredStorages = async (): Promise<number> => {
+  const results = await Promise.allSettled(getRegisteredStorages().map(storage => storage.purgeExpired()));
+
+  results
+    .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+    .forEach(({ reason }) => console.error('Purging an expired storage failed', reason));
+
+  return results.filter(result => result.status === 'fulfilled' && result.value).length;
+};
@@ -1,3 +1,7 @@
 export * from './base.js';
 export * from './enums.js';
 export * from './types.js';
+export * from './transaction.js';
+export * from './registry.js';
+export * from './context.js';
+export * from './eviction.js';
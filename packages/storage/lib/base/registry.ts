@@ -0,0 +1,131 @@
+import type { BaseStorage } from './types.js';
+import type { StorageEnum } from './enums.js';
+
+/**
+ * A persisted value as it is stored, before deserialization, together with its schema version and expiry.
+ */
+export type RawStorageValue = {
+  value: unknown;
+  version?: number;
+  /**
+   * When the value expires, for storages with a time to live.
+   */
+  expiresAt?: number;
+};
+
+/**
+ * A storage as seen by tooling like backups and the devtools inspector.
+ */
+export type RegisteredStorage = {
+  key: string;
+  storageEnum: StorageEnum;
+  version?: number;
+  /**
+   * Area the storage kept its value in before, so backups made back then still restore into it.
+   */
+  movedFrom?: StorageEnum;
+  /**
+   * Whether the storage is part of backups.
+   */
+  backup: boolean;
+  exportRaw: () => Promise<RawStorageValue>;
+  /**
+   * Writes a raw value, migrating it first if it comes from an older schema version. Rejects values from a newer
+   * schema version, which this version cannot read. An `undefined` value removes the key.
+   */
+  importRaw: (raw: RawStorageValue) => Promise<void>;
+  /**
+   * Removes the value if its time to live has passed. Resolves with `true` if something was removed.
+   */
+  purgeExpired: () => Promise<boolean>;
+};
+
+/**
+ * A collection created with `createCollectionStorage`, as seen by tooling like backups.
+ */
+export type RegisteredCollection = {
+  name: string;
+  backup: boolean;
+  getAll: () => Promise<unknown[]>;
+  /**
+   * Replaces all records of the collection.
+   */
+  replaceAll: (records: unknown[]) => Promise<void>;
+};
+
+/**
+ * Internal view on a storage which lets several of them be read and written in one storage call.
+ */
+export type StorageEntry<D> = RegisteredStorage & {
+  /**
+   * Sibling key holding a random stamp which changes on every write, used to detect concurrent writers.
+   */
+  stampKey: string;
+  /**
+   * Keys to fetch for {@link StorageEntry.read}: the value and its expiry, if any.
+   */
+  readKeys: string[];
+  migrate: () => Promise<void>;
+  /**
+   * Converts the raw persisted value into the typed value, applying the fallback.
+   */
+  decode: (raw: unknown) => D;
+  /**
+   * Decodes the value from fetched items, returning the fallback once the value expired.
+   */
+  read: (items: Record<string, unknown>) => D;
+  /**
+   * Applies the `maxEntries` limit to a value about to be written.
+   */
+  evict: (next: D, prev?: D) => D;
+  /**
+   * Converts the typed value into the items to persist, without the stamp.
+   */
+  encode: (value: D) => Record<string, unknown>;
+  /**
+   * Updates the in-memory snapshot after a successful write.
+   */
+  commit: (value: D) => void;
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const storageEntries = new Map<string, StorageEntry<any>>();
+const registeredStorages = new Map<string, RegisteredStorage>();
+const collectionEntries = new Map<string, RegisteredCollection>();
+
+export const entryId = (storageEnum: StorageEnum, key: string) => `${storageEnum}:${key}`;
+
+export const registerStorageEntry = <D>(entry: StorageEntry<D>) => {
+  storageEntries.set(entryId(entry.storageEnum, entry.key), entry);
+  registeredStorages.set(entryId(entry.storageEnum, entry.key), entry);
+};
+
+/**
+ * Registers a storage which is not built on `createStorage`, so tooling still sees it. It cannot take part in
+ * transactions.
+ */
+export const registerStorage = (storage: RegisteredStorage) => {
+  registeredStorages.set(entryId(storage.storageEnum, storage.key), storage);
+};
+
+export const registerCollectionEntry = (entry: RegisteredCollection) => {
+  collectionEntries.set(entry.name, entry);
+};
+
+export const getStorageEntry = <D>(storage: BaseStorage<D>): StorageEntry<D> => {
+  const entry = storageEntries.get(entryId(storage.storageEnum, storage.key));
+
+  if (!entry) {
+    throw new Error(`Storage "${storage.key}" was not created with createStorage`);
+  }
+
+  return entry;
+};
+
+/**
+ * Lists every storage created in the current context. Storages defined in `@extension/storage` are always created
+ * on import; storages defined elsewhere only once their module was loaded.
+ */
+export const getRegisteredStorages = (): RegisteredStorage[] => Array.from(registeredStorages.values());
+
+export const getRegisteredCollections = (): RegisteredCollection[] => Array.from(collectionEntries.values());
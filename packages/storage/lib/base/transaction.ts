@@ -0,0 +1,150 @@
+import type { BaseStorage, StorageValues } from './types.js';
+import type { StorageEntry } from './registry.js';
+import { entryId, getStorageEntry } from './registry.js';
+import { createStamp } from './context.js';
+
+/**
+ * How often a conflicting update is retried before giving up.
+ */
+const MAX_ATTEMPTS = 5;
+
+const chrome = globalThis.chrome;
+
+/**
+ * Serializes the callback against other extension contexts holding the same locks. Locks are requested in a stable
+ * order to avoid deadlocks. Content scripts get the host page's lock manager, so there the stamp check is what
+ * protects against lost updates.
+ */
+const withLocks = async <R>(names: string[], callback: () => Promise<R>): Promise<R> => {
+  const locks = globalThis.navigator?.locks;
+
+  if (!locks || names.length === 0) {
+    return callback();
+  }
+
+  const [first, ...rest] = [...names].sort();
+
+  return locks.request(first, () => withLocks(rest, callback));
+};
+
+const lockName = (entry: Pick<StorageEntry<unknown>, 'key' | 'storageEnum'>) =>
+  `storage:${entryId(entry.storageEnum, entry.key)}`;
+
+const backoff = (attempt: number) => new Promise(resolve => setTimeout(resolve, Math.random() * 2 ** attempt * 10));
+
+/**
+ * Reads all entries, lets the updater compute their next values and writes them back in a single storage call.
+ * If another writer changed any of the entries in between, the update is retried with the fresh values.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const updateAtomically = async <V extends any[]>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  storageEntries: StorageEntry<any>[],
+  updater: (values: V) => V | Promise<V>,
+): Promise<V> => {
+  const { storageEnum } = storageEntries[0];
+
+  if (storageEntries.some(entry => entry.storageEnum !== storageEnum)) {
+    throw new Error('All storages of a transaction have to use the same storage area');
+  }
+
+  const area = chrome.storage[storageEnum];
+  const stampKeys = storageEntries.map(entry => entry.stampKey);
+
+  return withLocks(storageEntries.map(lockName), async () => {
+    await Promise.all(storageEntries.map(entry => entry.migrate()));
+
+    for (let attempt = 1; ; attempt++) {
+      const before = await area.get([...storageEntries.flatMap(entry => entry.readKeys), ...stampKeys]);
+      const prev = storageEntries.map(entry => entry.read(before));
+      const next = (await updater(prev as V)).map((value, index) =>
+        storageEntries[index].evict(value, prev[index]),
+      ) as V;
+      const current = await area.get(stampKeys);
+
+      if (stampKeys.every(stampKey => current[stampKey] === before[stampKey])) {
+        const stamp = createStamp();
+        const items = storageEntries.reduce<Record<string, unknown>>(
+          (acc, entry, index) => ({ ...acc, ...entry.encode(next[index]), [entry.stampKey]: stamp }),
+          {},
+        );
+
+        await area.set(items);
+        storageEntries.forEach((entry, index) => entry.commit(next[index]));
+
+        return next;
+      }
+
+      if (attempt === MAX_ATTEMPTS) {
+        throw new Error(
+          `Update of ${storageEntries.map(entry => `"${entry.key}"`).join(', ')} conflicted ${attempt} times`,
+        );
+      }
+
+      await backoff(attempt);
+    }
+  });
+};
+
+/**
+ * Writes the value only if the persisted stamp of the entry still equals the expected one.
+ */
+export const compareAndSetEntry = <D>(entry: StorageEntry<D>, expected: string | null, value: D): Promise<boolean> => {
+  const area = chrome.storage[entry.storageEnum];
+
+  return withLocks([lockName(entry)], async () => {
+    const current = await area.get([entry.stampKey]);
+
+    if ((current[entry.stampKey] ?? null) !== expected) {
+      return false;
+    }
+
+    const next = entry.evict(value);
+    await area.set({ ...entry.encode(next), [entry.stampKey]: createStamp() });
+    entry.commit(next);
+
+    return true;
+  });
+};
+
+/**
+ * Removes the keys of an entry if the predicate holds for its current items. The check runs while holding the lock of
+ * the entry, so a concurrent write is never lost.
+ */
+export const removeEntryIf = <D>(
+  entry: StorageEntry<D>,
+  keys: string[],
+  predicate: (items: Record<string, unknown>) => boolean,
+): Promise<boolean> => {
+  const area = chrome.storage[entry.storageEnum];
+
+  return withLocks([lockName(entry)], async () => {
+    if (!predicate(await area.get(entry.readKeys))) {
+      return false;
+    }
+
+    await area.remove(keys);
+    entry.commit(entry.read({}));
+
+    return true;
+  });
+};
+
+/**
+ * Updates several storages of the same storage area atomically: the updater receives their current values and its
+ * result is committed in one `chrome.storage.set` call, retried on conflicting writes from other contexts.
+ *
+ * @example
+ * await transaction([streakStorage, counterStorage], ([streak, counter]) => [streak + 1, counter + 1]);
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const transaction = <S extends BaseStorage<any>[]>(
+  storages: [...S],
+  updater: (values: StorageValues<S>) => StorageValues<S> | Promise<StorageValues<S>>,
+): Promise<StorageValues<S>> => {
+  if (storages.length === 0) {
+    return Promise.resolve([] as StorageValues<S>);
+  }
+
+  return updateAtomically(storages.map(getStorageEntry), updater);
+};
@@ -2,13 +2,79 @@ import type { StorageEnum } from './enums.js';
 
 export type ValueOrUpdate<D> = D | ((prev: D) => Promise<D> | D);
 
+export type StampedValue<D> = {
+  value: D;
+  /**
+   * Changes on every write. `null` if the value was never written.
+   */
+  stamp: string | null;
+};
+
 export type BaseStorage<D> = {
+  key: string;
+  storageEnum: StorageEnum;
   get: () => Promise<D>;
+  /**
+   * Writes a value. An update function is applied atomically, like {@link BaseStorage.update}. Plain values are
+   * written under the same lock and change the stamp too, so an update running meanwhile is retried on top of them
+   * instead of overwriting them.
+   */
   set: (value: ValueOrUpdate<D>) => Promise<void>;
+  /**
+   * Applies the updater to the latest persisted value and writes the result, retrying when another context wrote the
+   * value in the meantime. Resolves with the written value.
+   */
+  update: (updater: (prev: D) => D | Promise<D>) => Promise<D>;
+  getWithStamp: () => Promise<StampedValue<D>>;
+  /**
+   * Writes the value only if the persisted stamp still equals the given one. Resolves with `false` on conflict.
+   */
+  compareAndSet: (stamp: string | null, value: D) => Promise<boolean>;
   getSnapshot: () => D | null;
   subscribe: (listener: () => void) => () => void;
 };
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type StorageValues<S extends BaseStorage<any>[]> = {
+  [I in keyof S]: S[I] extends BaseStorage<infer D> ? D : never;
+};
+
+/**
+ * Upgrades a stored value by exactly one schema version. Receives the raw value as it is persisted in the storage
+ * area (before {@link StorageConfig.serialization} is applied) and returns the raw value for the next version.
+ */
+export type StorageMigration = (value: unknown) => unknown | Promise<unknown>;
+
+/**
+ * Read side of a storage. Enough to render it with `useStorage`.
+ */
+export type ObservableStorage<D> = Pick<BaseStorage<D>, 'get' | 'getSnapshot' | 'subscribe'>;
+
+/**
+ * Keeps values from growing without bound.
+ */
+export type EvictionConfig<D = unknown> = {
+  /**
+   * Milliseconds after the last write at which the value expires. Expired values read as the fallback and are removed
+   * by `purgeExpiredStorages`, which the quota watchdog runs regularly.
+   * @default undefined
+   */
+  ttl?: number;
+  /**
+   * Keeps at most this many entries of an array or object value, dropping the least recently written ones. Arrays keep
+   * their last items, objects the keys written last. Integer-like object keys are always ordered numerically by
+   * JavaScript, so they are evicted by key instead of by recency. Reads do not count as use, collections evict by
+   * read recency with their own eviction config.
+   * @default undefined
+   */
+  maxEntries?: number;
+  /**
+   * Property of an object value which holds the entries, when they are nested, e.g. `items` of `{ version, items }`.
+   * @default undefined, the value itself
+   */
+  entries?: D extends object ? keyof D & string : never;
+};
+
 export type StorageConfig<D = string> = {
   /**
    * Assign the {@link StorageEnum} to use.
@@ -42,4 +108,34 @@ export type StorageConfig<D = string> = {
      */
     deserialize: (text: string) => D;
   };
+  /**
+   * Schema version of the stored value. Bump it together with a new entry in {@link StorageConfig.migrations}
+   * whenever the shape of the value changes. Values persisted before versioning was enabled are treated as version 0.
+   * @default undefined
+   */
+  version?: number;
+  /**
+   * Ordered migrations, where `migrations[n]` upgrades a value from version `n` to version `n + 1`.
+   * They run once on the first `get()` after an upgrade and on `chrome.runtime.onInstalled` with reason `update`.
+   * The migrated value and its version are written in a single storage call.
+   * @default []
+   */
+  migrations?: StorageMigration[];
+  /**
+   * Include the value in backups. Session values are ephemeral and managed values are read-only, so both are
+   * excluded by default.
+   * @default true, except for {@link StorageEnum.Session} and {@link StorageEnum.Managed}
+   */
+  backup?: boolean;
+  /**
+   * Expiry and size limits for the value.
+   * @default undefined
+   */
+  eviction?: EvictionConfig<D>;
+  /**
+   * Area the value was kept in before, for a storage moved to {@link StorageEnum.Sync}. The old value is adopted
+   * when sync holds none yet, and removed from the old area once it is written to sync.
+   * @default undefined
+   */
+  movedFrom?: StorageEnum;
 };
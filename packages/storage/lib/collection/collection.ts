@@ -0,0 +1,275 @@
+import { isExtensionContext, registerCollectionEntry } from '../base/index.js';
+import type { CollectionChange, CollectionConfig, CollectionCursorOptions, CollectionStorage } from './types.js';
+
+/**
+ * Wraps a single IndexedDB request into a promise.
+ */
+const promisifyRequest = <R>(request: IDBRequest<R>): Promise<R> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Resolves once all requests of a transaction are committed.
+ */
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+
+/**
+ * Creates an IndexedDB-backed collection for data sets too large for a single chrome.storage key.
+ * Each collection lives in its own database named after the collection.
+ *
+ * IndexedDB is bound to the origin of the calling context: content scripts see the host page's databases,
+ * so only use collections from extension pages and the background script.
+ */
+export function createCollectionStorage<T>(name: string, config: CollectionConfig<T>): CollectionStorage<T> {
+  let cache: T[] | null = null;
+  let listeners: Array<() => void> = [];
+  let database: Promise<IDBDatabase> | null = null;
+
+  const { keyPath } = config;
+  const indexes = config.indexes ?? [];
+  const version = config.version ?? 1;
+  const liveUpdate = config.liveUpdate ?? false;
+
+  // Outside the extension, e.g. when a build tool imports the package, an open channel would keep Node running
+  const channel =
+    liveUpdate && typeof BroadcastChannel !== 'undefined' && isExtensionContext()
+      ? new BroadcastChannel(`collection:${name}`)
+      : null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, version);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const store = db.objectStoreNames.contains(name)
+          ? request.transaction!.objectStore(name)
+          : db.createObjectStore(name, { keyPath });
+
+        Array.from(store.indexNames)
+          .filter(indexName => !indexes.some(index => index.name === indexName))
+          .forEach(indexName => store.deleteIndex(indexName));
+
+        indexes
+          .filter(index => !store.indexNames.contains(index.name))
+          .forEach(({ name: indexName, keyPath: indexKeyPath, unique, multiEntry }) =>
+            store.createIndex(indexName, indexKeyPath, { unique, multiEntry }),
+          );
+      };
+      request.onblocked = () => console.warn(`Upgrade of collection "${name}" is blocked by another open page`);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version of the extension upgrade the database, we reconnect lazily
+        db.onversionchange = () => {
+          db.close();
+          database = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        database = null;
+        reject(request.error);
+      };
+    });
+
+    return database;
+  };
+
+  const getStore = async (mode: IDBTransactionMode) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(name, mode);
+
+    return { store: transaction.objectStore(name), done: transactionDone(transaction) };
+  };
+
+  const _emitChange = () => {
+    listeners.forEach(listener => listener());
+  };
+
+  /**
+   * Applies a change to the cached snapshot, keeping primary key order like `getAll` does.
+   */
+  const _applyChange = (change: CollectionChange<T>) => {
+    if (cache === null) return;
+
+    const keyOf = (record: T) => record[keyPath] as IDBValidKey;
+
+    if (change.type === 'clear') {
+      cache = [];
+    } else if (change.type === 'replace') {
+      cache = [...change.records].sort((a, b) => indexedDB.cmp(keyOf(a), keyOf(b)));
+    } else if (change.type === 'delete') {
+      cache = cache.filter(record => !change.keys.some(key => indexedDB.cmp(key, keyOf(record)) === 0));
+    } else {
+      const byKey = new Map(cache.map(record => [JSON.stringify(keyOf(record)), record]));
+      change.records.forEach(record => byKey.set(JSON.stringify(keyOf(record)), record));
+      cache = Array.from(byKey.values()).sort((a, b) => indexedDB.cmp(keyOf(a), keyOf(b)));
+    }
+
+    _emitChange();
+  };
+
+  const _commitChange = (change: CollectionChange<T>) => {
+    _applyChange(change);
+    channel?.postMessage(change);
+  };
+
+  const get = async (): Promise<T[]> => {
+    const { store } = await getStore('readonly');
+    const records = await promisifyRequest(store.getAll() as IDBRequest<T[]>);
+
+    cache = records;
+    _emitChange();
+
+    return records;
+  };
+
+  const getByKey = async (key: IDBValidKey): Promise<T | undefined> => {
+    const { store } = await getStore('readonly');
+
+    return promisifyRequest(store.get(key) as IDBRequest<T | undefined>);
+  };
+
+  const query = async (index: string, range?: IDBValidKey | IDBKeyRange, count?: number): Promise<T[]> => {
+    const { store } = await getStore('readonly');
+
+    return promisifyRequest(store.index(index).getAll(range, count) as IDBRequest<T[]>);
+  };
+
+  const count = async (index?: string, range?: IDBValidKey | IDBKeyRange): Promise<number> => {
+    const { store } = await getStore('readonly');
+
+    return promisifyRequest(index ? store.index(index).count(range) : store.count(range));
+  };
+
+  const iterate = async (visitor: (record: T) => boolean | void, options?: CollectionCursorOptions) => {
+    const { store, done } = await getStore('readonly');
+    const source = options?.index ? store.index(options.index) : store;
+    const request = source.openCursor(options?.query, options?.direction);
+
+    await new Promise<void>((resolve, reject) => {
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        if (visitor(cursor.value as T) === false) {
+          resolve();
+          return;
+        }
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+    await done;
+  };
+
+  /**
+   * Deletes the records beyond {@link CollectionConfig.eviction} in the transaction of a write. Resolves with their keys.
+   */
+  const evict = async (store: IDBObjectStore): Promise<IDBValidKey[]> => {
+    if (!config.eviction) return [];
+
+    const { maxEntries, index } = config.eviction;
+    const excess = (await promisifyRequest(store.count())) - maxEntries;
+    if (excess <= 0) return [];
+
+    const keys = await promisifyRequest(store.index(index).getAllKeys(null, excess));
+    keys.forEach(key => store.delete(key));
+
+    return keys;
+  };
+
+  const putMany = async (records: T[]) => {
+    const { store, done } = await getStore('readwrite');
+    records.forEach(record => store.put(record));
+    const evicted = await evict(store);
+    await done;
+
+    _commitChange({ type: 'put', records });
+    if (evicted.length > 0) {
+      _commitChange({ type: 'delete', keys: evicted });
+    }
+  };
+
+  const put = (record: T) => putMany([record]);
+
+  const deleteMany = async (keys: IDBValidKey[]) => {
+    const { store, done } = await getStore('readwrite');
+    keys.forEach(k => store.delete(k));
+    await done;
+
+    _commitChange({ type: 'delete', keys });
+  };
+
+  const deleteOne = (key: IDBValidKey) => deleteMany([key]);
+
+  const clear = async () => {
+    const { store, done } = await getStore('readwrite');
+    store.clear();
+    await done;
+
+    _commitChange({ type: 'clear' });
+  };
+
+  const replaceAll = async (records: T[]) => {
+    const { store, done } = await getStore('readwrite');
+    store.clear();
+    records.forEach(record => store.put(record));
+    await done;
+
+    _commitChange({ type: 'replace', records });
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners = [...listeners, listener];
+
+    // Collections can be large, so the snapshot is only loaded once somebody watches it
+    if (cache === null) {
+      get().catch(error => console.error(`Loading collection "${name}" failed`, error));
+    }
+
+    return () => {
+      listeners = listeners.filter(l => l !== listener);
+    };
+  };
+
+  const getSnapshot = () => {
+    return cache;
+  };
+
+  registerCollectionEntry({
+    name,
+    backup: config.backup ?? true,
+    getAll: get,
+    replaceAll: records => replaceAll(records as T[]),
+  });
+
+  // Listener for changes made by other extension pages
+  if (channel) {
+    channel.onmessage = ({ data }: MessageEvent<CollectionChange<T>>) => _applyChange(data);
+  }
+
+  return {
+    get,
+    getSnapshot,
+    subscribe,
+    getByKey,
+    query,
+    count,
+    iterate,
+    put,
+    putMany,
+    delete: deleteOne,
+    deleteMany,
+    clear,
+  };
+}
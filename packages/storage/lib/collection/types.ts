@@ -0,0 +1,92 @@
+import type { ObservableStorage } from '../base/index.js';
+
+export type CollectionQuery = IDBValidKey | IDBKeyRange;
+
+export type CollectionIndex<T> = {
+  name: string;
+  keyPath: (keyof T & string) | (keyof T & string)[];
+  unique?: boolean;
+  /**
+   * Index every element of an array value separately, e.g. for tags.
+   * @default false
+   */
+  multiEntry?: boolean;
+};
+
+export type CollectionCursorOptions = {
+  /**
+   * Walk an index instead of the primary key.
+   */
+  index?: string;
+  query?: CollectionQuery;
+  direction?: IDBCursorDirection;
+};
+
+export type CollectionConfig<T> = {
+  /**
+   * Property of a record which holds its primary key.
+   */
+  keyPath: keyof T & string;
+  /**
+   * Secondary indexes for {@link CollectionStorage.query}. Bump {@link CollectionConfig.version} when changing them.
+   * @default []
+   */
+  indexes?: CollectionIndex<T>[];
+  /**
+   * Version of the underlying IndexedDB database. Indexes are created or dropped when it increases.
+   * @default 1
+   */
+  version?: number;
+  /**
+   * Keeps the snapshot in sync between all extension pages which opened the same collection.
+   * @default false
+   */
+  liveUpdate?: boolean;
+  /**
+   * Include the records in backups.
+   * @default true
+   */
+  backup?: boolean;
+  /**
+   * Keeps the collection from growing without bound.
+   * @default undefined
+   */
+  eviction?: CollectionEvictionConfig;
+};
+
+export type CollectionEvictionConfig = {
+  /**
+   * Keeps at most this many records. Writes beyond it drop the records lowest in {@link index}.
+   */
+  maxEntries: number;
+  /**
+   * Index ranking the records, e.g. on a time of last use, which makes the eviction least recently used. Records
+   * without a value for it are not evicted.
+   */
+  index: string;
+};
+
+/**
+ * A keyed collection of records. Reading the whole collection goes through the same `get`/`getSnapshot`/`subscribe`
+ * contract as {@link BaseStorage}, so it can be rendered with `useStorage`.
+ */
+export type CollectionStorage<T> = ObservableStorage<T[]> & {
+  getByKey: (key: IDBValidKey) => Promise<T | undefined>;
+  query: (index: string, query?: CollectionQuery, count?: number) => Promise<T[]>;
+  count: (index?: string, query?: CollectionQuery) => Promise<number>;
+  /**
+   * Visits records one by one without loading the whole collection. Return `false` from the visitor to stop early.
+   */
+  iterate: (visitor: (record: T) => boolean | void, options?: CollectionCursorOptions) => Promise<void>;
+  put: (record: T) => Promise<void>;
+  putMany: (records: T[]) => Promise<void>;
+  delete: (key: IDBValidKey) => Promise<void>;
+  deleteMany: (keys: IDBValidKey[]) => Promise<void>;
+  clear: () => Promise<void>;
+};
+
+export type CollectionChange<T> =
+  | { type: 'put'; records: T[] }
+  | { type: 'delete'; keys: IDBValidKey[] }
+  | { type: 'replace'; records: T[] }
+  | { type: 'clear' };
@@ -0,0 +1,62 @@
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const toBase64 = (buffer: ArrayBuffer | Uint8Array): string => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = '';
+  // Not spreading into String.fromCharCode, which overflows the call stack for large values
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+
+  return btoa(binary);
+};
+
+export const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+/**
+ * Derives 256 bits of AES key material from a passphrase.
+ */
+export const deriveKeyBits = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+
+  return crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 256);
+};
+
+export const importAesKey = (raw: Uint8Array<ArrayBuffer> | ArrayBuffer) =>
+  crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+
+export const generateAesKey = () =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+/**
+ * Encrypts the text with AES-GCM. The additional data is authenticated but not encrypted, binding the ciphertext to
+ * its storage key.
+ */
+export const encryptText = async (key: CryptoKey, text: string, additionalData: string) => {
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(additionalData) },
+    key,
+    encoder.encode(text),
+  );
+
+  return { iv: toBase64(iv), data: toBase64(data) };
+};
+
+/**
+ * Reverses {@link encryptText}. Rejects if the key is wrong or the ciphertext was tampered with.
+ */
+export const decryptText = async (
+  key: CryptoKey,
+  { iv, data }: { iv: string; data: string },
+  additionalData: string,
+) => {
+  const text = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv), additionalData: encoder.encode(additionalData) },
+    key,
+    fromBase64(data),
+  );
+
+  return decoder.decode(text);
+};
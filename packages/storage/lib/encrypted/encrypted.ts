@@ -0,0 +1,297 @@
+import type { ObservableStorage, ValueOrUpdate } from '../base/index.js';
+import { createStorage, isExtensionContext, StorageEnum } from '../base/index.js';
+import { createCollectionStorage } from '../collection/index.js';
+import {
+  decryptText,
+  deriveKeyBits,
+  encryptText,
+  fromBase64,
+  generateAesKey,
+  importAesKey,
+  randomBytes,
+  toBase64,
+} from './crypto.js';
+import type { EncryptedEnvelope, EncryptedStorage, EncryptedStorageConfig, LockState } from './types.js';
+
+/**
+ * OWASP recommendation for PBKDF2-HMAC-SHA256.
+ */
+const DEFAULT_ITERATIONS = 600_000;
+
+/**
+ * Device keys and unlocked passphrase keys are non-extractable, so they cannot be serialized into chrome.storage.
+ * IndexedDB persists CryptoKey objects as they are. Passphrase keys are saved with the token of their unlock.
+ */
+const deviceKeys = createCollectionStorage<{ id: string; key: CryptoKey; token?: string }>('encryption-keys', {
+  keyPath: 'id',
+  // Keys never leave the device
+  backup: false,
+});
+
+const withKeyLock = <R>(id: string, callback: () => Promise<R>): Promise<R> =>
+  navigator.locks.request(`encryption-key:${id}`, callback);
+
+/**
+ * Loads the device key of a storage, generating it on first use. The lock keeps two contexts from generating
+ * different keys at the same time.
+ */
+const loadDeviceKey = (id: string): Promise<CryptoKey> =>
+  withKeyLock(id, async () => {
+    const existing = await deviceKeys.getByKey(id);
+    if (existing) return existing.key;
+
+    const key = await generateAesKey();
+    await deviceKeys.put({ id, key });
+
+    return key;
+  });
+
+/**
+ * Creates a storage whose value is encrypted with AES-GCM before it is persisted to the local storage area.
+ */
+export function createEncryptedStorage<D>(
+  key: string,
+  fallback: D,
+  config?: EncryptedStorageConfig,
+): EncryptedStorage<D> {
+  let cache: D | null = null;
+  let cryptoKey: CryptoKey | null = null;
+  let currentLockState: LockState | null = null;
+  let listeners: Array<() => void> = [];
+  let lockListeners: Array<() => void> = [];
+
+  const keySource = config?.keySource ?? 'device';
+  const available = isExtensionContext();
+
+  const envelopeStorage = createStorage<EncryptedEnvelope | null>(key, null, {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+    // Values encrypted with a device key cannot be decrypted on another device
+    backup: keySource === 'passphrase',
+  });
+
+  // Holds a random token while unlocked, which the passphrase key in IndexedDB is saved with. The token is no
+  // secret, the key never leaves IndexedDB. The session area is cleared when the browser closes, which locks again.
+  const passphraseKeyId = `${key}__passphrase`;
+  const unlockTokenStorage =
+    keySource === 'passphrase' && available
+      ? createStorage<string | null>(`${key}__unlock-token`, null, {
+          storageEnum: StorageEnum.Session,
+          liveUpdate: true,
+        })
+      : null;
+
+  const _emitChange = () => {
+    listeners.forEach(listener => listener());
+  };
+
+  const requireKey = (): CryptoKey => {
+    if (!cryptoKey) {
+      throw new Error(`Encrypted storage "${key}" is locked`);
+    }
+
+    return cryptoKey;
+  };
+
+  const decryptEnvelope = async (envelope: EncryptedEnvelope | null): Promise<D> => {
+    if (!envelope) {
+      return fallback;
+    }
+
+    return JSON.parse(await decryptText(requireKey(), envelope, key));
+  };
+
+  const encryptValue = async (value: D, previous: EncryptedEnvelope | null): Promise<EncryptedEnvelope> => ({
+    ...(previous?.salt && { salt: previous.salt, iterations: previous.iterations }),
+    ...(await encryptText(requireKey(), JSON.stringify(value), key)),
+  });
+
+  const refresh = async () => {
+    try {
+      cache = cryptoKey ? await decryptEnvelope(await envelopeStorage.get()) : null;
+    } catch (error) {
+      console.error(`Decrypting storage "${key}" failed`, error);
+      cache = null;
+    }
+
+    _emitChange();
+  };
+
+  const applyKey = async (next: CryptoKey | null) => {
+    cryptoKey = next;
+    currentLockState = next ? 'unlocked' : 'locked';
+    lockListeners.forEach(listener => listener());
+
+    await refresh();
+  };
+
+  /**
+   * Loads the passphrase key of the current unlock. A key without a matching token is left from an earlier browser
+   * session and removed.
+   */
+  const loadPassphraseKey = () =>
+    withKeyLock(passphraseKeyId, async () => {
+      const token = await unlockTokenStorage!.get();
+      const saved = await deviceKeys.getByKey(passphraseKeyId);
+
+      if (saved && token && saved.token === token) return saved.key;
+      if (saved && !token) await deviceKeys.delete(passphraseKeyId);
+
+      return null;
+    });
+
+  const loadInitialKey = async (): Promise<CryptoKey | null> => {
+    if (!available) {
+      return null;
+    }
+
+    return keySource === 'device' ? loadDeviceKey(key) : loadPassphraseKey();
+  };
+
+  const ready = loadInitialKey()
+    .catch(error => {
+      console.error(`Loading the key of storage "${key}" failed`, error);
+      return null;
+    })
+    .then(applyKey);
+
+  const get = async (): Promise<D | null> => {
+    await ready;
+
+    return cryptoKey ? decryptEnvelope(await envelopeStorage.get()) : null;
+  };
+
+  const set = async (valueOrUpdate: ValueOrUpdate<D>) => {
+    requireKey();
+
+    let written = fallback;
+    await envelopeStorage.update(async envelope => {
+      const prev = await decryptEnvelope(envelope);
+      written =
+        typeof valueOrUpdate === 'function'
+          ? await (valueOrUpdate as (prev: D) => D | Promise<D>)(prev)
+          : valueOrUpdate;
+
+      return encryptValue(written, envelope);
+    });
+
+    cache = written;
+    _emitChange();
+  };
+
+  const isInitialized = async () => (await envelopeStorage.get()) !== null;
+
+  const unlock = async (passphrase?: string) => {
+    if (!available) {
+      throw new Error(`Encrypted storage "${key}" is only available in extension pages and the background script`);
+    }
+
+    if (keySource === 'device') {
+      await applyKey(await loadDeviceKey(key));
+      return;
+    }
+
+    if (!passphrase) {
+      throw new Error('A passphrase is required to unlock');
+    }
+
+    const envelope = await envelopeStorage.get();
+    const salt = envelope?.salt ? fromBase64(envelope.salt) : randomBytes(16);
+    const iterations = envelope?.iterations ?? config?.iterations ?? DEFAULT_ITERATIONS;
+    const candidate = await importAesKey(await deriveKeyBits(passphrase, salt, iterations));
+
+    if (envelope) {
+      await decryptText(candidate, envelope, key).catch(() => {
+        throw new Error('Wrong passphrase');
+      });
+    } else {
+      // The first unlock sets the passphrase, so persist the salt together with an encrypted fallback
+      await envelopeStorage.set({
+        salt: toBase64(salt),
+        iterations,
+        ...(await encryptText(candidate, JSON.stringify(fallback), key)),
+      });
+    }
+
+    // Other contexts unlock through the live update of the token
+    const token = toBase64(randomBytes(16));
+    await withKeyLock(passphraseKeyId, async () => {
+      await deviceKeys.put({ id: passphraseKeyId, key: candidate, token });
+      await unlockTokenStorage!.set(token);
+    });
+    await applyKey(candidate);
+  };
+
+  const lock = async () => {
+    if (unlockTokenStorage) {
+      await withKeyLock(passphraseKeyId, async () => {
+        await unlockTokenStorage.set(null);
+        await deviceKeys.delete(passphraseKeyId);
+      });
+    }
+    await applyKey(null);
+  };
+
+  const clear = async () => {
+    await envelopeStorage.set(null);
+
+    if (keySource === 'passphrase') {
+      await lock();
+    }
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners = [...listeners, listener];
+
+    return () => {
+      listeners = listeners.filter(l => l !== listener);
+    };
+  };
+
+  const getSnapshot = () => {
+    return cache;
+  };
+
+  const lockState: ObservableStorage<LockState> = {
+    get: async () => {
+      await ready;
+      return cryptoKey ? 'unlocked' : 'locked';
+    },
+    getSnapshot: () => currentLockState,
+    subscribe: listener => {
+      lockListeners = [...lockListeners, listener];
+
+      return () => {
+        lockListeners = lockListeners.filter(l => l !== listener);
+      };
+    },
+  };
+
+  // Values written by other contexts
+  envelopeStorage.subscribe(() => {
+    if (cryptoKey) refresh();
+  });
+
+  // Lock and unlock done by other contexts
+  unlockTokenStorage?.subscribe(async () => {
+    const token = unlockTokenStorage.getSnapshot();
+
+    if (token && !cryptoKey) {
+      await applyKey(await loadPassphraseKey());
+    } else if (!token && cryptoKey) {
+      await applyKey(null);
+    }
+  });
+
+  return {
+    get,
+    set,
+    getSnapshot,
+    subscribe,
+    lockState,
+    isInitialized,
+    unlock,
+    lock,
+    clear,
+  };
+}
@@ -0,0 +1,2 @@
+export * from './encrypted.js';
+export * from './types.js';
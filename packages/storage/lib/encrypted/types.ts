@@ -0,0 +1,62 @@
+import type { ObservableStorage, ValueOrUpdate } from '../base/index.js';
+
+/**
+ * Where the AES-GCM key of an encrypted storage comes from.
+ * - `device`: a random non-extractable key generated once per installation. Unlocks automatically.
+ * - `passphrase`: derived from a user passphrase with PBKDF2 into a non-extractable key. Stays unlocked until
+ *   {@link EncryptedStorage.lock} is called or the browser is closed.
+ */
+export type KeySource = 'device' | 'passphrase';
+
+export type LockState = 'locked' | 'unlocked';
+
+export type EncryptedStorageConfig = {
+  /**
+   * @default device
+   */
+  keySource?: KeySource;
+  /**
+   * PBKDF2 iterations, only for the `passphrase` key source.
+   * @default 600000
+   */
+  iterations?: number;
+};
+
+/**
+ * Persisted form of an encrypted value. Binary fields are base64 encoded.
+ */
+export type EncryptedEnvelope = {
+  iv: string;
+  data: string;
+  /**
+   * PBKDF2 salt, only for the `passphrase` key source.
+   */
+  salt?: string;
+  iterations?: number;
+};
+
+/**
+ * A storage whose value is encrypted at rest. While locked the snapshot is `null` and writes are rejected.
+ * Only usable from extension pages and the background script: content scripts have neither access to the session
+ * storage area nor to the extension's IndexedDB.
+ */
+export type EncryptedStorage<D> = ObservableStorage<D | null> & {
+  set: (value: ValueOrUpdate<D>) => Promise<void>;
+  /**
+   * Observable lock state, so UIs can react to other contexts locking or unlocking the storage.
+   */
+  lockState: ObservableStorage<LockState>;
+  /**
+   * Whether an encrypted value was ever written, e.g. to decide between "set passphrase" and "unlock" prompts.
+   */
+  isInitialized: () => Promise<boolean>;
+  /**
+   * Unlocks the storage in all extension contexts. Rejects on a wrong passphrase.
+   */
+  unlock: (passphrase?: string) => Promise<void>;
+  lock: () => Promise<void>;
+  /**
+   * Removes the encrypted value. For the `passphrase` key source this also forgets the passphrase.
+   */
+  clear: () => Promise<void>;
+};
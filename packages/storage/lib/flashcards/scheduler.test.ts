@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { createFlashcard, isDue, previewReview, reviewFlashcard, scheduleReview } from './scheduler.js';
+import type { FlashcardSchedule } from './types.js';
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+const NOW = Date.UTC(2026, 0, 1);
+
+const newCard: FlashcardSchedule = { state: 'new', due: NOW, interval: 0, ease: 2.5, step: 0, lapses: 0 };
+
+const reviewCard = (overrides: Partial<FlashcardSchedule> = {}): FlashcardSchedule => ({
+  state: 'review',
+  due: NOW,
+  interval: 10,
+  ease: 2.5,
+  step: 0,
+  lapses: 0,
+  reviewedAt: NOW - 10 * DAY,
+  ...overrides,
+});
+
+describe('scheduleReview', () => {
+  describe('learning', () => {
+    it('goes through the learning steps and graduates with a one day interval', () => {
+      const first = scheduleReview(newCard, 'good', NOW);
+      expect(first).toMatchObject({ state: 'learning', step: 1, interval: 0, due: NOW + 10 * MINUTE });
+
+      const graduated = scheduleReview(first, 'good', NOW + 10 * MINUTE);
+      expect(graduated).toMatchObject({ state: 'review', step: 0, interval: 1, due: NOW + 10 * MINUTE + DAY });
+    });
+
+    it('graduates right away with a four day interval on easy', () => {
+      expect(scheduleReview(newCard, 'easy', NOW)).toMatchObject({ state: 'review', interval: 4, due: NOW + 4 * DAY });
+    });
+
+    it('starts the steps over on again', () => {
+      const learning = scheduleReview(newCard, 'good', NOW);
+
+      expect(scheduleReview(learning, 'again', NOW)).toMatchObject({ state: 'learning', step: 0, due: NOW + MINUTE });
+    });
+
+    it('repeats the step halfway to the next one on hard', () => {
+      expect(scheduleReview(newCard, 'hard', NOW)).toMatchObject({
+        state: 'learning',
+        step: 0,
+        due: NOW + 5.5 * MINUTE,
+      });
+    });
+  });
+
+  describe('review', () => {
+    it('multiplies the interval by the ease on good', () => {
+      expect(scheduleReview(reviewCard(), 'good', NOW)).toMatchObject({
+        state: 'review',
+        interval: 25,
+        ease: 2.5,
+        due: NOW + 25 * DAY,
+        reviewedAt: NOW,
+      });
+    });
+
+    it('credits the extra days of a late review', () => {
+      const late = reviewCard({ reviewedAt: NOW - 20 * DAY });
+
+      expect(scheduleReview(late, 'good', NOW).interval).toBe(50);
+    });
+
+    it('does not credit an early review beyond the interval', () => {
+      const early = reviewCard({ reviewedAt: NOW - 2 * DAY });
+
+      expect(scheduleReview(early, 'good', NOW).interval).toBe(25);
+    });
+
+    it('grows the interval less and lowers the ease on hard', () => {
+      const next = scheduleReview(reviewCard(), 'hard', NOW);
+
+      expect(next.interval).toBe(12);
+      expect(next.ease).toBeCloseTo(2.35);
+    });
+
+    it('grows the interval more and raises the ease on easy', () => {
+      const next = scheduleReview(reviewCard(), 'easy', NOW);
+
+      expect(next.interval).toBe(33);
+      expect(next.ease).toBeCloseTo(2.65);
+    });
+
+    it('caps the interval at ten years', () => {
+      expect(scheduleReview(reviewCard({ interval: 3000 }), 'easy', NOW).interval).toBe(3650);
+    });
+  });
+
+  describe('lapses', () => {
+    it('moves a forgotten card to relearning with half the interval and a lower ease', () => {
+      const lapsed = scheduleReview(reviewCard(), 'again', NOW);
+
+      expect(lapsed).toMatchObject({ state: 'relearning', step: 0, interval: 5, lapses: 1, due: NOW + 10 * MINUTE });
+      expect(lapsed.ease).toBeCloseTo(2.3);
+    });
+
+    it('keeps the shortened interval while relearning and graduates with it', () => {
+      const lapsed = scheduleReview(reviewCard(), 'again', NOW);
+      const again = scheduleReview(lapsed, 'again', NOW + 10 * MINUTE);
+      expect(again).toMatchObject({ state: 'relearning', interval: 5 });
+
+      const relearned = scheduleReview(again, 'good', NOW + 20 * MINUTE);
+      expect(relearned).toMatchObject({ state: 'review', interval: 5, due: NOW + 20 * MINUTE + 5 * DAY });
+    });
+
+    it('does not lower the ease below its minimum', () => {
+      expect(scheduleReview(reviewCard({ ease: 1.3 }), 'again', NOW).ease).toBe(1.3);
+    });
+  });
+});
+
+describe('previewReview', () => {
+  it('orders the due dates of the grades', () => {
+    const { again, hard, good, easy } = previewReview(reviewCard(), NOW);
+
+    expect(again).toBeLessThan(hard);
+    expect(hard).toBeLessThan(good);
+    expect(good).toBeLessThan(easy);
+  });
+});
+
+describe('reviewFlashcard', () => {
+  it('schedules the card and records the review', () => {
+    const card = createFlashcard({ front: ' Easement ', back: 'A right to use the land of another' }, NOW);
+    const { card: reviewed, review } = reviewFlashcard(card, 'easy', NOW + MINUTE);
+
+    expect(card).toMatchObject({ front: 'Easement', state: 'new', due: NOW });
+    expect(reviewed).toMatchObject({ id: card.id, state: 'review', interval: 4, updatedAt: NOW + MINUTE });
+    expect(review).toMatchObject({
+      cardId: card.id,
+      grade: 'easy',
+      state: 'new',
+      previousInterval: 0,
+      interval: 4,
+      due: reviewed.due,
+      reviewedAt: NOW + MINUTE,
+    });
+  });
+});
+
+describe('isDue', () => {
+  it('is due from its due time on', () => {
+    expect(isDue({ due: NOW }, NOW - 1)).toBe(false);
+    expect(isDue({ due: NOW }, NOW)).toBe(true);
+  });
+});
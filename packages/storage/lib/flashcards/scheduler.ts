@@ -0,0 +1,174 @@
+import type { Flashcard, FlashcardInput, FlashcardReview, FlashcardSchedule, ReviewGrade } from './types.js';
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+const LEARNING_STEPS = [1, 10];
+const RELEARNING_STEPS = [10];
+const GRADUATING_INTERVAL = 1;
+const EASY_INTERVAL = 4;
+
+const START_EASE = 2.5;
+const MIN_EASE = 1.3;
+const HARD_FACTOR = 1.2;
+const EASY_BONUS = 1.3;
+/**
+ * Share of the interval kept when a card is forgotten.
+ */
+const LAPSE_FACTOR = 0.5;
+const MAX_INTERVAL = 365 * 10;
+
+export const REVIEW_GRADES: readonly ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+const clampInterval = (days: number) => Math.min(MAX_INTERVAL, Math.max(1, Math.round(days)));
+
+/**
+ * Schedules the learning or relearning steps, graduating the card after the last one.
+ */
+const scheduleSteps = (
+  schedule: FlashcardSchedule,
+  grade: ReviewGrade,
+  steps: number[],
+  intervals: { good: number; easy: number },
+  now: number,
+): FlashcardSchedule => {
+  const state = schedule.state === 'new' ? 'learning' : schedule.state;
+  // Relearning cards keep the interval they graduate with again
+  const inSteps = (step: number, minutes: number) => ({
+    ...schedule,
+    state,
+    step,
+    interval: state === 'relearning' ? schedule.interval : 0,
+    due: now + minutes * MINUTE,
+  });
+  const graduate = (interval: number) => ({
+    ...schedule,
+    state: 'review' as const,
+    step: 0,
+    interval,
+    due: now + interval * DAY,
+  });
+
+  switch (grade) {
+    case 'again':
+      return inSteps(0, steps[0]);
+    case 'hard': {
+      // Repeats the step, halfway to the next one
+      const next = steps[schedule.step + 1] ?? steps[schedule.step] * 1.5;
+      return inSteps(schedule.step, (steps[schedule.step] + next) / 2);
+    }
+    case 'good':
+      return schedule.step + 1 < steps.length
+        ? inSteps(schedule.step + 1, steps[schedule.step + 1])
+        : graduate(intervals.good);
+    case 'easy':
+      return graduate(intervals.easy);
+  }
+};
+
+/**
+ * Schedules a card after a review, see {@link FlashcardSchedule}.
+ */
+export const scheduleReview = (
+  schedule: FlashcardSchedule,
+  grade: ReviewGrade,
+  now = Date.now(),
+): FlashcardSchedule => {
+  const reviewed = { ...schedule, reviewedAt: now };
+
+  switch (schedule.state) {
+    case 'new':
+    case 'learning':
+      return scheduleSteps(reviewed, grade, LEARNING_STEPS, { good: GRADUATING_INTERVAL, easy: EASY_INTERVAL }, now);
+    case 'relearning':
+      return scheduleSteps(
+        reviewed,
+        grade,
+        RELEARNING_STEPS,
+        { good: schedule.interval, easy: clampInterval(schedule.interval + 1) },
+        now,
+      );
+    case 'review': {
+      const { interval, ease } = schedule;
+      // Reviewing late counts the extra days the card was remembered, reviewing early does not
+      const elapsed = Math.max(interval, (now - (schedule.reviewedAt ?? now)) / DAY);
+
+      switch (grade) {
+        case 'again':
+          return {
+            ...reviewed,
+            state: 'relearning',
+            step: 0,
+            interval: clampInterval(interval * LAPSE_FACTOR),
+            ease: Math.max(MIN_EASE, ease - 0.2),
+            lapses: schedule.lapses + 1,
+            due: now + RELEARNING_STEPS[0] * MINUTE,
+          };
+        case 'hard': {
+          const next = clampInterval(Math.max(interval + 1, interval * HARD_FACTOR));
+          return { ...reviewed, interval: next, ease: Math.max(MIN_EASE, ease - 0.15), due: now + next * DAY };
+        }
+        case 'good': {
+          const next = clampInterval(Math.max(interval + 1, elapsed * ease));
+          return { ...reviewed, interval: next, due: now + next * DAY };
+        }
+        case 'easy': {
+          const next = clampInterval(Math.max(interval + 2, elapsed * ease * EASY_BONUS));
+          return { ...reviewed, interval: next, ease: ease + 0.15, due: now + next * DAY };
+        }
+      }
+    }
+  }
+};
+
+/**
+ * When a card would be due again after each grade, e.g. to label the grade buttons.
+ */
+export const previewReview = (schedule: FlashcardSchedule, now = Date.now()) =>
+  Object.fromEntries(REVIEW_GRADES.map(grade => [grade, scheduleReview(schedule, grade, now).due])) as Record<
+    ReviewGrade,
+    number
+  >;
+
+/**
+ * A new card, due right away.
+ */
+export const createFlashcard = (input: FlashcardInput, now = Date.now()): Flashcard => ({
+  id: crypto.randomUUID(),
+  ...(input.kind && input.kind !== 'basic' && { kind: input.kind }),
+  front: input.front.trim(),
+  back: input.back.trim(),
+  ...(input.source && { source: input.source }),
+  state: 'new',
+  due: now,
+  interval: 0,
+  ease: START_EASE,
+  step: 0,
+  lapses: 0,
+  createdAt: now,
+  updatedAt: now,
+});
+
+/**
+ * Reviews a card, returning the card as scheduled next and the entry of the review history.
+ */
+export const reviewFlashcard = (card: Flashcard, grade: ReviewGrade, now = Date.now()) => {
+  const schedule = scheduleReview(card, grade, now);
+  const review: FlashcardReview = {
+    id: crypto.randomUUID(),
+    cardId: card.id,
+    grade,
+    state: card.state,
+    previousInterval: card.interval,
+    interval: schedule.interval,
+    due: schedule.due,
+    reviewedAt: now,
+  };
+
+  return { card: { ...card, ...schedule, updatedAt: now }, review };
+};
+
+/**
+ * Whether a card is due for review.
+ */
+export const isDue = (card: Pick<Flashcard, 'due'>, now = Date.now()) => card.due <= now;
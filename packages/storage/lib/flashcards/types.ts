@@ -0,0 +1,99 @@
+/**
+ * How well the learner remembered a card:
+ * - `again`: forgotten, the card is learned again
+ * - `hard`: remembered with difficulty, the interval grows less
+ * - `good`: remembered
+ * - `easy`: remembered without effort, the interval grows more
+ */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/**
+ * - `new`: never reviewed
+ * - `learning`: going through the learning steps, minutes apart
+ * - `review`: graduated, reviewed days apart
+ * - `relearning`: forgotten in review, going through the relearning steps
+ */
+export type FlashcardState = 'new' | 'learning' | 'review' | 'relearning';
+
+/**
+ * Scheduling of a card with SM-2, as extended by Anki with learning steps and four grades.
+ */
+export type FlashcardSchedule = {
+  state: FlashcardState;
+  /**
+   * When the card is due next.
+   */
+  due: number;
+  /**
+   * Days between the last review and the next one, `0` before the card graduated.
+   */
+  interval: number;
+  /**
+   * Factor of the interval after a `good` review, lowered by `again` and `hard` and raised by `easy`.
+   */
+  ease: number;
+  /**
+   * Index of the current learning or relearning step.
+   */
+  step: number;
+  /**
+   * Times the card was forgotten in review.
+   */
+  lapses: number;
+  reviewedAt?: number;
+};
+
+/**
+ * - `basic`: a question or term on the front, the answer on the back
+ * - `cloze`: a sentence with a gap written as `[...]` on the front, the missing words on the back
+ */
+export type FlashcardKind = 'basic' | 'cloze';
+
+/**
+ * The lesson note a card was made from.
+ */
+export type FlashcardSource = {
+  noteId: string;
+  title: string;
+  /**
+   * The paragraph of the note the card is about.
+   */
+  excerpt?: string;
+};
+
+export type Flashcard = FlashcardSchedule & {
+  id: string;
+  /**
+   * @default 'basic'
+   */
+  kind?: FlashcardKind;
+  front: string;
+  back: string;
+  source?: FlashcardSource;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type FlashcardInput = Pick<Flashcard, 'kind' | 'front' | 'back' | 'source'>;
+
+/**
+ * A card made by the language model from a lesson note, waiting for the learner to accept, edit or reject it.
+ */
+export type FlashcardDraft = Required<Pick<Flashcard, 'kind' | 'front' | 'back' | 'source'>> & {
+  id: string;
+  createdAt: number;
+};
+
+/**
+ * One review of a card, with the interval it had before and got after.
+ */
+export type FlashcardReview = {
+  id: string;
+  cardId: string;
+  grade: ReviewGrade;
+  state: FlashcardState;
+  previousInterval: number;
+  interval: number;
+  due: number;
+  reviewedAt: number;
+};
@@ -0,0 +1,9 @@
+import type { EncryptedStorage } from '../encrypted/index.js';
+import { createEncryptedStorage } from '../encrypted/index.js';
+
+/**
+ * API keys of the LLM providers, keyed by provider id.
+ */
+export type ApiKeys = Partial<Record<string, string>>;
+
+export const apiKeysStorage: EncryptedStorage<ApiKeys> = createEncryptedStorage<ApiKeys>('api-keys-storage-key', {});
@@ -0,0 +1,57 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+
+/**
+ * - `queued`: waiting for a free slot
+ * - `running`: started, or waiting to be resumed after the service worker restarted
+ * - `completed`, `failed` and `cancelled` are final
+ */
+export type BackgroundJobState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type BackgroundJobProgress = {
+  done: number;
+  total: number;
+  /**
+   * What the job is doing, e.g. the step it is at.
+   */
+  message?: string;
+};
+
+export type BackgroundJob = {
+  id: string;
+  /**
+   * Which handler runs the job.
+   */
+  type: string;
+  input: unknown;
+  state: BackgroundJobState;
+  progress: BackgroundJobProgress | null;
+  /**
+   * Saved by the handler along with its progress, so a restarted job continues instead of starting over.
+   */
+  checkpoint?: unknown;
+  result?: unknown;
+  error?: string;
+  /**
+   * Runs started, counting each resume after a restart.
+   */
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type BackgroundJobsState = {
+  jobs: Record<string, BackgroundJob>;
+};
+
+/**
+ * Long running jobs of the background, written by its job runner. Kept in the session storage, so jobs outlive the
+ * service worker but not the browser. Content scripts may not read the session storage, they ask the background.
+ */
+export const backgroundJobsStorage = createStorage<BackgroundJobsState>(
+  'background-jobs-storage-key',
+  { jobs: {} },
+  {
+    storageEnum: StorageEnum.Session,
+    liveUpdate: true,
+  },
+);
@@ -0,0 +1,42 @@
+import { createCollectionStorage } from '../collection/index.js';
+
+/**
+ * The lesson shown in a tab, attached to a tutor chat as context.
+ */
+export type LessonContext = {
+  title: string;
+  /**
+   * Plain text of the lesson, including the question and choices when the page shows one.
+   */
+  text: string;
+  url: string;
+};
+
+export type ChatThreadMessage = {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: number;
+  /**
+   * Why the answer is missing or incomplete, e.g. a failed or cancelled request.
+   */
+  error?: string;
+};
+
+export type ChatThread = {
+  id: string;
+  title: string;
+  messages: ChatThreadMessage[];
+  lesson?: LessonContext;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/**
+ * Conversations with the tutor in the side panel.
+ */
+export const chatThreadsStorage = createCollectionStorage<ChatThread>('chat-threads', {
+  keyPath: 'id',
+  indexes: [{ name: 'updatedAt', keyPath: 'updatedAt' }],
+  liveUpdate: true,
+});
@@ -8,7 +8,8 @@ type ThemeStorage = BaseStorage<Theme> & {
 };
 
 const storage = createStorage<Theme>('theme-storage-key', 'light', {
-  storageEnum: StorageEnum.Local,
+  storageEnum: StorageEnum.Sync,
+  movedFrom: StorageEnum.Local,
   liveUpdate: true,
 });
 
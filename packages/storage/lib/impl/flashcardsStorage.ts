@@ -0,0 +1,87 @@
+import { createCollectionStorage } from '../collection/index.js';
+import type { CollectionStorage } from '../collection/index.js';
+import type { Flashcard, FlashcardDraft, FlashcardInput, FlashcardReview, ReviewGrade } from '../flashcards/index.js';
+import { createFlashcard, reviewFlashcard } from '../flashcards/index.js';
+
+type FlashcardsStorage = CollectionStorage<Flashcard> & {
+  /**
+   * Adds new cards, due right away.
+   */
+  add: (inputs: FlashcardInput[]) => Promise<Flashcard[]>;
+  /**
+   * Schedules a card after a review and adds the review to {@link flashcardReviewsStorage}.
+   */
+  review: (card: Flashcard, grade: ReviewGrade) => Promise<Flashcard>;
+};
+
+type FlashcardDraftsStorage = CollectionStorage<FlashcardDraft> & {
+  /**
+   * Adds a draft to the deck, with the edits of the learner, and removes it from the queue. Accepting a draft again
+   * resolves with the card it already added.
+   */
+  accept: (draft: FlashcardDraft, edits?: Pick<FlashcardInput, 'front' | 'back'>) => Promise<Flashcard>;
+};
+
+/**
+ * Every review of a flashcard, e.g. to show the review history.
+ */
+export const flashcardReviewsStorage = createCollectionStorage<FlashcardReview>('flashcard-reviews', {
+  keyPath: 'id',
+  indexes: [
+    { name: 'cardId', keyPath: 'cardId' },
+    { name: 'reviewedAt', keyPath: 'reviewedAt' },
+  ],
+  liveUpdate: true,
+});
+
+const storage = createCollectionStorage<Flashcard>('flashcards', {
+  keyPath: 'id',
+  indexes: [{ name: 'due', keyPath: 'due' }],
+  liveUpdate: true,
+});
+
+/**
+ * The flashcard deck reviewed on the new tab, scheduled with SM-2.
+ */
+export const flashcardsStorage: FlashcardsStorage = {
+  ...storage,
+  add: async inputs => {
+    const now = Date.now();
+    const cards = inputs.map(input => createFlashcard(input, now));
+    await storage.putMany(cards);
+
+    return cards;
+  },
+  review: async (card, grade) => {
+    const { card: scheduled, review } = reviewFlashcard(card, grade);
+    await storage.put(scheduled);
+    await flashcardReviewsStorage.put(review);
+
+    return scheduled;
+  },
+};
+
+const drafts = createCollectionStorage<FlashcardDraft>('flashcard-drafts', {
+  keyPath: 'id',
+  indexes: [{ name: 'createdAt', keyPath: 'createdAt' }],
+  liveUpdate: true,
+});
+
+/**
+ * Cards made from lesson notes by the language model, queued until the learner accepts or rejects them.
+ */
+export const flashcardDraftsStorage: FlashcardDraftsStorage = {
+  ...drafts,
+  accept: async (draft, edits) => {
+    // Keyed by the draft, so accepting it twice, e.g. with a double click, adds a single card
+    const id = `draft:${draft.id}`;
+    let card = await storage.getByKey(id);
+    if (!card) {
+      card = { ...createFlashcard({ ...draft, ...edits }), id };
+      await storage.put(card);
+    }
+    await drafts.delete(draft.id);
+
+    return card;
+  },
+};
@@ -1 +1,15 @@
+export * from './apiKeysStorage.js';
+export * from './backgroundJobsStorage.js';
+export * from './chatThreadsStorage.js';
 export * from './exampleThemeStorage.js';
+export * from './flashcardsStorage.js';
+export * from './lessonNotesStorage.js';
+export * from './llmCacheStorage.js';
+export * from './llmFixturesStorage.js';
+export * from './llmQueueStorage.js';
+export * from './llmSettingsStorage.js';
+export * from './llmUsageStorage.js';
+export * from './promptOverridesStorage.js';
+export * from './questionBankStorage.js';
+export * from './quotaStatusStorage.js';
+export * from './studyModeStorage.js';
@@ -0,0 +1,39 @@
+import { createCollectionStorage } from '../collection/index.js';
+
+/**
+ * A lesson page the learner read, captured by the content script as a personal copy of the course material.
+ */
+export type LessonNote = {
+  /**
+   * Content id of the lesson page, the same on every visit.
+   */
+  id: string;
+  /**
+   * Course and unit shown in the header of the course platform, empty when the page does not show them.
+   */
+  course: string;
+  unit: string;
+  title: string;
+  /**
+   * Content of the lesson reduced to text formatting, lists, tables and links, without scripts, styles or attributes.
+   */
+  html: string;
+  text: string;
+  url: string;
+  /**
+   * When the lesson was first captured, or captured again after its content changed.
+   */
+  capturedAt: number;
+};
+
+/**
+ * Lesson notes browsed in the side panel. Content scripts save them through the background, see `saveLessonNote`.
+ */
+export const lessonNotesStorage = createCollectionStorage<LessonNote>('lesson-notes', {
+  keyPath: 'id',
+  indexes: [
+    { name: 'capturedAt', keyPath: 'capturedAt' },
+    { name: 'course', keyPath: ['course', 'unit'] },
+  ],
+  liveUpdate: true,
+});
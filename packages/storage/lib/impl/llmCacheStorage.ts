@@ -0,0 +1,66 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import { createCollectionStorage } from '../collection/index.js';
+import type { LlmProviderId } from './llmSettingsStorage.js';
+
+export type LlmCacheEntry = {
+  /**
+   * SHA-256 of provider, model, normalized messages and parameters.
+   */
+  hash: string;
+  provider: LlmProviderId;
+  model: string;
+  label: string;
+  /**
+   * Start of the last user message, to recognize entries in the devtools.
+   */
+  preview: string;
+  text: string;
+  usage: { inputTokens: number; outputTokens: number };
+  createdAt: number;
+  expiresAt: number;
+  /**
+   * When the entry was last written or served, the least recently used entries are evicted first.
+   */
+  usedAt: number;
+  hits: number;
+};
+
+export type LlmCacheStats = {
+  hits: number;
+  misses: number;
+  /**
+   * Expired entries served because the provider could not be reached.
+   */
+  staleHits: number;
+  since: number;
+};
+
+/**
+ * Most responses kept, beyond it the least recently used ones are dropped.
+ */
+const MAX_CACHE_ENTRIES = 2000;
+
+/**
+ * Responses of language models, written by the background. Only readable from extension pages.
+ */
+export const llmCacheStorage = createCollectionStorage<LlmCacheEntry>('llm-cache', {
+  keyPath: 'hash',
+  indexes: [
+    { name: 'expiresAt', keyPath: 'expiresAt' },
+    { name: 'usedAt', keyPath: 'usedAt' },
+  ],
+  version: 2,
+  liveUpdate: true,
+  // Can be generated again, and would bloat backups
+  backup: false,
+  eviction: { maxEntries: MAX_CACHE_ENTRIES, index: 'usedAt' },
+});
+
+export const llmCacheStatsStorage = createStorage<LlmCacheStats>(
+  'llm-cache-stats-storage-key',
+  { hits: 0, misses: 0, staleHits: 0, since: Date.now() },
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
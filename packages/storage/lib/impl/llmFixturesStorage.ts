@@ -0,0 +1,43 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { LlmProviderId } from './llmSettingsStorage.js';
+
+/**
+ * A recorded request and response of a language model, replayed by the e2e tests.
+ */
+export type LlmFixture = {
+  /**
+   * The conversation sent, replays match it with whitespace normalized.
+   */
+  messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>;
+  text: string;
+  provider: LlmProviderId;
+  model: string;
+  usage: { inputTokens: number; outputTokens: number };
+  recordedAt: number;
+};
+
+/**
+ * Contents of a fixture file.
+ */
+export type LlmFixtureFile = {
+  version: 1;
+  fixtures: LlmFixture[];
+};
+
+/**
+ * Most fixtures kept, a long recording session drops the oldest ones.
+ */
+const MAX_FIXTURES = 500;
+
+/**
+ * Fixtures recorded with `CEB_LLM_MODE=record`, exported from the devtools panel.
+ */
+export const llmFixturesStorage = createStorage<LlmFixtureFile>(
+  'llm-fixtures-storage-key',
+  { version: 1, fixtures: [] },
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+    eviction: { maxEntries: MAX_FIXTURES, entries: 'fixtures' },
+  },
+);
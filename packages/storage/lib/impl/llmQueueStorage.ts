@@ -0,0 +1,37 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { LlmProviderId } from './llmSettingsStorage.js';
+
+/**
+ * Where a queued LLM request stands, as reported to its caller.
+ */
+export type LlmQueueStatus =
+  | { state: 'queued'; ahead: number }
+  | { state: 'running' }
+  | { state: 'retrying'; attempt: number; retryAt: number };
+
+export type LlmQueueJob = {
+  id: string;
+  provider: LlmProviderId;
+  /**
+   * What the request is for, e.g. the route which made it.
+   */
+  label: string;
+  enqueuedAt: number;
+  status: LlmQueueStatus;
+};
+
+export type LlmQueueState = {
+  jobs: LlmQueueJob[];
+};
+
+/**
+ * Requests waiting for or talking to a language model, written by the queue in the background.
+ */
+export const llmQueueStorage = createStorage<LlmQueueState>(
+  'llm-queue-storage-key',
+  { jobs: [] },
+  {
+    storageEnum: StorageEnum.Session,
+    liveUpdate: true,
+  },
+);
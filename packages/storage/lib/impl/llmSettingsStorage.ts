@@ -0,0 +1,51 @@
+import type { BaseStorage } from '../base/index.js';
+import { createStorage, StorageEnum } from '../base/index.js';
+
+export type LlmProviderId = 'openai' | 'anthropic' | 'local' | 'mock';
+
+export type LlmSettings = {
+  provider: LlmProviderId;
+  /**
+   * Model of each provider, so switching back and forth keeps the choice.
+   */
+  models: Record<LlmProviderId, string>;
+  temperature: number;
+  maxTokens: number;
+  /**
+   * Base URL of the OpenAI compatible local server, including the `/v1` path.
+   */
+  localBaseUrl: string;
+};
+
+export const defaultLlmSettings: LlmSettings = {
+  provider: 'openai',
+  models: {
+    openai: 'gpt-3.5-turbo',
+    anthropic: 'claude-3-5-haiku-latest',
+    local: 'llama3.1',
+    mock: 'mock-1',
+  },
+  temperature: 1,
+  maxTokens: 150,
+  localBaseUrl: 'http://localhost:11434/v1',
+};
+
+type LlmSettingsStorage = BaseStorage<LlmSettings> & {
+  /**
+   * Sets the model of the given provider.
+   */
+  setModel: (provider: LlmProviderId, model: string) => Promise<void>;
+};
+
+const storage = createStorage<LlmSettings>('llm-settings-storage-key', defaultLlmSettings, {
+  storageEnum: StorageEnum.Sync,
+  movedFrom: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+export const llmSettingsStorage: LlmSettingsStorage = {
+  ...storage,
+  setModel: async (provider, model) => {
+    await storage.set(settings => ({ ...settings, models: { ...settings.models, [provider]: model } }));
+  },
+};
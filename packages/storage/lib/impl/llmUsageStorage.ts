@@ -0,0 +1,120 @@
+import type { BaseStorage } from '../base/index.js';
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { LlmProviderId } from './llmSettingsStorage.js';
+
+/**
+ * Usage of one feature with one model on one day.
+ */
+export type LlmUsageEntry = {
+  /**
+   * Local date as `YYYY-MM-DD`.
+   */
+  day: string;
+  /**
+   * What made the requests, e.g. the message route.
+   */
+  feature: string;
+  provider: LlmProviderId;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  /**
+   * Estimated cost in US dollars.
+   */
+  cost: number;
+};
+
+export type LlmUsage = {
+  entries: LlmUsageEntry[];
+};
+
+export type LlmBudget = {
+  /**
+   * Most US dollars spent per day, `null` for no cap.
+   */
+  daily: number | null;
+  /**
+   * Most US dollars spent per calendar month, `null` for no cap.
+   */
+  monthly: number | null;
+};
+
+/**
+ * Days of usage which are kept, enough for the previous month.
+ */
+const RETENTION_DAYS = 62;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Local date of the timestamp as `YYYY-MM-DD`, days and months follow the clock of the user.
+ */
+export const getUsageDay = (timestamp = Date.now()) => {
+  const date = new Date(timestamp);
+
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+type LlmUsageStorage = BaseStorage<LlmUsage> & {
+  /**
+   * Adds a request to the usage of its day, feature and model, dropping days past the retention.
+   */
+  add: (usage: Omit<LlmUsageEntry, 'day' | 'requests'>, timestamp?: number) => Promise<void>;
+};
+
+const storage = createStorage<LlmUsage>(
+  'llm-usage-storage-key',
+  { entries: [] },
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+export const llmUsageStorage: LlmUsageStorage = {
+  ...storage,
+  add: async (usage, timestamp = Date.now()) => {
+    const day = getUsageDay(timestamp);
+    const oldest = getUsageDay(timestamp - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+    await storage.set(({ entries }) => {
+      const kept = entries.filter(entry => entry.day >= oldest);
+      const existing = kept.find(
+        entry =>
+          entry.day === day &&
+          entry.feature === usage.feature &&
+          entry.provider === usage.provider &&
+          entry.model === usage.model,
+      );
+
+      if (!existing) {
+        return { entries: [...kept, { ...usage, day, requests: 1 }] };
+      }
+
+      return {
+        entries: kept.map(entry =>
+          entry === existing
+            ? {
+                ...entry,
+                requests: entry.requests + 1,
+                inputTokens: entry.inputTokens + usage.inputTokens,
+                outputTokens: entry.outputTokens + usage.outputTokens,
+                cost: entry.cost + usage.cost,
+              }
+            : entry,
+        ),
+      };
+    });
+  },
+};
+
+export const llmBudgetStorage = createStorage<LlmBudget>(
+  'llm-budget-storage-key',
+  { daily: null, monthly: null },
+  {
+    storageEnum: StorageEnum.Sync,
+    movedFrom: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
@@ -0,0 +1,48 @@
+import type { BaseStorage } from '../base/index.js';
+import { createStorage, StorageEnum } from '../base/index.js';
+
+/**
+ * A prompt template edited in the options, used instead of the default of the same id.
+ */
+export type PromptOverride = {
+  template: string;
+  /**
+   * Version of the default template the override was edited from, so updated defaults can be pointed out.
+   */
+  baseVersion: number;
+  savedAt: number;
+};
+
+export type PromptOverrides = Partial<Record<string, PromptOverride>>;
+
+type PromptOverridesStorage = BaseStorage<PromptOverrides> & {
+  save: (id: string, template: string, baseVersion: number) => Promise<void>;
+  /**
+   * Goes back to the default template.
+   */
+  reset: (id: string) => Promise<void>;
+};
+
+const storage = createStorage<PromptOverrides>(
+  'prompt-overrides-storage-key',
+  {},
+  {
+    storageEnum: StorageEnum.Sync,
+    movedFrom: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+export const promptOverridesStorage: PromptOverridesStorage = {
+  ...storage,
+  save: async (id, template, baseVersion) => {
+    await storage.set(overrides => ({ ...overrides, [id]: { template, baseVersion, savedAt: Date.now() } }));
+  },
+  reset: async id => {
+    await storage.set(overrides => {
+      const next = { ...overrides };
+      delete next[id];
+      return next;
+    });
+  },
+};
@@ -0,0 +1,45 @@
+import { createCollectionStorage } from '../collection/index.js';
+import type { CollectionStorage } from '../collection/index.js';
+import type { QuizItem, QuizItemInput } from '../quiz/index.js';
+
+type QuestionBankStorage = CollectionStorage<QuizItem> & {
+  /**
+   * Adds a question, or updates it when an id is given.
+   */
+  save: (input: QuizItemInput, id?: string) => Promise<QuizItem>;
+};
+
+const storage = createCollectionStorage<QuizItem>('question-bank', {
+  keyPath: 'id',
+  indexes: [{ name: 'topic', keyPath: 'topic' }],
+  liveUpdate: true,
+});
+
+/**
+ * The learner's own practice questions, drawn into quizzes offline.
+ */
+export const questionBankStorage: QuestionBankStorage = {
+  ...storage,
+  save: async (input, id) => {
+    const now = Date.now();
+    const saved = id ? await storage.getByKey(id) : undefined;
+    const itemId = saved?.id ?? crypto.randomUUID();
+    const item: QuizItem = {
+      ...input,
+      id: itemId,
+      contentId: saved?.contentId ?? `question-bank::${itemId}`,
+      topic: input.topic.trim(),
+      question: input.question.trim(),
+      choices: input.choices.map(({ text, options }) => ({
+        text: text.trim(),
+        options: options.map(option => option.trim()),
+      })),
+      answers: input.answers.map(answer => answer.trim()),
+      createdAt: saved?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await storage.put(item);
+
+    return item;
+  },
+};
@@ -0,0 +1,14 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { QuotaStatus } from '../quota/types.js';
+
+/**
+ * Latest usage of the watched storage areas, written by the quota watchdog in the background.
+ */
+export const quotaStatusStorage = createStorage<QuotaStatus>(
+  'quota-status-storage-key',
+  {},
+  {
+    storageEnum: StorageEnum.Session,
+    liveUpdate: true,
+  },
+);
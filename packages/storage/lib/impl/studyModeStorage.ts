@@ -0,0 +1,23 @@
+import type { BaseStorage } from '../base/index.js';
+import { createStorage, StorageEnum } from '../base/index.js';
+
+type StudyModeStorage = BaseStorage<boolean> & {
+  toggle: () => Promise<void>;
+};
+
+const storage = createStorage<boolean>('study-mode-storage-key', true, {
+  storageEnum: StorageEnum.Sync,
+  movedFrom: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+/**
+ * Whether the content script only explains practice questions instead of answering them. On by default, and always
+ * on for graded work such as unit exams whatever is saved here.
+ */
+export const studyModeStorage: StudyModeStorage = {
+  ...storage,
+  toggle: async () => {
+    await storage.set(enabled => !enabled);
+  },
+};
@@ -1,2 +1,29 @@
-export type { BaseStorage } from './base/index.js';
+export type {
+  BaseStorage,
+  EvictionConfig,
+  ObservableStorage,
+  RegisteredCollection,
+  RegisteredStorage,
+  StampedValue,
+} from './base/index.js';
+export {
+  getExtensionContext,
+  getRegisteredCollections,
+  getRegisteredStorages,
+  getStampContext,
+  isExtensionContext,
+  isStorageMetaKey,
+  purgeExpiredStorages,
+  STAMP_KEY_SUFFIX,
+  StorageEnum,
+  transaction,
+  VERSION_KEY_SUFFIX,
+} from './base/index.js';
+export type { CollectionStorage } from './collection/index.js';
+export type { EncryptedStorage, KeySource, LockState } from './encrypted/index.js';
+export * from './backup/index.js';
+export * from './flashcards/index.js';
+export * from './quiz/index.js';
+export * from './quota/index.js';
+export * from './sync/index.js';
 export * from './impl/index.js';
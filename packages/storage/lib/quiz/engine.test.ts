@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { buildQuiz, gradeResponse, shuffle, topicResults, validateQuizItem } from './engine.js';
+import type { QuizItem, QuizItemInput } from './types.js';
+
+const multipleChoice: QuizItem = {
+  id: 'mc',
+  contentId: 'quiz:mc',
+  type: 'multiple_choice',
+  topic: 'Contracts',
+  title: 'Contracts',
+  question: 'Which document transfers title?',
+  choices: [
+    { text: 'Deed', options: [] },
+    { text: 'Lease', options: [] },
+    { text: 'Listing', options: [] },
+  ],
+  answers: ['Deed'],
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+const trueFalse: QuizItem = {
+  id: 'tf',
+  contentId: 'quiz:tf',
+  type: 'true_false',
+  topic: 'Agency',
+  title: 'Agency',
+  question: 'Is this a fiduciary duty?',
+  choices: [
+    { text: 'Loyalty', options: ['True', 'False'] },
+    { text: 'Advertising', options: ['True', 'False'] },
+    { text: 'Confidentiality', options: ['True', 'False'] },
+  ],
+  answers: ['True', 'False', 'True'],
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+/**
+ * A source of randomness which always swaps with the first element, rotating the list left by one.
+ */
+const first = () => 0;
+
+const input = ({ type, topic, title, question, choices, answers }: QuizItem): QuizItemInput => ({
+  type,
+  topic,
+  title,
+  question,
+  choices,
+  answers,
+});
+
+describe('shuffle', () => {
+  it('returns a permutation without touching the list', () => {
+    const items = [1, 2, 3, 4, 5];
+    const shuffled = shuffle(items);
+
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect([...shuffled].sort()).toEqual(items);
+  });
+
+  it('follows the source of randomness', () => {
+    expect(shuffle(['a', 'b', 'c'], first)).toEqual(['b', 'c', 'a']);
+    expect(shuffle(['a', 'b', 'c'], () => 0.99)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('validateQuizItem', () => {
+  it('accepts complete questions', () => {
+    expect(validateQuizItem(input(multipleChoice))).toEqual([]);
+    expect(validateQuizItem(input(trueFalse))).toEqual([]);
+  });
+
+  it('reports empty fields and duplicate choices', () => {
+    expect(
+      validateQuizItem({
+        ...input(multipleChoice),
+        topic: ' ',
+        choices: [
+          { text: 'Deed', options: [] },
+          { text: 'Deed ', options: [] },
+          { text: '', options: [] },
+        ],
+      }),
+    ).toEqual(['The topic is empty', 'A choice is empty', 'Two choices are the same']);
+  });
+
+  it('compares answers with the choices and options trimmed, the way they are saved', () => {
+    expect(validateQuizItem({ ...input(multipleChoice), answers: [' Deed '] })).toEqual([]);
+    expect(
+      validateQuizItem({
+        ...input(trueFalse),
+        choices: trueFalse.choices.map(choice => ({ ...choice, options: [' True', 'False '] })),
+        answers: ['True ', ' False', 'True'],
+      }),
+    ).toEqual([]);
+  });
+
+  it('requires a multiple choice answer among the choices', () => {
+    expect(validateQuizItem({ ...input(multipleChoice), answers: ['Mortgage'] })).toEqual(['Pick the correct choice']);
+    expect(validateQuizItem({ ...input(multipleChoice), answers: ['Deed', 'Lease'] })).toEqual([
+      'Pick the correct choice',
+    ]);
+  });
+
+  it('requires options and an answer for every true/false scenario', () => {
+    expect(
+      validateQuizItem({
+        ...input(trueFalse),
+        choices: [{ text: 'Loyalty', options: ['True'] }, ...trueFalse.choices.slice(1)],
+        answers: ['True', 'Maybe'],
+      }),
+    ).toEqual([
+      'Scenario 1 needs at least two options',
+      'Pick the correct option of scenario 2',
+      'Pick the correct option of scenario 3',
+    ]);
+  });
+});
+
+describe('buildQuiz', () => {
+  it('draws the requested number of questions from the chosen topics', () => {
+    expect(buildQuiz([multipleChoice, trueFalse], { count: 5 })).toHaveLength(2);
+    expect(buildQuiz([multipleChoice, trueFalse], { count: 1 })).toHaveLength(1);
+    expect(buildQuiz([multipleChoice, trueFalse], { count: -1 })).toEqual([]);
+
+    const quiz = buildQuiz([multipleChoice, trueFalse], { count: 5, topics: ['Agency'] });
+    expect(quiz.map(({ item }) => item.id)).toEqual(['tf']);
+  });
+
+  it('shuffles the choices of every question', () => {
+    const [question] = buildQuiz([trueFalse], { count: 1, random: first });
+
+    expect(question.order).toEqual([1, 2, 0]);
+  });
+});
+
+describe('gradeResponse', () => {
+  it('grades a multiple choice question by the text of the picked choice', () => {
+    const question = { item: multipleChoice, order: [2, 0, 1] };
+
+    expect(gradeResponse(question, ['Deed'])).toBe(true);
+    expect(gradeResponse(question, ['Listing'])).toBe(false);
+    expect(gradeResponse(question, [])).toBe(false);
+  });
+
+  it('grades the scenarios of a true/false question in the order they are shown', () => {
+    const question = { item: trueFalse, order: [1, 2, 0] };
+
+    expect(gradeResponse(question, ['False', 'True', 'True'])).toBe(true);
+    expect(gradeResponse(question, ['True', 'False', 'True'])).toBe(false);
+  });
+
+  it('grades the questions of a built quiz', () => {
+    const [question] = buildQuiz([trueFalse], { count: 1, random: first });
+    const response = question.order.map(index => trueFalse.answers[index]);
+
+    expect(gradeResponse(question, response)).toBe(true);
+    expect(gradeResponse(question, trueFalse.answers)).toBe(false);
+  });
+});
+
+describe('topicResults', () => {
+  it('counts right answers by topic, sorted by topic', () => {
+    const questions = [
+      { item: multipleChoice, order: [0, 1, 2] },
+      { item: trueFalse, order: [0, 1, 2] },
+      { item: { ...multipleChoice, id: 'mc2' }, order: [1, 0, 2] },
+    ];
+
+    expect(topicResults(questions, [['Deed'], ['True', 'True', 'True']])).toEqual([
+      { topic: 'Agency', correct: 0, total: 1 },
+      { topic: 'Contracts', correct: 1, total: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import type { QuizItem, QuizItemInput, QuizOptions, QuizQuestion, TopicResult } from './types.js';
+
+/**
+ * A shuffled copy of a list, with Fisher-Yates.
+ */
+export const shuffle = <T>(items: readonly T[], random = Math.random): T[] => {
+  const shuffled = [...items];
+  for (let index = shuffled.length - 1; index > 0; index--) {
+    const other = Math.floor(random() * (index + 1));
+    [shuffled[index], shuffled[other]] = [shuffled[other], shuffled[index]];
+  }
+
+  return shuffled;
+};
+
+/**
+ * Problems of a question which would keep it from being graded, empty when it can be used in quizzes. Texts are
+ * compared trimmed, the way they are saved.
+ */
+export const validateQuizItem = (item: QuizItemInput): string[] => {
+  const problems: string[] = [];
+  const texts = item.choices.map(({ text }) => text.trim());
+  const answers = item.answers.map(answer => answer.trim());
+
+  if (!item.topic.trim()) problems.push('The topic is empty');
+  if (!item.question.trim()) problems.push('The question is empty');
+  if (texts.some(text => !text)) problems.push('A choice is empty');
+  if (new Set(texts).size < texts.length) problems.push('Two choices are the same');
+
+  if (item.type === 'multiple_choice') {
+    if (texts.length < 2) problems.push('A multiple choice question needs at least two choices');
+    if (answers.length !== 1 || !texts.includes(answers[0])) problems.push('Pick the correct choice');
+  } else {
+    if (texts.length < 1) problems.push('A true/false question needs at least one scenario');
+    item.choices.forEach(({ options }, index) => {
+      if (options.length < 2) problems.push(`Scenario ${index + 1} needs at least two options`);
+      if (!options.some(option => option.trim() === answers[index])) {
+        problems.push(`Pick the correct option of scenario ${index + 1}`);
+      }
+    });
+  }
+
+  return problems;
+};
+
+/**
+ * Draws a quiz from the question bank: questions in random order, each with its choices shuffled.
+ */
+export const buildQuiz = (items: QuizItem[], { count, topics = [], random = Math.random }: QuizOptions) =>
+  shuffle(
+    items.filter(({ topic }) => !topics.length || topics.includes(topic)),
+    random,
+  )
+    .slice(0, Math.max(0, count))
+    .map(
+      (item): QuizQuestion => ({
+        item,
+        order: shuffle(
+          item.choices.map((_, index) => index),
+          random,
+        ),
+      }),
+    );
+
+/**
+ * Whether a response is right. It holds the text of the picked choice of a multiple choice question, or the picked
+ * option of every scenario of a true/false question in the order they are shown.
+ */
+export const gradeResponse = ({ item, order }: QuizQuestion, response: string[]) =>
+  item.type === 'multiple_choice'
+    ? response.length === 1 && response[0] === item.answers[0]
+    : order.every((index, position) => response[position] === item.answers[index]);
+
+/**
+ * Right answers by topic, sorted by topic.
+ */
+export const topicResults = (questions: QuizQuestion[], responses: string[][]): TopicResult[] => {
+  const results = new Map<string, TopicResult>();
+  questions.forEach((question, index) => {
+    const { topic } = question.item;
+    const result = results.get(topic) ?? { topic, correct: 0, total: 0 };
+    result.total += 1;
+    if (responses[index] && gradeResponse(question, responses[index])) result.correct += 1;
+    results.set(topic, result);
+  });
+
+  return [...results.values()].sort((a, b) => a.topic.localeCompare(b.topic));
+};
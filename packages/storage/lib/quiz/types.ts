@@ -0,0 +1,74 @@
+/**
+ * Content types the content script detects on course pages.
+ */
+export type ContentType = 'true_false' | 'multiple_choice' | 'unknown' | 'text_content' | 'unit_exam';
+
+/**
+ * An option of a multiple choice question, or a scenario of a true/false question with the options it is answered
+ * with.
+ */
+export type QuestionChoice = {
+  text: string;
+  options: string[];
+};
+
+/**
+ * A question as read from a course page by the content script.
+ */
+export type QuestionData = {
+  type: ContentType;
+  contentId: string;
+  title: string;
+  question: string;
+  choices: QuestionChoice[];
+};
+
+/**
+ * A question of the practice question bank, with its answers in the shape the content script answers questions in:
+ * the text of the correct choice of a multiple choice question, or the correct option of every scenario of a
+ * true/false question in the order of the scenarios.
+ */
+export type QuizItem = QuestionData & {
+  id: string;
+  type: 'multiple_choice' | 'true_false';
+  topic: string;
+  answers: string[];
+  /**
+   * Shown once the learner answered.
+   */
+  explanation?: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type QuizItemInput = Omit<QuizItem, 'id' | 'contentId' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * A question of a quiz, with its choices in the order they are shown.
+ */
+export type QuizQuestion = {
+  item: QuizItem;
+  /**
+   * Index in `item.choices` of each choice shown.
+   */
+  order: number[];
+};
+
+export type QuizOptions = {
+  count: number;
+  /**
+   * Topics to draw from, all when empty.
+   */
+  topics?: string[];
+  /**
+   * Source of randomness between 0 and 1.
+   * @default Math.random
+   */
+  random?: () => number;
+};
+
+export type TopicResult = {
+  topic: string;
+  correct: number;
+  total: number;
+};
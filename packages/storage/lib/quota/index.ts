@@ -0,0 +1,2 @@
+export * from './quota.js';
+export * from './types.js';
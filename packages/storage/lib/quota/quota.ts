@@ -0,0 +1,97 @@
+import { purgeExpiredStorages, StorageEnum } from '../base/index.js';
+import { quotaStatusStorage } from '../impl/quotaStatusStorage.js';
+import type { QuotaLevel, QuotaUsage, QuotaWatchdogConfig } from './types.js';
+
+const chrome = globalThis.chrome;
+
+/**
+ * Checks are delayed after a change, so a burst of writes is measured once.
+ */
+const CHECK_DELAY = 1000;
+
+/**
+ * Measures the usage of a storage area. Resolves with `null` for areas without a byte quota, like managed storage.
+ */
+export const getQuotaUsage = async (
+  area: StorageEnum,
+  thresholds?: Pick<QuotaWatchdogConfig, 'warningRatio' | 'criticalRatio'>,
+): Promise<QuotaUsage | null> => {
+  const storageArea = chrome.storage[area];
+  const quota = 'QUOTA_BYTES' in storageArea ? (storageArea.QUOTA_BYTES as number) : undefined;
+
+  if (!quota) {
+    return null;
+  }
+
+  const bytesInUse = await storageArea.getBytesInUse(null);
+  const ratio = bytesInUse / quota;
+  let level: QuotaLevel = 'ok';
+  if (ratio >= (thresholds?.criticalRatio ?? 0.95)) {
+    level = 'critical';
+  } else if (ratio >= (thresholds?.warningRatio ?? 0.8)) {
+    level = 'warning';
+  }
+
+  return { bytesInUse, quota, ratio, level, checkedAt: Date.now() };
+};
+
+/**
+ * Watches the usage of storage areas and publishes it to {@link quotaStatusStorage}. Expired values are purged on
+ * start and whenever an area becomes critical. Run it once, in the background script.
+ *
+ * @returns a function stopping the watchdog
+ */
+export const startQuotaWatchdog = (config?: QuotaWatchdogConfig) => {
+  const areas = config?.areas ?? [StorageEnum.Local, StorageEnum.Sync];
+  const levels: Partial<Record<StorageEnum, QuotaLevel>> = {};
+  const timers = new Map<StorageEnum, ReturnType<typeof setTimeout>>();
+
+  const check = async (area: StorageEnum) => {
+    let usage = await getQuotaUsage(area, config);
+    if (!usage) return;
+
+    if (usage.level === 'critical' && (await purgeExpiredStorages()) > 0) {
+      usage = (await getQuotaUsage(area, config))!;
+    }
+
+    const previous = levels[area];
+    levels[area] = usage.level;
+
+    // Only publish when something visible changed, the status storage lives in the session area itself
+    const current = (await quotaStatusStorage.get())[area];
+    if (current?.level !== usage.level || Math.abs((current?.ratio ?? 0) - usage.ratio) >= 0.01) {
+      await quotaStatusStorage.set(status => ({ ...status, [area]: usage }));
+    }
+    if (previous !== usage.level) {
+      config?.onLevelChange?.(area, usage, previous);
+    }
+  };
+
+  const scheduleCheck = (area: StorageEnum) => {
+    clearTimeout(timers.get(area));
+    timers.set(
+      area,
+      setTimeout(() => {
+        timers.delete(area);
+        check(area).catch(error => console.error(`Checking the quota of ${area} storage failed`, error));
+      }, CHECK_DELAY),
+    );
+  };
+
+  const onChanged = (_changes: unknown, areaName: string) => {
+    if (areas.includes(areaName as StorageEnum)) {
+      scheduleCheck(areaName as StorageEnum);
+    }
+  };
+
+  purgeExpiredStorages()
+    .catch(error => console.error('Purging expired storages failed', error))
+    .finally(() => areas.forEach(scheduleCheck));
+  chrome.storage.onChanged.addListener(onChanged);
+
+  return () => {
+    chrome.storage.onChanged.removeListener(onChanged);
+    timers.forEach(timer => clearTimeout(timer));
+    timers.clear();
+  };
+};
@@ -0,0 +1,43 @@
+import type { StorageEnum } from '../base/index.js';
+
+/**
+ * - `ok`: below the warning threshold
+ * - `warning`: getting full, time to clean up
+ * - `critical`: writes are about to fail with `QUOTA_BYTES` exceeded
+ */
+export type QuotaLevel = 'ok' | 'warning' | 'critical';
+
+export type QuotaUsage = {
+  bytesInUse: number;
+  quota: number;
+  /**
+   * `bytesInUse / quota`, between 0 and 1.
+   */
+  ratio: number;
+  level: QuotaLevel;
+  checkedAt: number;
+};
+
+export type QuotaStatus = Partial<Record<StorageEnum, QuotaUsage>>;
+
+export type QuotaWatchdogConfig = {
+  /**
+   * Areas to watch. Only areas with a `QUOTA_BYTES` limit can be watched.
+   * @default [Local, Sync]
+   */
+  areas?: StorageEnum[];
+  /**
+   * Usage ratio from which the level is `warning`.
+   * @default 0.8
+   */
+  warningRatio?: number;
+  /**
+   * Usage ratio from which the level is `critical`. Expired values are purged when it is reached.
+   * @default 0.95
+   */
+  criticalRatio?: number;
+  /**
+   * Called whenever the level of an area changes, e.g. to show a notification.
+   */
+  onLevelChange?: (area: StorageEnum, usage: QuotaUsage, previous: QuotaLevel | undefined) => void;
+};
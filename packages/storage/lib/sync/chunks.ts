@@ -0,0 +1,55 @@
+/**
+ * Suffix of the keys holding the chunks of a sync storage value, followed by the chunk index.
+ */
+export const CHUNK_KEY_SUFFIX = '__chunk_';
+
+/**
+ * Bytes a character takes inside a JSON string, which is how chrome.storage measures item sizes.
+ */
+const jsonCharBytes = (char: string) => {
+  const code = char.codePointAt(0)!;
+
+  if (char === '"' || char === '\\') return 2;
+  if (code < 0x20) return char === '\n' || char === '\r' || char === '\t' || char === '\b' || char === '\f' ? 2 : 6;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+
+  return 4;
+};
+
+/**
+ * Splits a text into pieces which each take at most `maxBytes` once stored as a JSON string.
+ */
+export const splitIntoChunks = (text: string, maxBytes: number): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  let size = 0;
+
+  for (const char of text) {
+    const bytes = jsonCharBytes(char);
+    if (size + bytes > maxBytes && current) {
+      chunks.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  chunks.push(current);
+
+  return chunks;
+};
+
+/**
+ * 32-bit FNV-1a hash, enough to tell a complete value from a partially synced one.
+ */
+export const checksum = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
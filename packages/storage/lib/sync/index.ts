@@ -0,0 +1,4 @@
+export * from './chunks.js';
+export * from './merge.js';
+export * from './sync.js';
+export * from './types.js';
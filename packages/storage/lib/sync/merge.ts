@@ -0,0 +1,33 @@
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Three-way merge of the top-level keys of two objects: keys changed only remotely are taken over, everything else
+ * keeps the local value. Values which are not objects resolve to the local one, which is the last writer.
+ */
+export const mergeShallow = <D>(local: D, remote: D, base: D): D => {
+  if (!isPlainObject(local) || !isPlainObject(remote)) {
+    return local;
+  }
+
+  const previous: Record<string, unknown> = isPlainObject(base) ? base : {};
+  const merged: Record<string, unknown> = { ...local };
+  const keys = new Set([...Object.keys(previous), ...Object.keys(remote)]);
+
+  keys.forEach(key => {
+    const changedLocally = !isSame(local[key], previous[key]);
+    const changedRemotely = !isSame(remote[key], previous[key]);
+
+    if (changedRemotely && !changedLocally) {
+      if (key in remote) {
+        merged[key] = remote[key];
+      } else {
+        delete merged[key];
+      }
+    }
+  });
+
+  return merged as D;
+};
@@ -0,0 +1,325 @@
+import type { ValueOrUpdate } from '../base/types.js';
+import { createStamp, STAMP_KEY_SUFFIX } from '../base/context.js';
+import { StorageEnum } from '../base/enums.js';
+import { registerStorage } from '../base/registry.js';
+import { CHUNK_KEY_SUFFIX, checksum, splitIntoChunks } from './chunks.js';
+import { mergeShallow } from './merge.js';
+import type { SyncManifest, SyncStorage, SyncStorageConfig } from './types.js';
+
+const chrome = globalThis.chrome;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Share of the sync write limits a single context may use, since other contexts write as well.
+ */
+const WRITE_BUDGET = 0.5;
+
+/**
+ * Upper bound of the delay before a failed write is retried.
+ */
+const MAX_RETRY_DELAY = 5 * MINUTE;
+
+let writeTimes: number[] = [];
+
+/**
+ * Waits until another write operation fits into `MAX_WRITE_OPERATIONS_PER_MINUTE` and `_PER_HOUR`. Shared by all
+ * sync storages of the context.
+ */
+const waitForWriteSlot = async (): Promise<void> => {
+  const perMinute = Math.floor((chrome.storage.sync.MAX_WRITE_OPERATIONS_PER_MINUTE ?? 120) * WRITE_BUDGET);
+  const perHour = Math.floor((chrome.storage.sync.MAX_WRITE_OPERATIONS_PER_HOUR ?? 1800) * WRITE_BUDGET);
+
+  for (;;) {
+    const now = Date.now();
+    writeTimes = writeTimes.filter(time => now - time < HOUR);
+    const lastMinute = writeTimes.filter(time => now - time < MINUTE);
+
+    let wait = 0;
+    if (lastMinute.length >= perMinute) {
+      wait = lastMinute[lastMinute.length - perMinute] + MINUTE - now;
+    }
+    if (writeTimes.length >= perHour) {
+      wait = Math.max(wait, writeTimes[writeTimes.length - perHour] + HOUR - now);
+    }
+    if (wait <= 0) {
+      writeTimes.push(now);
+      return;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, wait));
+  }
+};
+
+/**
+ * Creates a storage in the sync area for values larger than the per-item quota. The value is split into chunks,
+ * writes are coalesced and throttled below the sync write limits, and edits made meanwhile in another browser are
+ * merged with {@link SyncStorageConfig.merge}.
+ *
+ * Values are JSON serialized. Pending writes of a page are flushed when it is hidden.
+ */
+export function createSyncStorage<D>(key: string, fallback: D, config?: SyncStorageConfig<D>): SyncStorage<D> {
+  let cache: D | null = null;
+  let listeners: Array<() => void> = [];
+
+  // Last value known to be in the sync area, the base of three-way merges
+  let base: D = fallback;
+  let baseStamp: string | null = null;
+  let baseChunks = 0;
+  // Value set in this context but not yet written
+  let local: { value: D } | null = null;
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let failures = 0;
+  // Area still holding the value adopted by `adoptMoved`, until it is written to sync
+  let movedFrom: StorageEnum | null = null;
+  let waiters: Array<{ resolve: () => void; reject: (error: unknown) => void }> = [];
+  let writing: Promise<void> = Promise.resolve();
+
+  const writeDelay = config?.writeDelay ?? 1000;
+  const merge = config?.merge ?? mergeShallow;
+  const chunkKey = (index: number) => `${key}${CHUNK_KEY_SUFFIX}${index}`;
+  const chunkKeys = (from: number, to: number) => Array.from({ length: to - from }, (_, i) => chunkKey(from + i));
+
+  const _emitChange = () => {
+    cache = local ? local.value : base;
+    listeners.forEach(listener => listener());
+  };
+
+  /**
+   * Reads the value from the sync area. Resolves with `null` while the chunks of a remote write are still arriving.
+   */
+  const readRemote = async (): Promise<{ value: D; manifest: SyncManifest | null } | null> => {
+    const manifest: SyncManifest | undefined = (await chrome.storage.sync.get(key))[key];
+    if (!manifest) {
+      return { value: fallback, manifest: null };
+    }
+
+    const keys = chunkKeys(0, manifest.chunks);
+    const items = await chrome.storage.sync.get(keys);
+    const text = keys.map(k => items[k] ?? '').join('');
+    if (text.length !== manifest.length || checksum(text) !== manifest.checksum) {
+      return null;
+    }
+
+    return { value: JSON.parse(text), manifest };
+  };
+
+  const acceptRemote = (value: D, manifest: SyncManifest | null) => {
+    if (local) {
+      local = { value: merge(local.value, value, base) };
+    }
+    base = value;
+    baseStamp = manifest?.stamp ?? null;
+    baseChunks = manifest?.chunks ?? 0;
+    _emitChange();
+  };
+
+  /**
+   * Issues the storage call before the first `await`, so it is sent even if the page unloads right after.
+   */
+  const writeValue = (value: D): Promise<SyncManifest> => {
+    const text = JSON.stringify(value);
+    const maxBytes = (chrome.storage.sync.QUOTA_BYTES_PER_ITEM ?? 8192) - chunkKey(999).length - 2;
+    const chunks = splitIntoChunks(text, maxBytes);
+    const manifest: SyncManifest = {
+      chunks: chunks.length,
+      length: text.length,
+      checksum: checksum(text),
+      stamp: createStamp(),
+      updatedAt: Date.now(),
+    };
+    const items = Object.fromEntries(chunks.map((chunk, index) => [chunkKey(index), chunk]));
+
+    return chrome.storage.sync
+      .set({ ...items, [key]: manifest })
+      .then(() => manifest)
+      .catch(error => {
+        throw new Error(`Writing sync storage "${key}" failed: ${error instanceof Error ? error.message : error}`);
+      });
+  };
+
+  const write = async () => {
+    if (!local) return;
+
+    const settled = waiters;
+    const written = local;
+    waiters = [];
+
+    try {
+      await waitForWriteSlot();
+
+      // Merge what other browsers wrote since we last looked, an incomplete remote value is overwritten
+      const remote = await readRemote();
+      let next = written.value;
+      if (remote && (remote.manifest?.stamp ?? null) !== baseStamp) {
+        next = merge(written.value, remote.value, base);
+      }
+      const staleChunks = Math.max(baseChunks, remote?.manifest?.chunks ?? 0);
+
+      const manifest = await writeValue(next);
+      if (staleChunks > manifest.chunks) {
+        await waitForWriteSlot();
+        await chrome.storage.sync.remove(chunkKeys(manifest.chunks, staleChunks));
+      }
+
+      base = next;
+      baseStamp = manifest.stamp;
+      baseChunks = manifest.chunks;
+      // Keep changes made while writing, on top of what was merged
+      local = local && local !== written ? { value: merge(local.value, next, written.value) } : null;
+      _emitChange();
+
+      failures = 0;
+      if (movedFrom) {
+        chrome.storage[movedFrom]
+          .remove([key, `${key}${STAMP_KEY_SUFFIX}`])
+          .catch(error => console.error(`Removing the moved value of sync storage "${key}" failed`, error));
+        movedFrom = null;
+      }
+      settled.forEach(({ resolve }) => resolve());
+      if (local) schedule();
+    } catch (error) {
+      // The change stays pending and is retried with a growing delay, or earlier with the next flush
+      failures++;
+      settled.forEach(({ reject }) => reject(error));
+      schedule(Math.min(writeDelay * 2 ** failures, MAX_RETRY_DELAY));
+    }
+  };
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    // One write at a time, changes made meanwhile go into the next one
+    writing = writing.then(write);
+
+    return writing;
+  };
+
+  const schedule = (delay = writeDelay) => {
+    // Throttle instead of debounce, so continuous changes are still written regularly
+    timer ??= setTimeout(flush, delay);
+  };
+
+  /**
+   * Takes over the value a `createStorage` of the same key left in {@link SyncStorageConfig.movedFrom}, and removes
+   * it there once it is written to sync.
+   */
+  const adoptMoved = async (area: StorageEnum) => {
+    const moved = (await chrome.storage[area].get(key))[key];
+    if (moved === undefined || local) return;
+
+    local = { value: moved };
+    movedFrom = area;
+    _emitChange();
+    schedule();
+  };
+
+  // Tailwind and other build tools load this module without the extension API
+  const ready = chrome
+    ? readRemote()
+        .then(async remote => {
+          if (!remote) return;
+          acceptRemote(remote.value, remote.manifest);
+          if (!remote.manifest && config?.movedFrom) {
+            await adoptMoved(config.movedFrom);
+          }
+        })
+        .catch(error => console.error(`Loading sync storage "${key}" failed`, error))
+    : Promise.resolve();
+
+  const get = async (): Promise<D> => {
+    await ready;
+
+    return local ? local.value : base;
+  };
+
+  const set = async (valueOrUpdate: ValueOrUpdate<D>) => {
+    await ready;
+
+    const prev = local ? local.value : base;
+    const next =
+      typeof valueOrUpdate === 'function' ? await (valueOrUpdate as (prev: D) => D | Promise<D>)(prev) : valueOrUpdate;
+
+    local = { value: next };
+    _emitChange();
+
+    return new Promise<void>((resolve, reject) => {
+      waiters.push({ resolve, reject });
+      schedule();
+    });
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners = [...listeners, listener];
+
+    return () => {
+      listeners = listeners.filter(l => l !== listener);
+    };
+  };
+
+  const getSnapshot = () => {
+    return cache;
+  };
+
+  // Writes of other contexts and browsers. Chunks of a remote write may arrive separately, so any of them triggers
+  // a read, which only succeeds once the value is complete.
+  chrome?.storage.sync.onChanged.addListener(changes => {
+    const touched = Object.keys(changes).some(k => k === key || k.startsWith(`${key}${CHUNK_KEY_SUFFIX}`));
+    if (!touched || changes[key]?.newValue?.stamp === baseStamp) return;
+
+    readRemote()
+      .then(remote => {
+        if (remote && (remote.manifest?.stamp ?? null) !== baseStamp) {
+          acceptRemote(remote.value, remote.manifest);
+        }
+      })
+      .catch(error => console.error(`Reading sync storage "${key}" failed`, error));
+  });
+
+  // A closing popup or tab would drop the pending write. Skip the merge and write right away.
+  globalThis.addEventListener?.('pagehide', () => {
+    if (!local) return;
+
+    writeTimes.push(Date.now());
+    writeValue(local.value).catch(error => console.error(error));
+  });
+
+  registerStorage({
+    key,
+    storageEnum: StorageEnum.Sync,
+    movedFrom: config?.movedFrom,
+    backup: config?.backup ?? true,
+    exportRaw: async () => {
+      await ready;
+      const remote = await readRemote();
+
+      return { value: remote?.manifest ? remote.value : undefined };
+    },
+    importRaw: async ({ value }) => {
+      if (value !== undefined) {
+        const promise = set(value as D);
+        await flush();
+        return promise;
+      }
+
+      await ready;
+      await chrome.storage.sync.remove([key, ...chunkKeys(0, baseChunks)]);
+      local = null;
+      acceptRemote(fallback, null);
+    },
+    purgeExpired: async () => false,
+  });
+
+  return {
+    key,
+    get,
+    set,
+    flush,
+    getSnapshot,
+    subscribe,
+  };
+}
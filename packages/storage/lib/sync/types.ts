@@ -0,0 +1,63 @@
+import type { ObservableStorage, StorageEnum, ValueOrUpdate } from '../base/index.js';
+
+/**
+ * Resolves a conflict between a local change and a change written meanwhile by another browser or context.
+ * `base` is the last value both sides agreed on.
+ */
+export type SyncMerge<D> = (local: D, remote: D, base: D) => D;
+
+export type SyncStorageConfig<D> = {
+  /**
+   * Writes are delayed by this many milliseconds, so a burst of changes costs a single write operation.
+   * @default 1000
+   */
+  writeDelay?: number;
+  /**
+   * Conflict resolution. The default merges objects key by key: keys changed only remotely are taken over, keys
+   * changed on both sides keep the local value, which was written last. Other values are last writer wins.
+   * @default mergeShallow
+   */
+  merge?: SyncMerge<D>;
+  /**
+   * Include the value in backups.
+   * @default true
+   */
+  backup?: boolean;
+  /**
+   * Area the value was kept in by `createStorage` before. The old value is adopted when sync holds none yet, and
+   * removed from the old area once it is written to sync.
+   * @default undefined
+   */
+  movedFrom?: StorageEnum;
+};
+
+/**
+ * Stored under the key of the storage. The value itself is split into `chunks` sibling keys.
+ */
+export type SyncManifest = {
+  chunks: number;
+  /**
+   * Length and checksum of the joined chunks. Sync may deliver the chunks of a remote write one by one, so readers
+   * only accept a value once it is complete.
+   */
+  length: number;
+  checksum: string;
+  stamp: string;
+  updatedAt: number;
+};
+
+/**
+ * A storage in the sync area whose value may exceed the per-item quota. Writes are coalesced and throttled below
+ * the sync write limits, and concurrent edits from other browsers are merged.
+ */
+export type SyncStorage<D> = ObservableStorage<D> & {
+  key: string;
+  /**
+   * Updates the value right away in this context and resolves once it is written to the sync area.
+   */
+  set: (value: ValueOrUpdate<D>) => Promise<void>;
+  /**
+   * Writes pending changes without waiting for the write delay. Write rate limits still apply.
+   */
+  flush: () => Promise<void>;
+};
@@ -0,0 +1,30 @@
+import { llmQueueStorage } from '@extension/storage';
+import { useStorage } from '@extension/shared';
+import type { ComponentPropsWithoutRef } from 'react';
+import { cn } from '@/lib/utils';
+
+type LlmQueueIndicatorProps = ComponentPropsWithoutRef<'div'>;
+
+/**
+ * Shows how many LLM requests are running, waiting or backing off. Renders nothing while the queue is empty.
+ */
+export const LlmQueueIndicator = ({ className, ...props }: LlmQueueIndicatorProps) => {
+  const { jobs } = useStorage(llmQueueStorage);
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const count = (state: string) => jobs.filter(({ status }) => status.state === state).length;
+  const running = count('running');
+  const queued = count('queued');
+  const retrying = count('retrying');
+
+  return (
+    <div role="status" className={cn('py-1 px-3 rounded text-sm bg-blue-100 text-blue-900', className)} {...props}>
+      AI requests: {running} running
+      {queued > 0 && `, ${queued} queued`}
+      {retrying > 0 && `, ${retrying} waiting to retry`}
+    </div>
+  );
+};
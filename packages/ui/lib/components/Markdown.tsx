@@ -0,0 +1,160 @@
+import type { ComponentPropsWithoutRef, ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'quote'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] };
+
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+
+// Other protocols, e.g. `javascript:`, are rendered as plain text
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+/**
+ * `code`, **bold**, *italic* or _italic_, and [links](https://example.com).
+ */
+const INLINE = /(`[^`]+`)|\*\*(.+?)\*\*|\*([^*\s][^*]*?)\*|\b_([^_]+?)_\b|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+const parseBlocks = (markdown: string) => {
+  const blocks: Block[] = [];
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+
+    if (line.trimStart().startsWith('```')) {
+      const code: string[] = [];
+      // An unclosed fence, e.g. while streaming, runs to the end
+      while (++index < lines.length && !lines[index].trimStart().startsWith('```')) {
+        code.push(lines[index]);
+      }
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const listItem = line.match(LIST_ITEM);
+    const previous = blocks.at(-1);
+
+    if (!line.trim()) continue;
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+    } else if (listItem) {
+      const ordered = !listItem[1];
+      if (previous?.type === 'list' && previous.ordered === ordered && lines[index - 1]?.trim()) {
+        previous.items.push(listItem[3]);
+      } else {
+        blocks.push({ type: 'list', ordered, items: [listItem[3]] });
+      }
+    } else if (line.startsWith('>')) {
+      const text = line.replace(/^>\s?/, '');
+      if (previous?.type === 'quote' && lines[index - 1]?.startsWith('>')) previous.text += `\n${text}`;
+      else blocks.push({ type: 'quote', text });
+    } else if (previous?.type === 'paragraph' && lines[index - 1]?.trim()) {
+      previous.text += `\n${line}`;
+    } else if (previous?.type === 'list' && lines[index - 1]?.trim() && /^\s+/.test(line)) {
+      // Continuation of the last list item
+      previous.items[previous.items.length - 1] += ` ${line.trim()}`;
+    } else {
+      blocks.push({ type: 'paragraph', text: line });
+    }
+  }
+
+  return blocks;
+};
+
+const renderInline = (text: string): ReactNode[] => {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    const [whole, code, bold, italic, underscored, linkText, url] = match;
+    if (match.index > last) nodes.push(text.slice(last, match.index));
+    last = match.index + whole.length;
+
+    const key = nodes.length;
+    if (code) {
+      nodes.push(
+        <code key={key} className="px-1 rounded bg-gray-400/20 font-mono text-[0.9em]">
+          {code.slice(1, -1)}
+        </code>,
+      );
+    } else if (bold) {
+      nodes.push(<strong key={key}>{renderInline(bold)}</strong>);
+    } else if (italic || underscored) {
+      nodes.push(<em key={key}>{renderInline(italic || underscored)}</em>);
+    } else if (linkText && SAFE_URL.test(url)) {
+      nodes.push(
+        <a key={key} href={url} target="_blank" rel="noreferrer noopener" className="underline">
+          {renderInline(linkText)}
+        </a>,
+      );
+    } else {
+      nodes.push(whole);
+    }
+  }
+  if (last < text.length) nodes.push(text.slice(last));
+
+  // Line breaks inside a paragraph
+  return nodes.flatMap<ReactNode>((node, index) =>
+    typeof node === 'string'
+      ? node.split('\n').flatMap((part, line) => (line ? [<br key={`${index}-${line}`} />, part] : [part]))
+      : [node],
+  );
+};
+
+const headingClassNames = ['text-xl', 'text-lg', 'text-base', 'text-base', 'text-sm', 'text-sm'];
+
+type MarkdownProps = ComponentPropsWithoutRef<'div'> & {
+  children: string;
+};
+
+/**
+ * Renders the Markdown subset language models answer in. Builds React elements instead of HTML, so model output can
+ * never inject markup or scripts, and only links to web and mail addresses are followed.
+ */
+export const Markdown = ({ children, className, ...props }: MarkdownProps) => (
+  <div className={cn('flex flex-col gap-2 break-words', className)} {...props}>
+    {parseBlocks(children).map((block, index) => {
+      switch (block.type) {
+        case 'heading':
+          return (
+            <p
+              key={index}
+              role="heading"
+              aria-level={block.level}
+              className={cn('font-bold', headingClassNames[block.level - 1])}>
+              {renderInline(block.text)}
+            </p>
+          );
+        case 'paragraph':
+          return <p key={index}>{renderInline(block.text)}</p>;
+        case 'quote':
+          return (
+            <blockquote key={index} className="pl-2 border-l-4 border-gray-400/50 opacity-90">
+              {renderInline(block.text)}
+            </blockquote>
+          );
+        case 'code':
+          return (
+            <pre key={index} className="p-2 rounded bg-gray-400/20 overflow-x-auto font-mono text-xs">
+              <code>{block.text}</code>
+            </pre>
+          );
+        case 'list': {
+          const List = block.ordered ? 'ol' : 'ul';
+          return (
+            <List key={index} className={cn('pl-5', block.ordered ? 'list-decimal' : 'list-disc')}>
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}>{renderInline(item)}</li>
+              ))}
+            </List>
+          );
+        }
+      }
+    })}
+  </div>
+);
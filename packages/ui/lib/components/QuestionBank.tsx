@@ -0,0 +1,334 @@
+import { useState } from 'react';
+import type { ComponentPropsWithoutRef } from 'react';
+import { useStorage } from '@extension/shared';
+import type { QuizItem, QuizItemInput } from '@extension/storage';
+import { questionBankStorage, validateQuizItem } from '@extension/storage';
+import { t } from '@extension/i18n';
+import { cn } from '@/lib/utils';
+
+const buttonClassName = 'px-2 rounded border text-sm disabled:opacity-50';
+const inputClassName = 'w-full px-2 py-1 rounded border bg-transparent text-sm';
+
+/**
+ * A question as edited: choices of multiple choice questions and scenarios of true/false questions are kept apart, so
+ * switching the type does not lose them.
+ */
+type QuestionForm = {
+  type: QuizItem['type'];
+  topic: string;
+  question: string;
+  explanation: string;
+  choices: string[];
+  correct: number;
+  options: string;
+  scenarios: Array<{ text: string; answer: string }>;
+};
+
+const emptyForm = (topic = ''): QuestionForm => ({
+  type: 'multiple_choice',
+  topic,
+  question: '',
+  explanation: '',
+  choices: ['', ''],
+  correct: 0,
+  options: [t('quizTrue'), t('quizFalse')].join('\n'),
+  scenarios: [{ text: '', answer: '' }],
+});
+
+const formFromItem = (item: QuizItem): QuestionForm => {
+  const form = { ...emptyForm(item.topic), question: item.question, explanation: item.explanation ?? '' };
+
+  return item.type === 'multiple_choice'
+    ? {
+        ...form,
+        choices: item.choices.map(({ text }) => text),
+        correct: item.choices.findIndex(({ text }) => text === item.answers[0]),
+      }
+    : {
+        ...form,
+        type: 'true_false',
+        options: (item.choices[0]?.options ?? []).join('\n'),
+        scenarios: item.choices.map(({ text }, index) => ({ text, answer: item.answers[index] ?? '' })),
+      };
+};
+
+const optionsOf = (form: QuestionForm) =>
+  form.options
+    .split('\n')
+    .map(option => option.trim())
+    .filter(Boolean);
+
+const inputFromForm = (form: QuestionForm): QuizItemInput => {
+  const base = {
+    contentId: '',
+    title: '',
+    topic: form.topic.trim(),
+    question: form.question.trim(),
+    ...(form.explanation.trim() && { explanation: form.explanation.trim() }),
+  };
+
+  if (form.type === 'multiple_choice') {
+    const choices = form.choices.map(text => ({ text: text.trim(), options: [] }));
+    return { ...base, type: 'multiple_choice', choices, answers: [choices[form.correct]?.text ?? ''] };
+  }
+  const options = optionsOf(form);
+  return {
+    ...base,
+    type: 'true_false',
+    choices: form.scenarios.map(({ text }) => ({ text: text.trim(), options })),
+    answers: form.scenarios.map(({ answer }) => answer),
+  };
+};
+
+type QuestionEditorProps = {
+  item?: QuizItem;
+  topics: string[];
+  onDone: () => void;
+};
+
+const QuestionEditor = ({ item, topics, onDone }: QuestionEditorProps) => {
+  const [form, setForm] = useState(() => (item ? formFromItem(item) : emptyForm(topics[0])));
+  const input = inputFromForm(form);
+  const problems = validateQuizItem(input);
+  const options = optionsOf(form);
+
+  const update = (changes: Partial<QuestionForm>) => setForm({ ...form, ...changes });
+
+  const handleSave = async () => {
+    if (problems.length) return;
+    await questionBankStorage.save(input, item?.id);
+    onDone();
+  };
+
+  return (
+    <div className="flex flex-col gap-2 p-2 rounded border border-gray-400/50 text-left text-sm">
+      <div className="flex gap-2">
+        <label className="flex flex-col gap-1 flex-1">
+          {t('quizType')}
+          <select
+            className={inputClassName}
+            value={form.type}
+            onChange={event => update({ type: event.target.value as QuestionForm['type'] })}>
+            <option value="multiple_choice">{t('quizMultipleChoice')}</option>
+            <option value="true_false">{t('quizTrueFalse')}</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 flex-1">
+          {t('quizTopic')}
+          <input
+            className={inputClassName}
+            list="question-bank-topics"
+            value={form.topic}
+            onChange={event => update({ topic: event.target.value })}
+          />
+          <datalist id="question-bank-topics">
+            {topics.map(topic => (
+              <option key={topic} value={topic} />
+            ))}
+          </datalist>
+        </label>
+      </div>
+      <label className="flex flex-col gap-1">
+        {t('quizQuestion')}
+        <textarea
+          className={inputClassName}
+          rows={2}
+          value={form.question}
+          onChange={event => update({ question: event.target.value })}
+        />
+      </label>
+      {form.type === 'multiple_choice' ? (
+        <fieldset className="flex flex-col gap-1">
+          <legend>{t('quizChoices')}</legend>
+          {form.choices.map((choice, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="question-bank-correct"
+                aria-label={t('quizCorrect')}
+                checked={form.correct === index}
+                onChange={() => update({ correct: index })}
+              />
+              <input
+                className={inputClassName}
+                value={choice}
+                onChange={event =>
+                  update({ choices: form.choices.map((c, i) => (i === index ? event.target.value : c)) })
+                }
+              />
+              <button
+                className={buttonClassName}
+                disabled={form.choices.length <= 2}
+                onClick={() =>
+                  update({
+                    choices: form.choices.filter((_, i) => i !== index),
+                    correct: form.correct > index ? form.correct - 1 : form.correct === index ? 0 : form.correct,
+                  })
+                }>
+                {t('quizRemove')}
+              </button>
+            </div>
+          ))}
+          <button
+            className={cn(buttonClassName, 'self-start')}
+            onClick={() => update({ choices: [...form.choices, ''] })}>
+            {t('quizAddChoice')}
+          </button>
+        </fieldset>
+      ) : (
+        <>
+          <label className="flex flex-col gap-1">
+            {t('quizOptions')}
+            <textarea
+              className={inputClassName}
+              rows={2}
+              value={form.options}
+              onChange={event => update({ options: event.target.value })}
+            />
+          </label>
+          <fieldset className="flex flex-col gap-1">
+            <legend>{t('quizScenarios')}</legend>
+            {form.scenarios.map((scenario, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  className={inputClassName}
+                  value={scenario.text}
+                  onChange={event =>
+                    update({
+                      scenarios: form.scenarios.map((s, i) => (i === index ? { ...s, text: event.target.value } : s)),
+                    })
+                  }
+                />
+                <select
+                  className="px-2 py-1 rounded border bg-transparent"
+                  aria-label={t('quizCorrect')}
+                  value={scenario.answer}
+                  onChange={event =>
+                    update({
+                      scenarios: form.scenarios.map((s, i) => (i === index ? { ...s, answer: event.target.value } : s)),
+                    })
+                  }>
+                  <option value="" disabled />
+                  {options.map(option => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  className={buttonClassName}
+                  disabled={form.scenarios.length <= 1}
+                  onClick={() => update({ scenarios: form.scenarios.filter((_, i) => i !== index) })}>
+                  {t('quizRemove')}
+                </button>
+              </div>
+            ))}
+            <button
+              className={cn(buttonClassName, 'self-start')}
+              onClick={() => update({ scenarios: [...form.scenarios, { text: '', answer: '' }] })}>
+              {t('quizAddScenario')}
+            </button>
+          </fieldset>
+        </>
+      )}
+      <label className="flex flex-col gap-1">
+        {t('quizExplanation')}
+        <textarea
+          className={inputClassName}
+          rows={2}
+          value={form.explanation}
+          onChange={event => update({ explanation: event.target.value })}
+        />
+      </label>
+      {problems.length > 0 && (
+        <ul className="text-xs opacity-75 list-disc pl-5">
+          {problems.map(problem => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <button className={buttonClassName} disabled={problems.length > 0} onClick={handleSave}>
+          {t('quizSave')}
+        </button>
+        <button className={buttonClassName} onClick={onDone}>
+          {t('quizCancel')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+type QuestionBankProps = ComponentPropsWithoutRef<'section'>;
+
+/**
+ * The learner's own practice questions by topic, to write, edit and delete them.
+ */
+export const QuestionBank = ({ className, ...props }: QuestionBankProps) => {
+  const items = useStorage(questionBankStorage);
+  const [search, setSearch] = useState('');
+  // The id of the question edited, `new` for a new one
+  const [editing, setEditing] = useState<string | null>(null);
+
+  const topics = [...new Set(items.map(({ topic }) => topic))].sort((a, b) => a.localeCompare(b));
+  const needle = search.trim().toLowerCase();
+  const visible = items
+    .filter(
+      item =>
+        !needle ||
+        [item.topic, item.question, ...item.choices.map(({ text }) => text)].some(text =>
+          text.toLowerCase().includes(needle),
+        ),
+    )
+    .sort((a, b) => a.topic.localeCompare(b.topic) || a.createdAt - b.createdAt);
+
+  const handleDelete = (item: QuizItem) => {
+    if (confirm(t('quizDeleteConfirm'))) questionBankStorage.delete(item.id);
+  };
+
+  return (
+    <section className={cn('flex flex-col gap-2 text-left', className)} {...props}>
+      <div className="flex gap-2">
+        <input
+          type="search"
+          className={cn(inputClassName, 'flex-1')}
+          placeholder={t('quizSearch')}
+          value={search}
+          onChange={event => setSearch(event.target.value)}
+        />
+        <button className={buttonClassName} onClick={() => setEditing('new')}>
+          {t('quizNew')}
+        </button>
+      </div>
+      {editing === 'new' && <QuestionEditor topics={topics} onDone={() => setEditing(null)} />}
+      {visible.length === 0 ? (
+        <p className="text-sm opacity-75">{needle ? t('quizNoMatches') : t('quizNoQuestions')}</p>
+      ) : (
+        <ul className="divide-y divide-gray-400/30">
+          {visible.map(item =>
+            editing === item.id ? (
+              <li key={item.id} className="py-2">
+                <QuestionEditor item={item} topics={topics} onDone={() => setEditing(null)} />
+              </li>
+            ) : (
+              <li key={item.id} className="flex items-start gap-2 py-2">
+                <div className="flex-1 min-w-0">
+                  <div className="truncate">{item.question}</div>
+                  <div className="text-xs opacity-75">
+                    {item.topic} · {item.type === 'multiple_choice' ? t('quizMultipleChoice') : t('quizTrueFalse')}
+                  </div>
+                </div>
+                <button className={buttonClassName} onClick={() => setEditing(item.id)}>
+                  {t('quizEdit')}
+                </button>
+                <button className={buttonClassName} onClick={() => handleDelete(item)}>
+                  {t('quizDelete')}
+                </button>
+              </li>
+            ),
+          )}
+        </ul>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,252 @@
+import { useState } from 'react';
+import type { ComponentPropsWithoutRef } from 'react';
+import { useStorage } from '@extension/shared';
+import type { QuizQuestion } from '@extension/storage';
+import { buildQuiz, gradeResponse, questionBankStorage, topicResults } from '@extension/storage';
+import { t } from '@extension/i18n';
+import { cn } from '@/lib/utils';
+
+const DEFAULT_COUNT = 10;
+
+const buttonClassName = 'px-3 py-1 rounded border disabled:opacity-50';
+
+type Quiz = {
+  questions: QuizQuestion[];
+  responses: string[][];
+  /**
+   * Index of the current question, the number of questions once finished.
+   */
+  current: number;
+  checked: boolean;
+};
+
+const QuizSetup = ({ onStart }: { onStart: (questions: QuizQuestion[]) => void }) => {
+  const items = useStorage(questionBankStorage);
+  const [topics, setTopics] = useState<string[]>([]);
+  const [count, setCount] = useState(DEFAULT_COUNT);
+
+  const allTopics = [...new Set(items.map(({ topic }) => topic))].sort((a, b) => a.localeCompare(b));
+  const available = items.filter(({ topic }) => !topics.length || topics.includes(topic)).length;
+
+  if (items.length === 0) return <p className="text-sm opacity-75">{t('quizEmptyBank')}</p>;
+
+  const toggleTopic = (topic: string) =>
+    setTopics(selected =>
+      selected.includes(topic) ? selected.filter(other => other !== topic) : [...selected, topic],
+    );
+
+  return (
+    <div className="flex flex-col gap-3 text-left">
+      <fieldset className="flex flex-col gap-1">
+        <legend className="text-sm font-bold">{t('quizTopics')}</legend>
+        {allTopics.map(topic => (
+          <label key={topic} className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={topics.includes(topic)} onChange={() => toggleTopic(topic)} />
+            {topic} ({items.filter(item => item.topic === topic).length})
+          </label>
+        ))}
+      </fieldset>
+      <label className="flex items-center gap-2 text-sm">
+        {t('quizCount')}
+        <input
+          type="number"
+          className="w-20 px-2 py-1 rounded border bg-transparent"
+          min={1}
+          max={available}
+          value={Math.min(count, available)}
+          onChange={event => setCount(Math.max(1, Number(event.target.value) || 1))}
+        />
+        / {available}
+      </label>
+      <button
+        className={cn(buttonClassName, 'self-start')}
+        disabled={available === 0}
+        onClick={() => onStart(buildQuiz(items, { count, topics }))}>
+        {t('quizStart')}
+      </button>
+    </div>
+  );
+};
+
+const QuizResults = ({ quiz, onRestart }: { quiz: Quiz; onRestart: () => void }) => {
+  const results = topicResults(quiz.questions, quiz.responses);
+  const correct = results.reduce((sum, result) => sum + result.correct, 0);
+
+  return (
+    <div className="flex flex-col gap-3 text-left">
+      <p className="text-2xl font-bold">
+        {t('quizScore')}: {correct} / {quiz.questions.length} ({Math.round((correct / quiz.questions.length) * 100)}%)
+      </p>
+      <table className="w-full text-sm">
+        <caption className="text-left font-bold">{t('quizResultsByTopic')}</caption>
+        <tbody>
+          {results.map(result => (
+            <tr key={result.topic} className="border-t border-gray-400/30">
+              <td className="py-1 pr-2">{result.topic}</td>
+              <td className="py-1 pr-2 font-mono">
+                {result.correct} / {result.total}
+              </td>
+              <td className="py-1 w-1/3">
+                <div className="h-2 rounded bg-gray-400/30 overflow-hidden">
+                  <div className="h-full bg-green-500" style={{ width: `${(result.correct / result.total) * 100}%` }} />
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button className={cn(buttonClassName, 'self-start')} onClick={onRestart}>
+        {t('quizAgain')}
+      </button>
+    </div>
+  );
+};
+
+type QuizQuestionViewProps = {
+  question: QuizQuestion;
+  response: string[];
+  checked: boolean;
+  onChange: (response: string[]) => void;
+};
+
+const QuizQuestionView = ({ question, response, checked, onChange }: QuizQuestionViewProps) => {
+  const { item, order } = question;
+  const choices = order.map(index => item.choices[index]);
+
+  const choiceClassName = (isAnswer: boolean, isPicked: boolean) =>
+    cn(
+      'flex items-center gap-2 p-2 rounded border border-gray-400/50 text-left',
+      checked && isAnswer && 'border-green-500 bg-green-500/20',
+      checked && isPicked && !isAnswer && 'border-red-500 bg-red-500/20',
+    );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="font-bold whitespace-pre-wrap text-left">{item.question}</p>
+      {item.type === 'multiple_choice'
+        ? choices.map(choice => (
+            <label
+              key={choice.text}
+              className={choiceClassName(choice.text === item.answers[0], response[0] === choice.text)}>
+              <input
+                type="radio"
+                name={item.id}
+                disabled={checked}
+                checked={response[0] === choice.text}
+                onChange={() => onChange([choice.text])}
+              />
+              {choice.text}
+            </label>
+          ))
+        : choices.map((choice, position) => {
+            const answer = item.answers[order[position]];
+            return (
+              <div key={position} className={choiceClassName(response[position] === answer, true)}>
+                <span className="flex-1">{choice.text}</span>
+                <select
+                  className="px-2 py-1 rounded border bg-transparent"
+                  disabled={checked}
+                  value={response[position] ?? ''}
+                  onChange={event => {
+                    const next = choices.map((_, index) => response[index] ?? '');
+                    next[position] = event.target.value;
+                    onChange(next);
+                  }}>
+                  <option value="" disabled />
+                  {choice.options.map(option => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+                {checked && response[position] !== answer && <span className="text-sm">→ {answer}</span>}
+              </div>
+            );
+          })}
+    </div>
+  );
+};
+
+type QuizPracticeProps = ComponentPropsWithoutRef<'section'>;
+
+/**
+ * Practice quizzes drawn from the question bank, graded locally so they work offline and without the language model.
+ * Questions and their choices are shuffled, and the results are shown by topic.
+ */
+export const QuizPractice = ({ className, ...props }: QuizPracticeProps) => {
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+
+  const start = (questions: QuizQuestion[]) => setQuiz({ questions, responses: [], current: 0, checked: false });
+
+  if (!quiz) {
+    return (
+      <section className={cn('flex flex-col gap-2', className)} {...props}>
+        <QuizSetup onStart={start} />
+      </section>
+    );
+  }
+
+  const question = quiz.questions[quiz.current];
+  if (!question) {
+    return (
+      <section className={cn('flex flex-col gap-2', className)} {...props}>
+        <QuizResults quiz={quiz} onRestart={() => setQuiz(null)} />
+      </section>
+    );
+  }
+
+  const response = quiz.responses[quiz.current] ?? [];
+  const answered =
+    question.item.type === 'multiple_choice'
+      ? response.length === 1
+      : response.length === question.order.length && response.every(Boolean);
+  const correct = gradeResponse(question, response);
+  const isLast = quiz.current === quiz.questions.length - 1;
+
+  const setResponse = (next: string[]) => {
+    const responses = [...quiz.responses];
+    responses[quiz.current] = next;
+    setQuiz({ ...quiz, responses });
+  };
+
+  return (
+    <section className={cn('flex flex-col gap-3', className)} {...props}>
+      <div className="flex items-center gap-2 text-sm">
+        <span className="flex-1 text-left opacity-75">
+          {t('quizQuestion')} {quiz.current + 1} / {quiz.questions.length} · {question.item.topic}
+        </span>
+        <button className={buttonClassName} onClick={() => setQuiz(null)}>
+          {t('quizQuit')}
+        </button>
+      </div>
+      <QuizQuestionView question={question} response={response} checked={quiz.checked} onChange={setResponse} />
+      {quiz.checked && (
+        <div className="text-left">
+          <p className={cn('font-bold', correct ? 'text-green-600' : 'text-red-600')}>
+            {correct ? t('quizCorrect') : t('quizIncorrect')}
+          </p>
+          {!correct && question.item.type === 'multiple_choice' && (
+            <p className="text-sm">
+              {t('quizCorrectAnswer')}: {question.item.answers[0]}
+            </p>
+          )}
+          {question.item.explanation && <p className="text-sm whitespace-pre-wrap mt-1">{question.item.explanation}</p>}
+        </div>
+      )}
+      {quiz.checked ? (
+        <button
+          className={cn(buttonClassName, 'self-start')}
+          onClick={() => setQuiz({ ...quiz, current: quiz.current + 1, checked: false })}>
+          {isLast ? t('quizFinish') : t('quizNext')}
+        </button>
+      ) : (
+        <button
+          className={cn(buttonClassName, 'self-start')}
+          disabled={!answered}
+          onClick={() => setQuiz({ ...quiz, checked: true })}>
+          {t('quizCheck')}
+        </button>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,47 @@
+import { quotaStatusStorage, StorageEnum } from '@extension/storage';
+import { useStorage } from '@extension/shared';
+import { t } from '@extension/i18n';
+import type { ComponentPropsWithoutRef } from 'react';
+import { cn } from '@/lib/utils';
+
+// Translated while rendering, build tools load this module without the extension API
+const areaLabelKeys = {
+  [StorageEnum.Local]: 'quotaAreaLocal',
+  [StorageEnum.Sync]: 'quotaAreaSync',
+  [StorageEnum.Session]: 'quotaAreaSession',
+  [StorageEnum.Managed]: 'quotaAreaManaged',
+} as const satisfies Record<StorageEnum, Parameters<typeof t>[0]>;
+
+type QuotaWarningProps = ComponentPropsWithoutRef<'div'>;
+
+/**
+ * Shows a banner while a storage area is close to its quota. Renders nothing otherwise.
+ */
+export const QuotaWarning = ({ className, ...props }: QuotaWarningProps) => {
+  const status = useStorage(quotaStatusStorage);
+  const full = Object.entries(status).filter(([, usage]) => usage && usage.level !== 'ok');
+
+  if (full.length === 0) {
+    return null;
+  }
+
+  const isCritical = full.some(([, usage]) => usage?.level === 'critical');
+
+  return (
+    <div
+      role="alert"
+      className={cn(
+        'py-2 px-4 rounded text-sm',
+        isCritical ? 'bg-red-100 text-red-900' : 'bg-yellow-100 text-yellow-900',
+        className,
+      )}
+      {...props}>
+      {full.map(([area, usage]) => (
+        <p key={area}>
+          {t(areaLabelKeys[area as StorageEnum])}: {t('quotaPercentFull', String(Math.round(usage!.ratio * 100)))}{' '}
+          {t(usage!.level === 'critical' ? 'quotaCriticalHint' : 'quotaWarningHint')}
+        </p>
+      ))}
+    </div>
+  );
+};
@@ -1 +1,6 @@
+export * from './LlmQueueIndicator';
+export * from './Markdown';
+export * from './QuestionBank';
+export * from './QuizPractice';
+export * from './QuotaWarning';
 export * from './ToggleButton';
@@ -1,4 +1,4 @@
-import { createReadStream, createWriteStream, existsSync, mkdirSync } from 'node:fs';
+import { createReadStream, createWriteStream, existsSync, mkdirSync, readFileSync } from 'node:fs';
 import { posix, resolve } from 'node:path';
 import fg from 'fast-glob';
 import { AsyncZipDeflate, Zip } from 'fflate';
@@ -20,6 +20,21 @@ function logPackageSize(size: number, startTime: number): void {
   console.log(`Zip Package size: ${toMB(size).toFixed(2)} MB in ${Date.now() - startTime}ms`);
 }
 
+// Shapes of provider API keys, e.g. `sk-...` of OpenAI and `sk-ant-...` of Anthropic
+const API_KEY_PATTERN = /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/;
+
+// Fails when a bundle contains something looking like an API key, keys must be entered at runtime
+function assertNoApiKeys(distDirectory: string, files: string[]): void {
+  const leaking = files.filter(
+    file =>
+      /\.(js|mjs|json|html)$/.test(file) && API_KEY_PATTERN.test(readFileSync(resolve(distDirectory, file), 'utf8')),
+  );
+
+  if (leaking.length) {
+    throw new Error(`Refusing to zip, these files contain what looks like an API key: ${leaking.join(', ')}`);
+  }
+}
+
 // Handles file streaming and zipping
 function streamFileToZip(
   absPath: string,
@@ -69,6 +84,8 @@ export const zipBundle = async (
     },
   );
 
+  assertNoApiKeys(distDirectory, fileList);
+
   return new Promise<void>((pResolve, pReject) => {
     let aborted = false;
     let totalSize = 0;
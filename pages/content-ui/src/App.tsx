@@ -1,14 +1,40 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { sendMessage, streamMessage } from '@extension/messaging';
+import { renderPrompt } from '@extension/prompts';
+import { Markdown } from '@extension/ui';
 import { useMessageHandler } from './hooks/useMessageHandler';
+import { useStudyMode } from './hooks/useStudyMode';
 import {
   processCurrentContent,
   debugPageContent,
   hasTryAgainButton,
   clickNextButton,
   isExamSubmissionDialogPresent,
-  clickSubmitExamButton,
+  isGradedContent,
+  detectContentType,
+  extractTrueFalseQuestionData,
+  extractMultipleChoiceQuestionData,
+  getCheckedResult,
+  hasContentBeenProcessed,
+  markContentAsProcessed,
 } from './utils/contentHandler';
 import type { ContentType, QuestionData, AnswerData } from './utils/contentHandler';
+import { studyModeStorage } from '@extension/storage';
+import type { LlmQueueStatus } from '@extension/storage';
+
+// The queue is in the session storage, which content scripts may not read, so it is polled from the background
+const QUEUE_POLL_INTERVAL = 1000;
+
+const formatQueueStatus = (status: LlmQueueStatus) => {
+  switch (status.state) {
+    case 'queued':
+      return status.ahead ? `Queued (${status.ahead} ahead)` : 'Queued (next)';
+    case 'retrying':
+      return `Rate limited, retrying in ${Math.max(1, Math.ceil((status.retryAt - Date.now()) / 1000))}s`;
+    case 'running':
+      return null;
+  }
+};
 
 export default function App() {
   const { connectionStatus, response } = useMessageHandler();
@@ -21,12 +47,37 @@ export default function App() {
   const [debugMode, setDebugMode] = useState(true);
   const [aiStatus, setAiStatus] = useState<'idle' | 'processing' | 'success' | 'error'>('idle');
   const [aiError, setAiError] = useState<string | null>(null);
+  const [queueStatus, setQueueStatus] = useState<LlmQueueStatus | null>(null);
   const [processedQuestions, setProcessedQuestions] = useState<number>(0);
   const [isProcessingQuestion, setIsProcessingQuestion] = useState(false);
   const [debugInfo, setDebugInfo] = useState<string>('');
   const [needsUserIntervention, setNeedsUserIntervention] = useState<boolean>(false);
   const [examSubmissionDetected, setExamSubmissionDetected] = useState<boolean>(false);
   const [position, setPosition] = useState({ x: 50, y: 50 });
+  const [gradedContent, setGradedContent] = useState(isGradedContent);
+  const [studyHint, setStudyHint] = useState<string | null>(null);
+  const explainAbortRef = useRef<AbortController | null>(null);
+  const studyModeEnabled = useStudyMode();
+  // Graded work is never answered, whatever the learner chose
+  const studyMode = studyModeEnabled || gradedContent;
+
+  // Leaving the page stops the explanation
+  useEffect(() => () => explainAbortRef.current?.abort(), []);
+
+  // Follow the queue while a question is answered
+  useEffect(() => {
+    // Explanations in study mode report the queue in their chunks
+    if (aiStatus !== 'processing' || studyMode) return;
+
+    const update = () =>
+      sendMessage('getLlmQueue')
+        .then(({ jobs }) => setQueueStatus(jobs.find(({ label }) => label === 'answerQuestion')?.status ?? null))
+        .catch(error => console.warn('Reading the LLM queue failed', error));
+    update();
+    const timer = setInterval(update, QUEUE_POLL_INTERVAL);
+
+    return () => clearInterval(timer);
+  }, [aiStatus, studyMode]);
 
   // Remove the draggable functionality for now
   useEffect(() => {
@@ -92,20 +143,16 @@ export default function App() {
             debugPageContent();
           }
 
-          // Check for exam submission dialog
+          // Check for exam submission dialog, submitting is left to the learner
           const submissionDialogPresent = isExamSubmissionDialogPresent();
-          if (submissionDialogPresent) {
-            setExamSubmissionDetected(true);
-            console.log('Exam submission dialog detected');
+          if (submissionDialogPresent) console.log('Exam submission dialog detected');
+          setExamSubmissionDetected(submissionDialogPresent);
 
-            // Automatically click the Submit Exam button
-            const clicked = await clickSubmitExamButton();
-            if (clicked) {
-              console.log('Successfully clicked Submit Exam button');
-              setDebugInfo(prev => prev + '\n\nEXAM SUBMISSION:\nClicked "Submit Exam" button');
-            }
-          } else {
-            setExamSubmissionDetected(false);
+          const graded = isGradedContent();
+          setGradedContent(graded);
+          if (studyModeEnabled || graded) {
+            await studyCurrentContent(graded);
+            return;
           }
 
           // Check if there's a Try Again button before processing
@@ -176,7 +223,95 @@ export default function App() {
     return () => {
       if (contentCheckInterval) clearInterval(contentCheckInterval);
     };
-  }, [examStarted, processingContent, debugMode, isProcessingQuestion, needsUserIntervention]);
+  }, [examStarted, processingContent, debugMode, isProcessingQuestion, needsUserIntervention, studyModeEnabled]);
+
+  /**
+   * Study mode: follows the page without touching it. Practice questions are explained once the learner checked their
+   * own answer, graded work gets no help at all.
+   */
+  const studyCurrentContent = async (graded: boolean) => {
+    const detectedContentType = detectContentType();
+    setContentType(detectedContentType);
+
+    if (graded) {
+      explainAbortRef.current?.abort();
+      setStudyHint(null);
+      setCurrentQA(null);
+      setAiStatus('idle');
+      return;
+    }
+
+    const questionData =
+      detectedContentType === 'true_false'
+        ? extractTrueFalseQuestionData()
+        : detectedContentType === 'multiple_choice'
+          ? extractMultipleChoiceQuestionData()
+          : null;
+    if (!questionData) {
+      setStudyHint(null);
+      return;
+    }
+
+    const explanationId = `explanation::${questionData.contentId}`;
+    if (hasContentBeenProcessed(explanationId)) return;
+
+    const result = getCheckedResult();
+    if (!result) {
+      setStudyHint('Answer the question and check your answer on the page to see an explanation.');
+      setCurrentQA({ question: `${questionData.title}\n${questionData.question}` });
+      return;
+    }
+
+    markContentAsProcessed(explanationId);
+    setStudyHint(null);
+    await handleExplanation(questionData, result);
+  };
+
+  // Streams the explanation of a checked practice question into the panel
+  const handleExplanation = async (questionData: QuestionData, result: 'correct' | 'incorrect') => {
+    explainAbortRef.current?.abort();
+    const controller = new AbortController();
+    explainAbortRef.current = controller;
+
+    const question = `${questionData.title}\n${questionData.question}`;
+    setCurrentQA({ question });
+    setAiStatus('processing');
+    setAiError(null);
+
+    try {
+      const text = await renderPrompt('explainAnswer', {
+        title: questionData.title,
+        question: questionData.question,
+        choices: questionData.choices.map(choice => choice.text),
+        options: questionData.type === 'true_false' ? (questionData.choices[0]?.options ?? []) : [],
+        result,
+      });
+
+      let streamed = '';
+      await streamMessage(
+        'streamPrompt',
+        { text },
+        {
+          onChunk: chunk => {
+            setQueueStatus(chunk.queue ?? null);
+            if (!chunk.text) return;
+            streamed += chunk.text;
+            setCurrentQA({ question, answer: streamed });
+          },
+          signal: controller.signal,
+        },
+      );
+      setAiStatus('success');
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Explaining the question failed:', error);
+      setAiStatus('error');
+      setAiError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setQueueStatus(null);
+      if (explainAbortRef.current === controller) explainAbortRef.current = null;
+    }
+  };
 
   // Function to handle OpenAI processing via background script
   const handleOpenAIProcessing = async (questionData: QuestionData): Promise<AnswerData> => {
@@ -208,43 +343,29 @@ Question: ${questionData.question}
         answer: undefined,
       });
 
-      // Format the question for OpenAI dynamically based on the actual content
+      // Format the question for OpenAI with the prompt templates, which can be edited in the options
       let prompt = '';
+      let choices: string[] = [];
+      let count = 0;
 
       if (questionData.type === 'true_false') {
         // Get the actual options from the first choice (assuming all choices have the same options)
-        const optionExamples = questionData.choices[0]?.options || [];
-
-        prompt = `
-You are a real estate exam expert. Answer the following true/false questions with precision:
-
-Title: ${questionData.title}
-Question: ${questionData.question}
-
-For each of the following scenarios, indicate the correct answer:
-${questionData.choices.map((choice, index) => `${index + 1}. ${choice.text}`).join('\n')}
-
-Options for each scenario:
-${optionExamples.map(option => `- ${option}`).join('\n')}
-
-IMPORTANT: Respond ONLY with a numbered list matching the scenarios, with EXACTLY the text of the correct option for each.
-Format your answer EXACTLY as:
-${questionData.choices.map((_, index) => `${index + 1}. [EXACT OPTION TEXT]`).join('\n')}
-
-No explanation or additional text.`;
+        choices = questionData.choices[0]?.options || [];
+        count = questionData.choices.length;
+        prompt = await renderPrompt('trueFalse', {
+          title: questionData.title,
+          question: questionData.question,
+          scenarios: questionData.choices.map(choice => choice.text),
+          options: choices,
+        });
       } else if (questionData.type === 'multiple_choice' || questionData.type === 'unit_exam') {
-        prompt = `
-You are a real estate exam expert. Answer the following multiple choice question with precision:
-
-${questionData.type === 'unit_exam' ? '' : 'Title: ' + questionData.title + '\n'}
-Question: ${questionData.question}
-
-Choose the best answer from these options:
-${questionData.choices.map((choice, index) => `${index + 1}. ${choice.text}`).join('\n')}
-
-IMPORTANT: Respond ONLY with the EXACT text of the correct option.
-Do not include numbers, explanations, or any additional text.
-Just provide the exact text of the correct answer.`;
+        choices = questionData.choices.map(choice => choice.text);
+        count = 1;
+        prompt = await renderPrompt('multipleChoice', {
+          title: questionData.type === 'unit_exam' ? '' : questionData.title,
+          question: questionData.question,
+          choices,
+        });
       }
 
       console.log('Sending to OpenAI:', prompt);
@@ -252,23 +373,14 @@ Just provide the exact text of the correct answer.`;
       // Increment processed questions counter
       setProcessedQuestions(prev => prev + 1);
 
-      // Send message to background script
-      const result = await sendMessageToBackground(prompt);
-
-      if (result.status === 'error') {
-        throw new Error(result.error || 'Unknown error from background script');
-      }
+      // The background validates that every answer is one of the choices, rejects with a MessagingError
+      const { answers } = await sendMessage('answerQuestion', { prompt, choices, count }, { timeout: 120_000 });
 
-      // Parse the response
-      const aiResponse = result.aiResponse || '';
       setCurrentQA(prev => ({
         question: prev?.question || '',
-        answer: aiResponse,
+        answer: answers.join('\n'),
       }));
 
-      // Extract answers from the response
-      const answers = parseOpenAIResponse(aiResponse, questionData.type);
-
       // Update debug info with the answers
       const debugAnswerInfo = `
 QUESTION DATA:
@@ -296,6 +408,7 @@ ${answers.map((answer, i) => `${i + 1}. ${answer}`).join('\n')}
       setAiError(error instanceof Error ? error.message : 'Unknown error');
       return { answers: [] };
     } finally {
+      setQueueStatus(null);
       // Reset processing flag after a delay to prevent immediate reprocessing
       setTimeout(() => {
         setIsProcessingQuestion(false);
@@ -303,48 +416,8 @@ ${answers.map((answer, i) => `${i + 1}. ${answer}`).join('\n')}
     }
   };
 
-  // Function to send message to background script
-  const sendMessageToBackground = (
-    text: string,
-  ): Promise<{
-    status: string;
-    aiResponse?: string;
-    error?: string;
-  }> => {
-    return new Promise(resolve => {
-      chrome.runtime.sendMessage({ type: 'SEND_MESSAGE', text }, response => {
-        resolve(response);
-      });
-    });
-  };
-
-  // Function to parse OpenAI response based on question type
-  const parseOpenAIResponse = (response: string, questionType: ContentType): string[] => {
-    if (questionType === 'true_false') {
-      // Extract lines like "1. Law is applicable"
-      const lines = response.split('\n').filter(line => /^\d+\./.test(line.trim()));
-
-      // Extract just the answer part (e.g., "Law is applicable")
-      return lines.map(line => {
-        const match = line.match(/^\d+\.\s*(.*)/);
-        return match ? match[1].trim() : '';
-      });
-    } else if (questionType === 'multiple_choice' || questionType === 'unit_exam') {
-      // For multiple choice, we expect just the text of the answer
-      // Clean up any numbering or extra text
-      const cleanResponse = response
-        .trim()
-        .replace(/^\d+\.\s*/, '') // Remove leading numbers like "1. "
-        .replace(/^-\s*/, ''); // Remove leading dash like "- "
-
-      return [cleanResponse];
-    }
-
-    return [];
-  };
-
   const handleStartExam = async () => {
-    console.log('Starting exam automation...');
+    console.log(studyMode ? 'Starting study mode...' : 'Starting exam automation...');
     setExamStarted(true);
     setShowInstructions(false);
     setAiStatus('idle');
@@ -362,6 +435,13 @@ ${answers.map((answer, i) => `${i + 1}. ${answer}`).join('\n')}
         debugPageContent();
       }
 
+      const graded = isGradedContent();
+      setGradedContent(graded);
+      if (studyModeEnabled || graded) {
+        await studyCurrentContent(graded);
+        return;
+      }
+
       // Process the current content with the same filtering logic
       // eslint-disable-next-line prettier/prettier
       const detectedContentType = await processCurrentContent(questionData => {
@@ -420,6 +500,11 @@ ${answers.map((answer, i) => `${i + 1}. ${answer}`).join('\n')}
         <div className="bg-blue-50 p-4 rounded-lg border border-blue-200 ">
           <h2 className="text-lg font-semibold text-blue-800 mb-2">Instructions</h2>
           <p className="text-blue-700">Go to your lesson page and click "Let's Go" to start.</p>
+          {studyMode && (
+            <p className="text-sm text-blue-700 mt-2">
+              Study mode is on: answer each question yourself, then check it on the page to see an explanation.
+            </p>
+          )}
         </div>
       )}
 
@@ -443,10 +528,16 @@ ${answers.map((answer, i) => `${i + 1}. ${answer}`).join('\n')}
                 ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
                 : 'bg-green-600 hover:bg-green-700 text-white'
             } font-semibold rounded-lg transition-colors duration-200 text-lg shadow-sm`}>
-            {examStarted ? 'Automating' : "Let's Go"}
+            {examStarted ? (studyMode ? 'Studying' : 'Automating') : "Let's Go"}
           </button>
         </div>
 
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={studyMode} disabled={gradedContent} onChange={studyModeStorage.toggle} />
+          Study mode
+          {gradedContent && <span className="text-xs text-gray-500">(locked on graded exams)</span>}
+        </label>
+
         {/* Secondary buttons in their own container - only show when exam has started */}
         {examStarted && (
           <div className="flex gap-2">
@@ -498,6 +589,9 @@ ${answers.map((answer, i) => `${i + 1}. ${answer}`).join('\n')}
                 ? 'AI Response Received'
                 : 'AI Error'}
           </h3>
+          {aiStatus === 'processing' && queueStatus && formatQueueStatus(queueStatus) && (
+            <p className="text-xs text-yellow-700">{formatQueueStatus(queueStatus)}</p>
+          )}
           {aiStatus === 'error' && aiError && <p className="text-xs text-red-600">{aiError}</p>}
         </div>
       )}
@@ -509,6 +603,21 @@ ${answers.map((answer, i) => `${i + 1}. ${answer}`).join('\n')}
         </div>
       )}
 
+      {examStarted && gradedContent && (
+        <div className="bg-amber-50 p-3 rounded-lg border border-amber-200">
+          <h3 className="text-sm font-semibold text-amber-800 mb-1">Graded Exam</h3>
+          <p className="text-sm text-amber-700">
+            This exam is graded, so study mode is locked on and no help is given. Good luck!
+          </p>
+        </div>
+      )}
+
+      {examStarted && studyMode && studyHint && (
+        <div className="bg-blue-50 p-3 rounded-lg border border-blue-200">
+          <p className="text-sm text-blue-700">{studyHint}</p>
+        </div>
+      )}
+
       {currentQA && (
         <div className="bg-white p-4 rounded-lg border border-gray-200">
           <div className="mb-2">
@@ -517,14 +626,20 @@ ${answers.map((answer, i) => `${i + 1}. ${answer}`).join('\n')}
               {currentQA.question.length > 400 ? currentQA.question.substring(0, 400) + '...' : currentQA.question}
             </p>
           </div>
-          {currentQA.answer && (
-            <div>
-              <h3 className="text-sm font-semibold text-gray-600 mb-1">Answer:</h3>
-              <p className="text-sm text-gray-800 whitespace-pre-wrap">
-                {currentQA.answer.length > 400 ? currentQA.answer.substring(0, 400) + '...' : currentQA.answer}
-              </p>
-            </div>
-          )}
+          {currentQA.answer &&
+            (studyMode ? (
+              <div className="overflow-auto max-h-[300px]">
+                <h3 className="text-sm font-semibold text-gray-600 mb-1">Explanation:</h3>
+                <Markdown className="text-sm text-gray-800">{currentQA.answer}</Markdown>
+              </div>
+            ) : (
+              <div>
+                <h3 className="text-sm font-semibold text-gray-600 mb-1">Answer:</h3>
+                <p className="text-sm text-gray-800 whitespace-pre-wrap">
+                  {currentQA.answer.length > 400 ? currentQA.answer.substring(0, 400) + '...' : currentQA.answer}
+                </p>
+              </div>
+            ))}
         </div>
       )}
 
@@ -563,7 +678,7 @@ ${answers.map((answer, i) => `${i + 1}. ${answer}`).join('\n')}
         <div className="bg-green-100 p-4 rounded-lg border border-green-300 mt-4">
           <h3 className="text-lg font-semibold text-green-800 mb-2">Exam Submission</h3>
           <p className="text-sm text-green-700 mb-3">
-            Exam submission dialog detected. The "Submit Exam" button will be clicked automatically.
+            Exam submission dialog detected. Review your answers and click "Submit Exam" when you are ready.
           </p>
         </div>
       )}
@@ -1,61 +1,67 @@
-import { useState, useEffect } from 'react';
-import { chromeMessageService } from '../services/chromeMessageService';
+import { useState, useEffect, useRef } from 'react';
+import { sendMessage, streamMessage } from '@extension/messaging';
 
 export function useMessageHandler() {
   const [connectionStatus, setConnectionStatus] = useState<string>('Checking connection...');
   const [message, setMessage] = useState<string>('');
   const [response, setResponse] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    chromeMessageService.checkConnection(response => {
-      if (chrome.runtime.lastError) {
-        setConnectionStatus('Error: Not connected to background script');
-      } else {
-        setConnectionStatus(`Connected to background script (${response.timestamp})`);
-      }
-    });
+    sendMessage('checkConnection', undefined, { timeout: 5000 })
+      .then(({ timestamp }) => setConnectionStatus(`Connected to background script (${timestamp})`))
+      .catch(() => setConnectionStatus('Error: Not connected to background script'));
   }, []);
 
   const clearResponse = () => {
     setResponse('');
   };
 
-  const sendMessage = (messageToSend?: string) => {
+  const sendAIMessage = async (messageToSend?: string) => {
     const messageText = messageToSend || message;
-    console.log('sendMessage called with message:', messageText);
 
-    return new Promise((resolve, reject) => {
-      if (!messageText.trim()) {
-        console.log('Message is empty, returning early');
-        reject(new Error('Message is empty'));
-        return;
-      }
+    if (!messageText.trim()) {
+      throw new Error('Message is empty');
+    }
 
-      console.log('Setting loading state and clearing response');
-      setIsLoading(true);
-      setResponse('');
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setIsLoading(true);
+    setResponse('');
 
-      console.log('Sending message to chrome service:', messageText);
-      chromeMessageService.sendAIMessage(messageText, response => {
-        console.log('Received response from chrome service:', response);
+    try {
+      let streamed = '';
+      const { text } = await streamMessage(
+        'streamPrompt',
+        { text: messageText },
+        {
+          onChunk: chunk => {
+            streamed += chunk.text;
+            setResponse(`AI Response: "${streamed}"`);
+          },
+          signal: controller.signal,
+        },
+      );
+      setResponse(`AI Response: "${text}"`);
+
+      return text;
+    } catch (error) {
+      console.error('Sending message failed:', error);
+      setResponse(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
         setIsLoading(false);
+      }
+    }
+  };
 
-        if (chrome.runtime.lastError) {
-          console.error('Chrome runtime error:', chrome.runtime.lastError);
-          setResponse('Error sending message');
-          reject(chrome.runtime.lastError);
-        } else if (response.status === 'error') {
-          console.error('Service error:', response.error);
-          setResponse(`Error: ${response.error}`);
-          reject(new Error(response.error));
-        } else {
-          console.log('Success! Setting AI response');
-          setResponse(`AI Response: "${response.aiResponse}"`);
-          resolve(response);
-        }
-      });
-    });
+  const cancel = () => {
+    abortRef.current?.abort();
   };
 
   return {
@@ -64,7 +70,8 @@ export function useMessageHandler() {
     setMessage,
     response,
     isLoading,
-    sendMessage,
+    sendMessage: sendAIMessage,
+    cancel,
     clearResponse,
   };
 }
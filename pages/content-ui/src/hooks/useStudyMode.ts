@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { studyModeStorage } from '@extension/storage';
+
+/**
+ * Whether study mode is enabled in {@link studyModeStorage}. The content UI renders without suspense, so the value is
+ * read once and followed, assuming study mode until it is loaded.
+ */
+export function useStudyMode() {
+  const [enabled, setEnabled] = useState(true);
+
+  useEffect(() => {
+    const update = () => setEnabled(studyModeStorage.getSnapshot() ?? true);
+    studyModeStorage.get().then(setEnabled, error => console.error('Reading study mode failed:', error));
+
+    return studyModeStorage.subscribe(update);
+  }, []);
+
+  return enabled;
+}
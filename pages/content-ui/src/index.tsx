@@ -1,5 +1,7 @@
 import { createRoot } from 'react-dom/client';
+import { handleMessages } from '@extension/messaging';
 import App from '@src/App';
+import { captureLessonNote, detectContentType, extractLessonContext } from '@src/utils/contentHandler';
 // @ts-expect-error Because file doesn't exist before build
 import tailwindcssOutput from '../dist/tailwind-output.css?inline';
 
@@ -32,3 +34,18 @@ if (navigator.userAgent.includes('Firefox')) {
 
 shadowRoot.appendChild(rootIntoShadow);
 createRoot(rootIntoShadow).render(<App />);
+
+// Lets the tutor chat in the side panel read the lesson of this tab
+handleMessages({
+  getLessonContext: () => extractLessonContext(),
+});
+
+// Saves every lesson page the learner reads to the lesson notes, once the course app finished rendering it
+const NOTE_CAPTURE_DELAY = 1000;
+let noteCaptureTimer: ReturnType<typeof setTimeout> | undefined;
+new MutationObserver(() => {
+  clearTimeout(noteCaptureTimer);
+  noteCaptureTimer = setTimeout(() => {
+    if (detectContentType() === 'text_content') captureLessonNote();
+  }, NOTE_CAPTURE_DELAY);
+}).observe(document.body, { childList: true, subtree: true });
@@ -2,24 +2,27 @@
  * Content detection and interaction utilities
  */
 
-/**
- * Content types that can be detected
- */
-export type ContentType = 'true_false' | 'multiple_choice' | 'unknown' | 'text_content' | 'unit_exam';
+import { sendMessage } from '@extension/messaging';
+import { sanitizeNoteElements } from '@extension/shared';
+import type {
+  ContentType,
+  LessonContext,
+  LessonNote,
+  QuestionChoice,
+  QuestionData as BaseQuestionData,
+} from '@extension/storage';
+
+export type { ContentType };
 
 /**
- * Interface for question data
+ * Interface for question data, shared with the practice question bank
  */
-export interface QuestionData {
-  type: ContentType;
-  contentId: string;
-  title: string;
-  question: string;
-  choices: Array<{
-    text: string;
-    options: string[];
-    optionElements?: HTMLElement[]; // Store DOM elements for direct interaction
-  }>;
+export interface QuestionData extends BaseQuestionData {
+  choices: Array<
+    QuestionChoice & {
+      optionElements?: HTMLElement[]; // Store DOM elements for direct interaction
+    }
+  >;
 }
 
 /**
@@ -62,6 +65,15 @@ export const markContentAsProcessed = (contentId: string): void => {
   console.log(`Total processed content: ${processedContentIds.size}`);
 };
 
+/**
+ * Unmarks content as processed, so it is handled again, e.g. after handling it failed
+ * @param contentId The content ID to unmark
+ */
+export const unmarkContentAsProcessed = (contentId: string): void => {
+  processedContentIds.delete(contentId);
+  console.log(`Unmarked content as processed: ${contentId}`);
+};
+
 /**
  * Detects the type of content currently displayed
  * @returns The detected content type
@@ -841,22 +853,76 @@ export const clickNextButton = async (): Promise<boolean> => {
 };
 
 /**
- * Handles text content by simply clicking the Next button
+ * Reads the first non-empty text of a list of selectors
+ * @param selectors Selectors in order of preference
+ * @returns The text, or an empty string if none is found
+ */
+const findText = (selectors: string[]): string => {
+  for (const selector of selectors) {
+    const text = document.querySelector(selector)?.textContent?.trim();
+    if (text) return text;
+  }
+  return '';
+};
+
+/**
+ * Extracts the lesson on a text content page as a lesson note
+ * @returns The note, or null if the page shows no lesson text
+ */
+export const extractLessonNote = (): Omit<LessonNote, 'capturedAt'> | null => {
+  const elements = Array.from(document.querySelectorAll('.content-text'));
+  const text = elements
+    .map(element => (element as HTMLElement).innerText?.trim() || element.textContent?.trim() || '')
+    .filter(Boolean)
+    .join('\n\n');
+  if (!text) return null;
+
+  const title = findText(['.content-title']);
+
+  return {
+    // Same title and beginning of the text on every visit, a revised introduction makes a new note
+    id: generateContentId(title, text.slice(0, 200)),
+    course: findText(['.course-title', '.course-name', '[class*="course-title"]']) || document.title.trim(),
+    unit: findText(['.unit-title', '.unit-name', '[class*="unit-title"]']),
+    title,
+    html: sanitizeNoteElements(elements, location.href),
+    text,
+    url: location.href,
+  };
+};
+
+/**
+ * Saves the lesson on the current text content page to the lesson notes, once per lesson and page load
+ * @returns Promise that resolves when the note is saved or skipped
+ */
+export const captureLessonNote = async (): Promise<void> => {
+  const note = extractLessonNote();
+  if (!note) return;
+
+  const noteId = `note::${note.id}`;
+  if (hasContentBeenProcessed(noteId)) return;
+  // Marked while saving, so changes of the page meanwhile do not send it again
+  markContentAsProcessed(noteId);
+
+  try {
+    const { saved } = await sendMessage('saveLessonNote', note);
+    console.log(saved ? `Saved lesson note: ${note.title}` : `Lesson note already saved: ${note.title}`);
+  } catch (error) {
+    // E.g. while the service worker restarts, the next change of the page tries again
+    unmarkContentAsProcessed(noteId);
+    console.error('Error saving lesson note:', error);
+  }
+};
+
+/**
+ * Handles text content by saving it to the lesson notes and clicking the Next button
  * @returns Promise that resolves when the action is complete
  */
 export const handleTextContent = async (): Promise<void> => {
   console.log('Processing text content');
 
   try {
-    // Try to extract title and content for logging
-    const titleElement = document.querySelector('.content-title');
-    const contentElement = document.querySelector('.content-text');
-
-    const title = titleElement ? titleElement.textContent?.trim() || '' : '';
-    const content = contentElement ? contentElement.textContent?.trim() || '' : '';
-
-    console.log('Text content title:', title);
-    console.log('Text content (truncated):', content.substring(0, 100) + (content.length > 100 ? '...' : ''));
+    await captureLessonNote();
 
     // Simply click the Next button
     const clicked = await clickNextButton();
@@ -921,118 +987,6 @@ export const extractUnitExamQuestionData = (): QuestionData | null => {
   }
 };
 
-/**
- * Selects an answer for a unit exam question
- * @param questionData The question data
- * @param answer The answer to select
- * @returns Promise that resolves when the answer is selected
- */
-export const selectUnitExamAnswer = async (questionData: QuestionData, answer: string): Promise<void> => {
-  if (questionData.type !== 'unit_exam') {
-    console.warn('Question data is not for a unit exam question');
-    return;
-  }
-
-  console.log('Selecting unit exam answer:', answer);
-
-  let answerSelected = false;
-
-  // Try exact match first
-  for (const choice of questionData.choices) {
-    if (choice.text === answer && choice.optionElements && choice.optionElements.length > 0) {
-      console.log(`Found exact match for "${answer}"`);
-      choice.optionElements[0].click();
-      answerSelected = true;
-      break;
-    }
-  }
-
-  // If no exact match, try case-insensitive match
-  if (!answerSelected) {
-    const lowerAnswer = answer.toLowerCase();
-    for (const choice of questionData.choices) {
-      if (choice.text.toLowerCase() === lowerAnswer && choice.optionElements && choice.optionElements.length > 0) {
-        console.log(`Found case-insensitive match for "${answer}"`);
-        choice.optionElements[0].click();
-        answerSelected = true;
-        break;
-      }
-    }
-  }
-
-  // If still no match, try partial match (answer contains the choice text or vice versa)
-  if (!answerSelected) {
-    for (const choice of questionData.choices) {
-      if (
-        (choice.text.includes(answer) || answer.includes(choice.text)) &&
-        choice.optionElements &&
-        choice.optionElements.length > 0
-      ) {
-        console.log(`Found partial match for "${answer}" with "${choice.text}"`);
-        choice.optionElements[0].click();
-        answerSelected = true;
-        break;
-      }
-    }
-  }
-
-  if (!answerSelected) {
-    console.warn(`Could not find a match for answer: "${answer}"`);
-    console.log(
-      'Available choices:',
-      questionData.choices.map(c => c.text),
-    );
-  }
-
-  // Wait a moment for the UI to update
-  await new Promise(resolve => setTimeout(resolve, 500));
-};
-
-/**
- * Handles unit exam content by extracting the question, sending it to OpenAI, and selecting an answer
- * @param callback Function to call with the extracted question data
- * @returns Promise that resolves when the action is complete
- */
-export const handleUnitExamContent = async (
-  callback: (questionData: QuestionData) => Promise<AnswerData>,
-): Promise<void> => {
-  console.log('Processing unit exam question');
-
-  try {
-    // Extract question data
-    const questionData = extractUnitExamQuestionData();
-    if (!questionData) {
-      console.warn('Failed to extract unit exam question data');
-      return;
-    }
-
-    console.log('Processing unit exam question data:', questionData);
-
-    // Send to callback (which will handle OpenAI processing)
-    const answerData = await callback(questionData);
-    console.log('Received answer data:', answerData);
-
-    if (answerData.answers && answerData.answers.length > 0) {
-      // For unit exam, we only need the first answer
-      await selectUnitExamAnswer(questionData, answerData.answers[0]);
-
-      // Check if the Next button is enabled after selecting an answer
-      const nextButton = document.querySelector('button.unit-btn.next-unit-btn:not([disabled])') as HTMLButtonElement;
-
-      if (nextButton) {
-        console.log('Found enabled Next button, clicking to proceed to next question');
-        nextButton.click();
-      } else {
-        console.warn('Next button not found or still disabled after selecting answer');
-      }
-    } else {
-      console.warn('No answers received from OpenAI');
-    }
-  } catch (error) {
-    console.error('Error handling unit exam content:', error);
-  }
-};
-
 /**
  * Checks if the exam submission dialog is present
  * @returns True if the submission dialog is visible
@@ -1047,39 +1001,29 @@ export const isExamSubmissionDialogPresent = (): boolean => {
 };
 
 /**
- * Clicks the "Submit Exam" button in the submission dialog
- * @returns Promise that resolves to true if the button was clicked
+ * Whether the page shows graded work, a unit exam or its submission dialog. Study mode is always on for graded work.
+ * @returns True if the learner has to work on the page on their own
  */
-export const clickSubmitExamButton = async (): Promise<boolean> => {
-  return new Promise(resolve => {
-    setTimeout(() => {
-      // Look for buttons in the dialog
-      const buttons = document.querySelectorAll('.dialog-content-container-outer .alert-buttons-right button');
-      console.log(`Found ${buttons.length} buttons in the submission dialog`);
-
-      // Find the Submit Exam button
-      let submitButton: HTMLButtonElement | null = null;
+export const isGradedContent = (): boolean => {
+  return isExamSubmissionDialogPresent() || detectContentType() === 'unit_exam';
+};
 
-      Array.from(buttons).forEach((btn, index) => {
-        const btnEl = btn as HTMLButtonElement;
-        const text = btnEl.textContent?.trim().toLowerCase() || '';
-        console.log(`Button ${index + 1}: "${btnEl.textContent?.trim()}", Class="${btnEl.className}"`);
+/**
+ * Reads whether the learner checked their answer to the practice question on the page. After checking, the page
+ * shows a Try Again button when an answer was wrong, or an enabled Next button when all were right.
+ * @returns The result of the check, or null if the learner did not check their answer yet
+ */
+export const getCheckedResult = (): 'correct' | 'incorrect' | null => {
+  if (hasTryAgainButton()) return 'incorrect';
 
-        if (text.includes('submit exam')) {
-          submitButton = btnEl;
-        }
-      });
+  const nextButton = document.querySelector(
+    'button.unit-btn.next-unit-btn:not([ng-click="ctrl.resetInquiry()"])',
+  ) as HTMLButtonElement | null;
+  // The same button reads "Check Answers" before checking
+  const label = nextButton?.textContent?.toLowerCase() ?? '';
+  if (nextButton && !nextButton.disabled && !label.includes('check')) return 'correct';
 
-      if (submitButton) {
-        console.log('Found Submit Exam button, clicking to submit the exam');
-        submitButton.click();
-        resolve(true);
-      } else {
-        console.warn('Submit Exam button not found');
-        resolve(false);
-      }
-    }, 1000);
-  });
+  return null;
 };
 
 /**
@@ -1090,10 +1034,9 @@ export const clickSubmitExamButton = async (): Promise<boolean> => {
 export const processCurrentContent = async (
   openAICallback?: (questionData: QuestionData) => Promise<AnswerData>,
 ): Promise<ContentType> => {
-  // First check if the exam submission dialog is present
+  // Submitting a graded exam is always left to the learner
   if (isExamSubmissionDialogPresent()) {
-    console.log('Exam submission dialog detected, attempting to click Submit Exam button');
-    await clickSubmitExamButton();
+    console.log('Exam submission dialog detected, leaving it to the learner');
     return 'unknown'; // Return unknown since we're in a dialog, not a content page
   }
 
@@ -1118,12 +1061,8 @@ export const processCurrentContent = async (
       }
       break;
     case 'unit_exam':
-      console.log('Processing unit exam content...');
-      if (openAICallback) {
-        await handleUnitExamContent(openAICallback);
-      } else {
-        console.warn('No OpenAI callback provided for unit exam content');
-      }
+      // Graded work: never answered by the extension, see isGradedContent
+      console.log('Unit exam detected, leaving it to the learner');
       break;
     case 'text_content':
       console.log('Processing text content');
@@ -1237,3 +1176,47 @@ export const debugPageContent = (): void => {
 
   console.groupEnd();
 };
+
+// Keeps the lesson within a reasonable share of the context window of the tutor
+const MAX_LESSON_LENGTH = 8000;
+
+/**
+ * Extracts the lesson currently shown, including a practice question and its choices, for the tutor chat in the side
+ * panel. Graded work is never extracted, so the tutor cannot be asked to answer it.
+ * @returns The lesson or null if the page shows none or shows graded work
+ */
+export const extractLessonContext = (): LessonContext | null => {
+  if (isGradedContent()) return null;
+
+  const contentType = detectContentType();
+  const questionData =
+    contentType === 'true_false'
+      ? extractTrueFalseQuestionData()
+      : contentType === 'multiple_choice'
+        ? extractMultipleChoiceQuestionData()
+        : null;
+
+  let title = '';
+  let text = '';
+
+  if (questionData) {
+    title = questionData.title;
+    text = [
+      questionData.question,
+      ...questionData.choices.map(
+        (choice, index) =>
+          `${index + 1}. ${choice.text}${contentType === 'true_false' ? ` (Options: ${choice.options.join(' | ')})` : ''}`,
+      ),
+    ].join('\n');
+  } else {
+    title = document.querySelector('.content-title')?.textContent?.trim() || '';
+    text = Array.from(document.querySelectorAll('.content-text'))
+      .map(element => element.textContent?.trim() || '')
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
+  if (!title && !text) return null;
+
+  return { title, text: text.slice(0, MAX_LESSON_LENGTH), url: location.href };
+};
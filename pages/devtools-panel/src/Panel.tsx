@@ -3,25 +3,34 @@ import { useStorage, withErrorBoundary, withSuspense } from '@extension/shared';
 import { exampleThemeStorage } from '@extension/storage';
 import type { ComponentPropsWithoutRef } from 'react';
 import { t } from '@extension/i18n';
+import { useStorageAreas } from '@src/hooks/useStorageAreas';
+import { StorageInspector } from '@src/components/StorageInspector';
+import { BackgroundJobs } from '@src/components/BackgroundJobs';
+import { ChangeHistory } from '@src/components/ChangeHistory';
+import { LlmCacheInspector } from '@src/components/LlmCacheInspector';
+import { LlmFixtures } from '@src/components/LlmFixtures';
 
 const Panel = () => {
   const theme = useStorage(exampleThemeStorage);
   const isLight = theme === 'light';
-  const logo = isLight ? 'devtools-panel/logo_horizontal.svg' : 'devtools-panel/logo_horizontal_dark.svg';
-  const goGithubSite = () =>
-    chrome.tabs.create({ url: 'https://github.com/Jonghakseo/chrome-extension-boilerplate-react-vite' });
+  const { areas, history, reload, clearHistory } = useStorageAreas();
 
   return (
-    <div className={`App ${isLight ? 'bg-slate-50' : 'bg-gray-800'}`}>
-      <header className={`App-header ${isLight ? 'text-gray-900' : 'text-gray-100'}`}>
-        <button onClick={goGithubSite}>
-          <img src={chrome.runtime.getURL(logo)} className="App-logo" alt="logo" />
+    <div className={`App ${isLight ? 'bg-slate-50 text-gray-900' : 'bg-gray-800 text-gray-100'}`}>
+      <header className="App-header">
+        <h1 className="text-xl font-bold">{t('devtoolsStorageTitle')}</h1>
+        <button className="px-2 rounded border text-sm" onClick={reload}>
+          {t('devtoolsReload')}
         </button>
-        <p>
-          Edit <code>pages/devtools-panel/src/Panel.tsx</code>
-        </p>
         <ToggleButton onClick={exampleThemeStorage.toggle}>{t('toggleTheme')}</ToggleButton>
       </header>
+      <main className="App-content">
+        <StorageInspector areas={areas} />
+        <ChangeHistory history={history} onClear={clearHistory} />
+        <LlmCacheInspector />
+        <LlmFixtures />
+        <BackgroundJobs />
+      </main>
     </div>
   );
 };
@@ -33,7 +42,7 @@ const ToggleButton = (props: ComponentPropsWithoutRef<'button'>) => {
       className={
         props.className +
         ' ' +
-        'font-bold mt-4 py-1 px-4 rounded shadow hover:scale-105 ' +
+        'font-bold py-1 px-4 rounded shadow hover:scale-105 ' +
         (theme === 'light' ? 'bg-white text-black' : 'bg-black text-white')
       }
       onClick={exampleThemeStorage.toggle}>
@@ -0,0 +1,76 @@
+import { useStorage } from '@extension/shared';
+import { cancelJob } from '@extension/messaging';
+import type { BackgroundJob } from '@extension/storage';
+import { backgroundJobsStorage } from '@extension/storage';
+import { t } from '@extension/i18n';
+
+const stateClassNames: Record<BackgroundJob['state'], string> = {
+  queued: 'opacity-75',
+  running: 'text-blue-500',
+  completed: 'text-green-600',
+  failed: 'text-red-500',
+  cancelled: 'opacity-75',
+};
+
+const stateLabels: Record<BackgroundJob['state'], string> = {
+  queued: t('devtoolsJobQueued'),
+  running: t('devtoolsJobRunning'),
+  completed: t('devtoolsJobCompleted'),
+  failed: t('devtoolsJobFailed'),
+  cancelled: t('devtoolsJobCancelled'),
+};
+
+export const BackgroundJobs = () => {
+  const { jobs } = useStorage(backgroundJobsStorage);
+  const sorted = Object.values(jobs).sort((a, b) => b.createdAt - a.createdAt);
+
+  return (
+    <section>
+      <header className="flex flex-wrap items-center gap-4 mb-2">
+        <h2 className="text-lg font-bold">{t('devtoolsJobsTitle')}</h2>
+        <span className="text-xs">{t('devtoolsJobsDescription')}</span>
+      </header>
+      {sorted.length === 0 ? (
+        <p className="text-sm opacity-75">{t('devtoolsEmpty')}</p>
+      ) : (
+        <table className="w-full text-sm text-left">
+          <tbody>
+            {sorted.map(job => (
+              <tr key={job.id} className="align-top border-t border-gray-400/30">
+                <td className="py-1 pr-2 whitespace-nowrap">
+                  <div className="font-mono">{job.type}</div>
+                  <div className="text-xs opacity-75">{new Date(job.createdAt).toLocaleString()}</div>
+                </td>
+                <td className="py-1 pr-2 whitespace-nowrap">
+                  <div className={stateClassNames[job.state]}>{stateLabels[job.state]}</div>
+                  <div className="text-xs opacity-75">
+                    {job.attempts === 1 ? t('devtoolsJobRun') : t('devtoolsJobRuns', String(job.attempts))}
+                  </div>
+                </td>
+                <td className="py-1 pr-2 w-full">
+                  {job.progress && (
+                    <>
+                      <progress className="w-full" value={job.progress.done} max={job.progress.total || 1} />
+                      <div className="text-xs opacity-75">
+                        {job.progress.done} / {job.progress.total}
+                        {job.progress.message && ` ${job.progress.message}`}
+                      </div>
+                    </>
+                  )}
+                  {job.error && <p className="text-xs text-red-500 break-all">{job.error}</p>}
+                </td>
+                <td className="py-1">
+                  {(job.state === 'queued' || job.state === 'running') && (
+                    <button className="px-2 rounded border" onClick={() => cancelJob(job.id)}>
+                      {t('devtoolsCancel')}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,43 @@
+import { t } from '@extension/i18n';
+import type { HistoryEntry } from '@src/hooks/useStorageAreas';
+
+const preview = (value: unknown) => (value === undefined ? '—' : JSON.stringify(value));
+
+type ChangeHistoryProps = {
+  history: HistoryEntry[];
+  onClear: () => void;
+};
+
+/**
+ * Changes observed since the panel was opened, newest first.
+ */
+export const ChangeHistory = ({ history, onClear }: ChangeHistoryProps) => (
+  <section>
+    <header className="flex items-center gap-4 mb-2">
+      <h2 className="text-lg font-bold">{t('devtoolsHistoryTitle')}</h2>
+      <button className="px-2 rounded border text-sm" onClick={onClear}>
+        {t('devtoolsClear')}
+      </button>
+    </header>
+    {history.length === 0 ? (
+      <p className="text-sm opacity-75">{t('devtoolsHistoryEmpty')}</p>
+    ) : (
+      <ul className="flex flex-col gap-1 text-xs font-mono">
+        {history.map(({ id, time, area, key, writer, oldValue, newValue }) => (
+          <li key={id} className="border-t border-gray-400/30 pt-1">
+            <div>
+              {time.toLocaleTimeString()} <b>{area}</b> {key}{' '}
+              <i>{t('devtoolsWrittenBy', writer ?? t('devtoolsUnknownContext'))}</i>
+            </div>
+            <div className="truncate opacity-75" title={preview(oldValue)}>
+              - {preview(oldValue)}
+            </div>
+            <div className="truncate" title={preview(newValue)}>
+              + {preview(newValue)}
+            </div>
+          </li>
+        ))}
+      </ul>
+    )}
+  </section>
+);
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { useStorage } from '@extension/shared';
+import { llmCacheStatsStorage, llmCacheStorage } from '@extension/storage';
+import { t } from '@extension/i18n';
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const removeExpired = async () => {
+  const expired = await llmCacheStorage.query('expiresAt', IDBKeyRange.upperBound(Date.now()));
+  await llmCacheStorage.deleteMany(expired.map(({ hash }) => hash));
+};
+
+const resetStats = () => llmCacheStatsStorage.set({ hits: 0, misses: 0, staleHits: 0, since: Date.now() });
+
+export const LlmCacheInspector = () => {
+  const entries = useStorage(llmCacheStorage);
+  const stats = useStorage(llmCacheStatsStorage);
+  const [filter, setFilter] = useState('');
+
+  const lookups = stats.hits + stats.misses;
+  const now = Date.now();
+  const needle = filter.trim().toLowerCase();
+  const visible = entries
+    .filter(({ preview, text, label, model }) =>
+      [preview, text, label, model].some(value => value.toLowerCase().includes(needle)),
+    )
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  return (
+    <section>
+      <header className="flex flex-wrap items-center gap-4 mb-2">
+        <h2 className="text-lg font-bold">{t('devtoolsCacheTitle')}</h2>
+        <span className="text-xs">
+          {t('devtoolsCacheEntries', String(entries.length))}, {t('devtoolsCacheHits', String(stats.hits))} /{' '}
+          {t('devtoolsCacheMisses', String(stats.misses))}
+          {lookups > 0 && ` (${t('devtoolsCacheHitRate', String(Math.round((stats.hits / lookups) * 100)))})`}
+          {stats.staleHits > 0 && `, ${t('devtoolsCacheStaleHits', String(stats.staleHits))}`}{' '}
+          {t('devtoolsCacheSince', formatDate(stats.since))}
+        </span>
+        <input
+          className="px-2 rounded border bg-transparent text-sm"
+          placeholder={t('devtoolsCacheFilter')}
+          value={filter}
+          onChange={event => setFilter(event.target.value)}
+        />
+        <button className="px-2 rounded border text-sm" onClick={removeExpired}>
+          {t('devtoolsCacheRemoveExpired')}
+        </button>
+        <button className="px-2 rounded border text-sm" onClick={() => llmCacheStorage.clear()}>
+          {t('devtoolsCacheClear')}
+        </button>
+        <button className="px-2 rounded border text-sm" onClick={resetStats}>
+          {t('devtoolsCacheResetStats')}
+        </button>
+      </header>
+      {visible.length === 0 ? (
+        <p className="text-sm opacity-75">{t('devtoolsEmpty')}</p>
+      ) : (
+        <table className="w-full text-sm text-left">
+          <tbody>
+            {visible.map(entry => (
+              <tr key={entry.hash} className="align-top border-t border-gray-400/30">
+                <td className="py-1 pr-2 whitespace-nowrap">
+                  <div className="font-mono">{entry.label}</div>
+                  <div className="text-xs opacity-75">
+                    {entry.provider} / {entry.model}
+                  </div>
+                  <div className="text-xs opacity-75">{t('devtoolsCacheHits', String(entry.hits))}</div>
+                  <div className={`text-xs ${entry.expiresAt <= now ? 'text-red-500' : 'opacity-75'}`}>
+                    {t(
+                      entry.expiresAt <= now ? 'devtoolsCacheExpired' : 'devtoolsCacheExpires',
+                      formatDate(entry.expiresAt),
+                    )}
+                  </div>
+                </td>
+                <td className="py-1 pr-2 w-full">
+                  <p className="italic opacity-75 break-all">{entry.preview}</p>
+                  <pre className="font-mono text-xs whitespace-pre-wrap break-all">{entry.text}</pre>
+                </td>
+                <td className="py-1">
+                  <button className="px-2 rounded border" onClick={() => llmCacheStorage.delete(entry.hash)}>
+                    {t('devtoolsCacheInvalidate')}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,50 @@
+import { useStorage } from '@extension/shared';
+import { llmFixturesStorage } from '@extension/storage';
+import { t } from '@extension/i18n';
+
+const FIXTURES_PATH = 'tests/e2e/fixtures/llm';
+
+const download = (contents: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const LlmFixtures = () => {
+  const file = useStorage(llmFixturesStorage);
+  const { fixtures } = file;
+
+  const handleDownload = () =>
+    download(`${JSON.stringify(file, null, 2)}\n`, `llm-fixtures-${new Date().toISOString().slice(0, 10)}.json`);
+
+  return (
+    <section>
+      <header className="flex flex-wrap items-center gap-4 mb-2">
+        <h2 className="text-lg font-bold">{t('devtoolsFixturesTitle')}</h2>
+        <span className="text-xs">
+          {t('devtoolsFixturesRecorded', String(fixtures.length))}, {t('devtoolsFixturesHowToRecord', FIXTURES_PATH)}
+        </span>
+        <button className="px-2 rounded border text-sm" disabled={!fixtures.length} onClick={handleDownload}>
+          {t('devtoolsFixturesDownload')}
+        </button>
+        <button
+          className="px-2 rounded border text-sm"
+          onClick={() => llmFixturesStorage.set({ version: 1, fixtures: [] })}>
+          {t('devtoolsClear')}
+        </button>
+      </header>
+      {fixtures.length > 0 && (
+        <ul className="text-sm">
+          {fixtures.map(fixture => (
+            <li key={fixture.recordedAt} className="py-1 border-t border-gray-400/30 truncate">
+              <span className="font-mono text-xs opacity-75">{fixture.model}</span> {fixture.messages.at(-1)?.content}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import type { RegisteredStorage } from '@extension/storage';
+import { getRegisteredStorages, StorageEnum } from '@extension/storage';
+import { t } from '@extension/i18n';
+import type { AreaState } from '@src/hooks/useStorageAreas';
+import { StorageItemEditor } from '@src/components/StorageItemEditor';
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+/**
+ * Writes through the registered storage when there is one, so versions, stamps and live updates stay intact.
+ */
+const saveItem = async (area: StorageEnum, key: string, value: unknown, registered?: RegisteredStorage) => {
+  if (registered) {
+    await registered.importRaw({ value, version: registered.version });
+  } else {
+    await chrome.storage[area].set({ [key]: value });
+  }
+};
+
+const QuotaBar = ({ bytesInUse, quota }: Pick<AreaState, 'bytesInUse' | 'quota'>) => {
+  if (bytesInUse === null) {
+    return <span className="text-xs opacity-75">{t('devtoolsUsageUnavailable')}</span>;
+  }
+
+  const ratio = quota ? bytesInUse / quota : 0;
+
+  return (
+    <span className="flex items-center gap-2 text-xs">
+      {quota && (
+        <span className="inline-block w-32 h-2 rounded bg-gray-300 overflow-hidden">
+          <span
+            className={`block h-full ${ratio > 0.9 ? 'bg-red-500' : ratio > 0.7 ? 'bg-yellow-500' : 'bg-green-500'}`}
+            style={{ width: `${Math.min(100, ratio * 100)}%` }}
+          />
+        </span>
+      )}
+      {formatBytes(bytesInUse)}
+      {quota && ` / ${formatBytes(quota)} (${(ratio * 100).toFixed(1)}%)`}
+    </span>
+  );
+};
+
+type StorageItemRowProps = {
+  area: StorageEnum;
+  itemKey: string;
+  value: unknown;
+  writer: string | null;
+  registered?: RegisteredStorage;
+};
+
+const StorageItemRow = ({ area, itemKey, value, writer, registered }: StorageItemRowProps) => {
+  // Holds the value being edited
+  const [editing, setEditing] = useState<{ value: unknown } | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const readOnly = area === StorageEnum.Managed;
+
+  // Registered storages may persist a different shape, e.g. the manifest of a chunked sync value
+  const startEditing = async () => {
+    setReadError(null);
+    try {
+      setEditing({ value: registered ? (await registered.exportRaw()).value : value });
+    } catch (error) {
+      setReadError(t('devtoolsReadFailed', error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  return (
+    <tr className="align-top border-t border-gray-400/30">
+      <td className="py-1 pr-2 font-mono break-all">
+        {itemKey}
+        <div className="flex gap-1 mt-1">
+          {registered && (
+            <span className="px-1 rounded bg-blue-500/20 text-xs">
+              {t('devtoolsRegistered')}
+              {registered.version !== undefined && ` v${registered.version}`}
+            </span>
+          )}
+          {writer && <span className="px-1 rounded bg-gray-500/20 text-xs">{t('devtoolsWrittenBy', writer)}</span>}
+        </div>
+      </td>
+      <td className="py-1 pr-2 w-full">
+        {editing ? (
+          <StorageItemEditor
+            value={editing.value}
+            onCancel={() => setEditing(null)}
+            onSave={async next => {
+              await saveItem(area, itemKey, next, registered);
+              setEditing(null);
+            }}
+          />
+        ) : (
+          <pre className="font-mono text-xs whitespace-pre-wrap break-all">
+            {value === undefined ? <i className="opacity-75">{t('devtoolsNotSet')}</i> : JSON.stringify(value, null, 2)}
+          </pre>
+        )}
+        {readError && <p className="text-xs text-red-500">{readError}</p>}
+      </td>
+      <td className="py-1">
+        {!editing && !readOnly && (
+          <button className="px-2 rounded border" onClick={startEditing}>
+            {t('devtoolsEdit')}
+          </button>
+        )}
+      </td>
+    </tr>
+  );
+};
+
+export const StorageInspector = ({ areas }: { areas: AreaState[] }) => {
+  const registeredStorages = getRegisteredStorages();
+
+  return (
+    <div className="flex flex-col gap-6">
+      {areas.map(({ area, items, writers, bytesInUse, quota, error }) => {
+        const registeredInArea = registeredStorages.filter(storage => storage.storageEnum === area);
+        // Registered storages which were never written are listed as well
+        const keys = Array.from(new Set([...Object.keys(items), ...registeredInArea.map(({ key }) => key)])).sort();
+
+        return (
+          <section key={area}>
+            <header className="flex items-center gap-4 mb-2">
+              <h2 className="text-lg font-bold capitalize">{area}</h2>
+              <QuotaBar bytesInUse={bytesInUse} quota={quota} />
+            </header>
+            {error ? (
+              <p className="text-sm text-red-500">{error}</p>
+            ) : keys.length === 0 ? (
+              <p className="text-sm opacity-75">{t('devtoolsEmpty')}</p>
+            ) : (
+              <table className="w-full text-sm text-left">
+                <tbody>
+                  {keys.map(key => (
+                    <StorageItemRow
+                      key={key}
+                      area={area}
+                      itemKey={key}
+                      value={items[key]}
+                      writer={writers[key] ?? null}
+                      registered={registeredInArea.find(storage => storage.key === key)}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { t } from '@extension/i18n';
+
+type StorageItemEditorProps = {
+  value: unknown;
+  onSave: (value: unknown) => Promise<void>;
+  onCancel: () => void;
+};
+
+/**
+ * Edits a raw storage value as JSON. Saving is only possible once the text parses.
+ */
+export const StorageItemEditor = ({ value, onSave, onCancel }: StorageItemEditorProps) => {
+  const [text, setText] = useState(() => JSON.stringify(value, null, 2) ?? '');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  let parseError: string | null = null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    parseError = error instanceof Error ? error.message : String(error);
+  }
+
+  const save = async () => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(parsed);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <textarea
+        className={`font-mono text-xs p-1 rounded border bg-transparent ${parseError ? 'border-red-500' : 'border-gray-400'}`}
+        rows={Math.min(20, text.split('\n').length + 1)}
+        spellCheck={false}
+        value={text}
+        onChange={event => setText(event.target.value)}
+      />
+      {(parseError || saveError) && <p className="text-xs text-red-500">{parseError ?? saveError}</p>}
+      <div className="flex gap-2">
+        <button
+          className="px-2 rounded border font-bold disabled:opacity-50"
+          disabled={!!parseError || saving}
+          onClick={save}>
+          {t('devtoolsSave')}
+        </button>
+        <button className="px-2 rounded border" onClick={onCancel}>
+          {t('devtoolsCancel')}
+        </button>
+      </div>
+    </div>
+  );
+};
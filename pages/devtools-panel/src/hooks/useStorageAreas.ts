@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getStampContext, isStorageMetaKey, STAMP_KEY_SUFFIX, StorageEnum } from '@extension/storage';
+
+export type AreaState = {
+  area: StorageEnum;
+  /**
+   * Values by key, without sibling keys like the version and the stamp.
+   */
+  items: Record<string, unknown>;
+  /**
+   * Context which wrote the current value of a key, if it was written with a stamp.
+   */
+  writers: Record<string, string | null>;
+  bytesInUse: number | null;
+  quota: number | null;
+  error: string | null;
+};
+
+export type HistoryEntry = {
+  id: number;
+  time: Date;
+  area: StorageEnum;
+  key: string;
+  writer: string | null;
+  oldValue: unknown;
+  newValue: unknown;
+};
+
+/**
+ * How many changes the history keeps before dropping the oldest.
+ */
+const MAX_HISTORY = 200;
+
+export const AREAS = [StorageEnum.Local, StorageEnum.Sync, StorageEnum.Session, StorageEnum.Managed];
+
+const loadArea = async (area: StorageEnum): Promise<AreaState> => {
+  const storageArea = chrome.storage[area];
+  const quota = 'QUOTA_BYTES' in storageArea ? (storageArea.QUOTA_BYTES as number) : null;
+
+  try {
+    const all = await storageArea.get(null);
+    const keys = Object.keys(all)
+      .filter(key => !isStorageMetaKey(key))
+      .sort();
+    // Not every area supports it, e.g. managed storage in some browsers
+    const bytesInUse = await storageArea.getBytesInUse(null).catch(() => null);
+
+    return {
+      area,
+      items: Object.fromEntries(keys.map(key => [key, all[key]])),
+      writers: Object.fromEntries(keys.map(key => [key, getStampContext(all[`${key}${STAMP_KEY_SUFFIX}`])])),
+      bytesInUse,
+      quota,
+      error: null,
+    };
+  } catch (error) {
+    return { area, items: {}, writers: {}, bytesInUse: null, quota, error: String(error) };
+  }
+};
+
+let historyId = 0;
+
+/**
+ * Watches all storage areas and records every change together with the context which wrote it.
+ */
+export const useStorageAreas = () => {
+  const [areas, setAreas] = useState<AreaState[]>([]);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+
+  const reload = useCallback(async () => {
+    setAreas(await Promise.all(AREAS.map(loadArea)));
+  }, []);
+
+  useEffect(() => {
+    reload();
+
+    const onChanged = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      const area = areaName as StorageEnum;
+      const entries = Object.entries(changes)
+        .filter(([key]) => !isStorageMetaKey(key))
+        .map(
+          ([key, { oldValue, newValue }]): HistoryEntry => ({
+            id: ++historyId,
+            time: new Date(),
+            area,
+            key,
+            // Values and their stamps are written in the same call, so they arrive together
+            writer: getStampContext(changes[`${key}${STAMP_KEY_SUFFIX}`]?.newValue),
+            oldValue,
+            newValue,
+          }),
+        );
+
+      if (entries.length > 0) {
+        setHistory(prev => [...entries.reverse(), ...prev].slice(0, MAX_HISTORY));
+      }
+      loadArea(area).then(next => setAreas(prev => prev.map(state => (state.area === area ? next : state))));
+    };
+
+    chrome.storage.onChanged.addListener(onChanged);
+
+    return () => chrome.storage.onChanged.removeListener(onChanged);
+  }, [reload]);
+
+  const clearHistory = useCallback(() => setHistory([]), []);
+
+  return { areas, history, reload, clearHistory };
+};
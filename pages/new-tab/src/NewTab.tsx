@@ -1,30 +1,77 @@
 import '@src/NewTab.css';
-import '@src/NewTab.scss';
+import { useEffect, useState } from 'react';
 import { useStorage, withErrorBoundary, withSuspense } from '@extension/shared';
-import { exampleThemeStorage } from '@extension/storage';
-import { ToggleButton } from '@extension/ui';
+import {
+  exampleThemeStorage,
+  flashcardReviewsStorage,
+  flashcardsStorage,
+  lessonNotesStorage,
+} from '@extension/storage';
+import { QuestionBank, QuizPractice, ToggleButton } from '@extension/ui';
 import { t } from '@extension/i18n';
+import { DeckList } from '@src/components/DeckList';
+import { ReviewHistory } from '@src/components/ReviewHistory';
+import { ReviewSession } from '@src/components/ReviewSession';
+
+type View = 'review' | 'cards' | 'history' | 'quiz' | 'bank';
+
+// Learning steps are minutes apart, so due cards are recounted often
+const CLOCK_INTERVAL = 15_000;
 
 const NewTab = () => {
   const theme = useStorage(exampleThemeStorage);
+  const cards = useStorage(flashcardsStorage);
+  const reviews = useStorage(flashcardReviewsStorage);
+  const notes = useStorage(lessonNotesStorage);
+  const [view, setView] = useState<View>('review');
+  const [now, setNow] = useState(Date.now);
   const isLight = theme === 'light';
-  const logo = isLight ? 'new-tab/logo_horizontal.svg' : 'new-tab/logo_horizontal_dark.svg';
-  const goGithubSite = () =>
-    chrome.tabs.create({ url: 'https://github.com/Jonghakseo/chrome-extension-boilerplate-react-vite' });
 
-  console.log(t('hello', 'World'));
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  const byDue = [...cards].sort((a, b) => a.due - b.due);
+  const dueCards = byDue.filter(({ due }) => due <= now);
+  const nextCard = byDue.find(({ due }) => due > now);
+
+  const tabs: Array<{ id: View; label: string }> = [
+    { id: 'review', label: t('flashcardsReview') },
+    { id: 'cards', label: `${t('flashcardsCards')} (${cards.length})` },
+    { id: 'history', label: t('flashcardsHistory') },
+    { id: 'quiz', label: t('quizPractice') },
+    { id: 'bank', label: t('quizBank') },
+  ];
+
   return (
-    <div className={`App ${isLight ? 'bg-slate-50' : 'bg-gray-800'}`}>
-      <header className={`App-header ${isLight ? 'text-gray-900' : 'text-gray-100'}`}>
-        <button onClick={goGithubSite}>
-          <img src={chrome.runtime.getURL(logo)} className="App-logo" alt="logo" />
-        </button>
-        <p>
-          Edit <code>pages/new-tab/src/NewTab.tsx</code>
-        </p>
-        <h6>The color of this paragraph is defined using SASS.</h6>
+    <div className={`App ${isLight ? 'bg-slate-50 text-gray-900' : 'bg-gray-800 text-gray-100'}`}>
+      <header className="flex items-center gap-4 w-full max-w-5xl mx-auto">
+        <h1 className="text-2xl font-bold">{t('flashcardsTitle')}</h1>
+        <span
+          className={`px-2 rounded-full text-sm font-bold ${dueCards.length ? 'bg-red-600 text-white' : 'bg-gray-400/30'}`}
+          title={t('flashcardsDue')}>
+          {dueCards.length}
+        </span>
+        <nav className="flex flex-1 gap-2">
+          {tabs.map(({ id, label }) => (
+            <button
+              key={id}
+              className={`px-3 py-1 rounded ${view === id ? 'font-bold border' : 'opacity-75'}`}
+              onClick={() => setView(id)}>
+              {label}
+            </button>
+          ))}
+        </nav>
         <ToggleButton onClick={exampleThemeStorage.toggle}>{t('toggleTheme')}</ToggleButton>
       </header>
+      <main className="w-full max-w-5xl mx-auto">
+        {view === 'review' && <ReviewSession dueCards={dueCards} nextCard={nextCard} now={now} />}
+        {view === 'cards' && <DeckList cards={cards} notes={notes} now={now} />}
+        {view === 'history' && <ReviewHistory reviews={reviews} cards={cards} />}
+        {view === 'quiz' && <QuizPractice />}
+        {view === 'bank' && <QuestionBank />}
+      </main>
     </div>
   );
 };
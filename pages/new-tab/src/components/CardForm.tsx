@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import type { FlashcardSource, LessonNote } from '@extension/storage';
+import { flashcardsStorage } from '@extension/storage';
+import { t } from '@extension/i18n';
+
+const inputClassName = 'w-full px-2 py-1 rounded border bg-transparent';
+
+const paragraphsOf = (note: LessonNote) =>
+  note.text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean);
+
+/**
+ * Adds a card written by hand, optionally about a paragraph of a lesson note which is then kept as its source.
+ */
+export const CardForm = ({ notes }: { notes: LessonNote[] }) => {
+  const [front, setFront] = useState('');
+  const [back, setBack] = useState('');
+  const [noteId, setNoteId] = useState('');
+  const [source, setSource] = useState<FlashcardSource | undefined>();
+
+  const note = notes.find(({ id }) => id === noteId);
+
+  const pickParagraph = (paragraph: string) => {
+    if (!note) return;
+    setBack(paragraph);
+    setSource({ noteId: note.id, title: note.title, excerpt: paragraph });
+  };
+
+  const handleAdd = async () => {
+    if (!front.trim() || !back.trim()) return;
+    // Cards about a note cite it even without a picked paragraph
+    await flashcardsStorage.add([
+      { front, back, source: note ? (source ?? { noteId: note.id, title: note.title }) : undefined },
+    ]);
+    setFront('');
+    setBack('');
+    setSource(undefined);
+  };
+
+  return (
+    <section className="flex flex-col gap-2 text-left">
+      <label className="flex flex-col gap-1 text-sm">
+        {t('flashcardsFromNote')}
+        <select
+          className={inputClassName}
+          value={noteId}
+          onChange={event => {
+            setNoteId(event.target.value);
+            setSource(undefined);
+          }}>
+          <option value="">{t('flashcardsNoNote')}</option>
+          {notes.map(({ id, course, title }) => (
+            <option key={id} value={id}>
+              {[course, title].filter(Boolean).join(' · ')}
+            </option>
+          ))}
+        </select>
+      </label>
+      {note && (
+        <div className="flex flex-col gap-1 max-h-48 overflow-y-auto rounded border border-gray-400/50 p-2">
+          <p className="text-xs opacity-75">{t('flashcardsPickParagraph')}</p>
+          {paragraphsOf(note).map((paragraph, index) => (
+            <button
+              key={index}
+              className={`text-left text-sm p-1 rounded hover:bg-gray-400/20 ${source?.excerpt === paragraph ? 'bg-gray-400/30' : ''}`}
+              onClick={() => pickParagraph(paragraph)}>
+              {paragraph}
+            </button>
+          ))}
+        </div>
+      )}
+      <label className="flex flex-col gap-1 text-sm">
+        {t('flashcardsFront')}
+        <textarea className={inputClassName} rows={2} value={front} onChange={event => setFront(event.target.value)} />
+      </label>
+      <label className="flex flex-col gap-1 text-sm">
+        {t('flashcardsBack')}
+        <textarea className={inputClassName} rows={3} value={back} onChange={event => setBack(event.target.value)} />
+      </label>
+      <button
+        className="self-start px-4 py-1 rounded border disabled:opacity-50"
+        disabled={!front.trim() || !back.trim()}
+        onClick={handleAdd}>
+        {t('flashcardsAdd')}
+      </button>
+    </section>
+  );
+};
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import type { Flashcard, LessonNote } from '@extension/storage';
+import { flashcardReviewsStorage, flashcardsStorage } from '@extension/storage';
+import { t } from '@extension/i18n';
+import { CardForm } from '@src/components/CardForm';
+import { formatInterval, stateLabels } from '@src/utils/format';
+
+const matches = (card: Flashcard, needle: string) =>
+  !needle || [card.front, card.back, card.source?.title ?? ''].some(value => value.toLowerCase().includes(needle));
+
+const deleteCard = async (card: Flashcard) => {
+  if (!confirm(t('flashcardsDeleteConfirm'))) return;
+
+  const reviews = await flashcardReviewsStorage.query('cardId', card.id);
+  await flashcardReviewsStorage.deleteMany(reviews.map(({ id }) => id));
+  await flashcardsStorage.delete(card.id);
+};
+
+type DeckListProps = {
+  cards: Flashcard[];
+  notes: LessonNote[];
+  now: number;
+};
+
+/**
+ * The cards of the deck, due first, with the form adding new ones.
+ */
+export const DeckList = ({ cards, notes, now }: DeckListProps) => {
+  const [search, setSearch] = useState('');
+
+  const needle = search.trim().toLowerCase();
+  const visible = cards.filter(card => matches(card, needle)).sort((a, b) => a.due - b.due);
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[1fr_2fr] w-full text-left">
+      <CardForm notes={notes} />
+      <section className="flex flex-col gap-2 min-w-0">
+        <input
+          type="search"
+          className="px-2 py-1 rounded border bg-transparent text-sm"
+          placeholder={t('flashcardsSearch')}
+          value={search}
+          onChange={event => setSearch(event.target.value)}
+        />
+        {visible.length === 0 ? (
+          <p className="text-sm opacity-75">{needle ? t('flashcardsNoMatches') : t('flashcardsNoCards')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-400/30">
+            {visible.map(card => (
+              <li key={card.id} className="flex items-start gap-2 py-2">
+                <div className="flex-1 min-w-0">
+                  <div className="truncate font-bold">{card.front}</div>
+                  <div className="truncate text-sm">{card.back}</div>
+                  <div className="text-xs opacity-75">
+                    {stateLabels[card.state]} ·{' '}
+                    {card.due <= now
+                      ? t('flashcardsDue')
+                      : `${t('flashcardsNextDue')}: ${formatInterval(card.due - now)}`}
+                    {card.source && ` · ${card.source.title}`}
+                  </div>
+                </div>
+                <button className="px-2 rounded border text-sm" onClick={() => deleteCard(card)}>
+                  {t('flashcardsDelete')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import type { Flashcard, FlashcardReview } from '@extension/storage';
+import { t } from '@extension/i18n';
+import { formatInterval, gradeLabels } from '@src/utils/format';
+
+const MAX_REVIEWS = 100;
+
+type ReviewHistoryProps = {
+  reviews: FlashcardReview[];
+  cards: Flashcard[];
+};
+
+/**
+ * Today's reviews at a glance and the latest reviews with the interval each one set.
+ */
+export const ReviewHistory = ({ reviews, cards }: ReviewHistoryProps) => {
+  const fronts = new Map(cards.map(({ id, front }) => [id, front]));
+  const latest = [...reviews].sort((a, b) => b.reviewedAt - a.reviewedAt);
+  const startOfDay = new Date().setHours(0, 0, 0, 0);
+  const today = latest.filter(({ reviewedAt }) => reviewedAt >= startOfDay);
+  const remembered = today.filter(({ grade }) => grade !== 'again').length;
+
+  if (latest.length === 0) return <p className="text-sm opacity-75">{t('flashcardsNoReviews')}</p>;
+
+  return (
+    <section className="flex flex-col gap-4 w-full max-w-2xl mx-auto text-left">
+      <div className="flex gap-6">
+        <div>
+          <div className="text-2xl font-bold">{today.length}</div>
+          <div className="text-xs opacity-75">{t('flashcardsReviewsToday')}</div>
+        </div>
+        {today.length > 0 && (
+          <div>
+            <div className="text-2xl font-bold">{Math.round((remembered / today.length) * 100)}%</div>
+            <div className="text-xs opacity-75">{t('flashcardsRemembered')}</div>
+          </div>
+        )}
+      </div>
+      <table className="w-full text-sm">
+        <tbody>
+          {latest.slice(0, MAX_REVIEWS).map(review => (
+            <tr key={review.id} className="border-t border-gray-400/30">
+              <td className="py-1 pr-2 whitespace-nowrap opacity-75">{new Date(review.reviewedAt).toLocaleString()}</td>
+              <td className="py-1 pr-2 max-w-xs truncate">{fronts.get(review.cardId) ?? t('flashcardsDeletedCard')}</td>
+              <td className="py-1 pr-2">{gradeLabels[review.grade]}</td>
+              <td className="py-1 font-mono">{formatInterval(review.due - review.reviewedAt)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+};
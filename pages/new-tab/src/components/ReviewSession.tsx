@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import type { Flashcard, ReviewGrade } from '@extension/storage';
+import { flashcardsStorage, previewReview, REVIEW_GRADES } from '@extension/storage';
+import { t } from '@extension/i18n';
+import { formatInterval, gradeLabels } from '@src/utils/format';
+
+const gradeClassNames: Record<ReviewGrade, string> = {
+  again: 'bg-red-600 hover:bg-red-700',
+  hard: 'bg-orange-500 hover:bg-orange-600',
+  good: 'bg-green-600 hover:bg-green-700',
+  easy: 'bg-blue-600 hover:bg-blue-700',
+};
+
+type ReviewSessionProps = {
+  dueCards: Flashcard[];
+  /**
+   * The card due next after the due ones, to tell when to come back.
+   */
+  nextCard: Flashcard | undefined;
+  now: number;
+};
+
+/**
+ * Reviews the due cards one by one: the front first, then the back with the grades. Space shows the answer, 1 to 4
+ * grade it.
+ */
+export const ReviewSession = ({ dueCards, nextCard, now }: ReviewSessionProps) => {
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+  const [grading, setGrading] = useState(false);
+
+  const card = dueCards[0];
+  const revealed = !!card && revealedId === card.id;
+
+  const grade = async (value: ReviewGrade) => {
+    if (!card || grading) return;
+    setGrading(true);
+    try {
+      await flashcardsStorage.review(card, value);
+      setRevealedId(null);
+    } finally {
+      setGrading(false);
+    }
+  };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!card || event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+      if (!revealed && (event.key === ' ' || event.key === 'Enter')) {
+        event.preventDefault();
+        setRevealedId(card.id);
+      } else if (revealed && ['1', '2', '3', '4'].includes(event.key)) {
+        grade(REVIEW_GRADES[Number(event.key) - 1]);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  if (!card) {
+    return (
+      <section className="flex flex-col items-center gap-2 py-16">
+        <p className="text-xl font-bold">{nextCard ? t('flashcardsDone') : t('flashcardsNoCards')}</p>
+        {nextCard && (
+          <p className="text-sm opacity-75">
+            {t('flashcardsNextDue')}: {formatInterval(nextCard.due - now)}
+          </p>
+        )}
+      </section>
+    );
+  }
+
+  const preview = previewReview(card, now);
+
+  return (
+    <section className="flex flex-col items-center gap-4 py-8 w-full max-w-2xl mx-auto">
+      <div className="w-full p-6 rounded-lg border border-gray-400/50 text-left">
+        <p className="text-xl whitespace-pre-wrap">{card.front}</p>
+        {revealed && (
+          <>
+            <hr className="my-4 border-gray-400/50" />
+            <p className="whitespace-pre-wrap">{card.back}</p>
+            {card.source && <p className="mt-4 text-xs opacity-75">{card.source.title}</p>}
+          </>
+        )}
+      </div>
+      {revealed ? (
+        <div className="flex gap-2">
+          {REVIEW_GRADES.map((value, index) => (
+            <button
+              key={value}
+              className={`px-4 py-2 rounded text-white disabled:opacity-50 ${gradeClassNames[value]}`}
+              disabled={grading}
+              title={`${index + 1}`}
+              onClick={() => grade(value)}>
+              <div className="font-bold">{gradeLabels[value]}</div>
+              <div className="text-xs">{formatInterval(preview[value] - now)}</div>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <button className="px-4 py-2 rounded border" onClick={() => setRevealedId(card.id)}>
+          {t('flashcardsShowAnswer')}
+        </button>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,30 @@
+import type { FlashcardState, ReviewGrade } from '@extension/storage';
+import { t } from '@extension/i18n';
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Short duration like `10m`, `3h`, `5d` or `2.1y`, e.g. until a card is due.
+ */
+export const formatInterval = (ms: number) => {
+  if (ms < HOUR) return `${Math.max(1, Math.round(ms / MINUTE))}m`;
+  if (ms < DAY) return `${Math.round(ms / HOUR)}h`;
+  if (ms < 365 * DAY) return `${Math.round(ms / DAY)}d`;
+  return `${(ms / (365 * DAY)).toFixed(1)}y`;
+};
+
+export const gradeLabels: Record<ReviewGrade, string> = {
+  again: t('flashcardsAgain'),
+  hard: t('flashcardsHard'),
+  good: t('flashcardsGood'),
+  easy: t('flashcardsEasy'),
+};
+
+export const stateLabels: Record<FlashcardState, string> = {
+  new: t('flashcardsStateNew'),
+  learning: t('flashcardsStateLearning'),
+  review: t('flashcardsStateReview'),
+  relearning: t('flashcardsStateRelearning'),
+};
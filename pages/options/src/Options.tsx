@@ -1,8 +1,13 @@
 import '@src/Options.css';
 import { useStorage, withErrorBoundary, withSuspense } from '@extension/shared';
 import { exampleThemeStorage } from '@extension/storage';
-import { ToggleButton } from '@extension/ui';
+import { QuotaWarning, ToggleButton } from '@extension/ui';
 import { t } from '@extension/i18n';
+import { ApiKeysSection } from '@src/components/ApiKeysSection';
+import { BackupSection } from '@src/components/BackupSection';
+import { LlmSettingsSection } from '@src/components/LlmSettingsSection';
+import { LlmUsageSection } from '@src/components/LlmUsageSection';
+import { PromptTemplatesSection } from '@src/components/PromptTemplatesSection';
 
 const Options = () => {
   const theme = useStorage(exampleThemeStorage);
@@ -13,6 +18,7 @@ const Options = () => {
 
   return (
     <div className={`App ${isLight ? 'bg-slate-50 text-gray-900' : 'bg-gray-800 text-gray-100'}`}>
+      <QuotaWarning className="mb-4" />
       <button onClick={goGithubSite}>
         <img src={chrome.runtime.getURL(logo)} className="App-logo" alt="logo" />
       </button>
@@ -20,6 +26,11 @@ const Options = () => {
         Edit <code>pages/options/src/Options.tsx</code>
       </p>
       <ToggleButton onClick={exampleThemeStorage.toggle}>{t('toggleTheme')}</ToggleButton>
+      <LlmSettingsSection />
+      <ApiKeysSection />
+      <LlmUsageSection />
+      <PromptTemplatesSection />
+      <BackupSection />
     </div>
   );
 };
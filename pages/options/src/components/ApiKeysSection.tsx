@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { sendMessage } from '@extension/messaging';
+import { useStorage } from '@extension/shared';
+import type { LlmProviderId } from '@extension/storage';
+import { apiKeysStorage } from '@extension/storage';
+import { t } from '@extension/i18n';
+
+type KeyProvider = Exclude<LlmProviderId, 'mock'>;
+
+const providers: Array<{ id: KeyProvider; name: string; optional?: boolean; manageUrl?: string }> = [
+  { id: 'openai', name: 'OpenAI', manageUrl: 'https://platform.openai.com/api-keys' },
+  { id: 'anthropic', name: 'Anthropic', manageUrl: 'https://console.anthropic.com/settings/keys' },
+  { id: 'local', name: t('llmProviderLocal'), optional: true },
+];
+
+const buttonClassName = 'py-1 px-4 rounded shadow border-2 font-bold hover:scale-105 disabled:opacity-50';
+
+// Enough to tell keys apart without revealing them
+const maskKey = (key: string) => `••••${key.slice(-4)}`;
+
+const ApiKeyRow = ({ id, name, optional, manageUrl, savedKey }: (typeof providers)[number] & { savedKey?: string }) => {
+  const [draft, setDraft] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleSave = async () => {
+    const apiKey = draft.trim();
+    if (!apiKey) return;
+
+    setBusy(true);
+    setMessage(null);
+    try {
+      // The providers live in the background, which makes the test call
+      await sendMessage('validateApiKey', { provider: id, apiKey }, { timeout: 20_000 });
+      await apiKeysStorage.set(keys => ({ ...keys, [id]: apiKey }));
+      setDraft('');
+      setMessage({ text: t('apiKeysValid'), isError: false });
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : String(error), isError: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    await apiKeysStorage.set(keys => {
+      const next = { ...keys };
+      delete next[id];
+      return next;
+    });
+    setMessage({ text: t('apiKeysRemoved'), isError: false });
+  };
+
+  return (
+    <li className="py-3 border-t border-gray-400/30">
+      <div className="flex items-center gap-2">
+        <span className="font-bold">{name}</span>
+        <span className="text-sm opacity-75">
+          {savedKey
+            ? `${t('apiKeysSaved')} ${maskKey(savedKey)}`
+            : optional
+              ? t('apiKeysOptional')
+              : t('apiKeysNotSet')}
+        </span>
+        {manageUrl && (
+          <a className="ml-auto text-sm underline" href={manageUrl} target="_blank" rel="noreferrer">
+            {t('apiKeysManage')}
+          </a>
+        )}
+      </div>
+      <div className="flex gap-2 mt-2">
+        <input
+          type="password"
+          autoComplete="off"
+          className="flex-1 px-2 py-1 rounded border bg-transparent"
+          placeholder={t('apiKeysPlaceholder')}
+          value={draft}
+          disabled={busy}
+          onChange={event => setDraft(event.target.value)}
+          onKeyDown={event => event.key === 'Enter' && handleSave()}
+        />
+        <button className={buttonClassName} disabled={busy || !draft.trim()} onClick={handleSave}>
+          {busy ? t('apiKeysValidating') : t('apiKeysValidateAndSave')}
+        </button>
+        {savedKey && (
+          <button className={buttonClassName} disabled={busy} onClick={handleRemove}>
+            {t('apiKeysRemove')}
+          </button>
+        )}
+      </div>
+      {message && (
+        <p className={`mt-2 text-sm ${message.isError ? 'text-red-500' : 'text-green-600'}`}>{message.text}</p>
+      )}
+    </li>
+  );
+};
+
+export const ApiKeysSection = () => {
+  const keys = useStorage(apiKeysStorage);
+
+  return (
+    <section className="w-full max-w-xl mt-8 text-left text-base">
+      <h2 className="text-xl font-bold">{t('apiKeysTitle')}</h2>
+      <p className="mt-1 opacity-75">{t('apiKeysDescription')}</p>
+
+      {keys === null ? (
+        <p className="mt-4 text-red-500">{t('apiKeysLocked')}</p>
+      ) : (
+        <ul className="mt-4">
+          {providers.map(provider => (
+            <ApiKeyRow key={provider.id} {...provider} savedKey={keys[provider.id]} />
+          ))}
+        </ul>
+      )}
+      <p className="mt-2 text-sm opacity-75">{t('apiKeysRevokeHint')}</p>
+    </section>
+  );
+};
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import type { ChangeEvent } from 'react';
+import type { BackupFile, RestoreAction, RestorePreview } from '@extension/storage';
+import { exportBackup, getBackupFileName, parseBackup, previewRestore, restoreBackup } from '@extension/storage';
+import { t } from '@extension/i18n';
+
+const actionLabels: Record<RestoreAction, string> = {
+  create: t('backupActionCreate'),
+  overwrite: t('backupActionOverwrite'),
+  unchanged: t('backupActionUnchanged'),
+  skip: t('backupActionSkip'),
+};
+
+const buttonClassName = 'py-1 px-4 rounded shadow border-2 font-bold hover:scale-105 disabled:opacity-50';
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const BackupSection = () => {
+  const [gzip, setGzip] = useState(false);
+  const [pending, setPending] = useState<{ backup: BackupFile; preview: RestorePreview } | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await task();
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : String(error), isError: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExport = () =>
+    run(async () => {
+      downloadBlob(await exportBackup({ gzip }), getBackupFileName({ gzip }));
+    });
+
+  const handleFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = '';
+    if (!file) return;
+
+    run(async () => {
+      const backup = await parseBackup(file);
+      setPending({ backup, preview: await previewRestore(backup) });
+    });
+  };
+
+  const handleRestore = () =>
+    run(async () => {
+      if (!pending) return;
+
+      const { storages, collections } = await restoreBackup(pending.backup);
+      const changed = [...storages, ...collections].some(({ action }) => action === 'create' || action === 'overwrite');
+
+      setPending(null);
+      setMessage({ text: t(changed ? 'backupRestored' : 'backupNothingToRestore'), isError: false });
+    });
+
+  return (
+    <section className="w-full max-w-xl mt-8 text-left text-base">
+      <h2 className="text-xl font-bold">{t('backupTitle')}</h2>
+      <p className="mt-1 opacity-75">{t('backupDescription')}</p>
+
+      <div className="flex items-center gap-4 mt-4">
+        <button className={buttonClassName} disabled={busy} onClick={handleExport}>
+          {t('backupExport')}
+        </button>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={gzip} onChange={event => setGzip(event.target.checked)} />
+          {t('backupCompress')}
+        </label>
+        <label className={`${buttonClassName} cursor-pointer`}>
+          {t('backupImport')}
+          <input
+            type="file"
+            accept=".json,.gz,application/json,application/gzip"
+            className="hidden"
+            disabled={busy}
+            onChange={handleFile}
+          />
+        </label>
+      </div>
+
+      {pending && (
+        <div className="mt-4">
+          <p className="font-bold">{t('backupPreviewTitle')}</p>
+          <ul className="mt-2 font-mono text-sm">
+            {pending.preview.storages.map(({ key, storageEnum, action }) => (
+              <li key={`${storageEnum}:${key}`}>
+                {actionLabels[action]}: {key} ({storageEnum})
+              </li>
+            ))}
+            {pending.preview.collections.map(({ name, action, existing, incoming }) => (
+              <li key={name}>
+                {actionLabels[action]}: {name} ({existing} → {incoming})
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-4 mt-4">
+            <button className={buttonClassName} disabled={busy} onClick={handleRestore}>
+              {t('backupRestore')}
+            </button>
+            <button className={buttonClassName} disabled={busy} onClick={() => setPending(null)}>
+              {t('backupCancel')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <p className={`mt-4 ${message.isError ? 'text-red-500' : 'text-green-600'}`}>{message.text}</p>}
+    </section>
+  );
+};
@@ -0,0 +1,109 @@
+import { useStorage } from '@extension/shared';
+import type { LlmProviderId } from '@extension/storage';
+import { defaultLlmSettings, llmSettingsStorage } from '@extension/storage';
+import { t } from '@extension/i18n';
+
+const providerLabels: Record<LlmProviderId, string> = {
+  openai: t('llmProviderOpenai'),
+  anthropic: t('llmProviderAnthropic'),
+  local: t('llmProviderLocal'),
+  mock: t('llmProviderMock'),
+};
+
+// Suggestions only, any model the provider knows can be typed in
+const suggestedModels: Record<LlmProviderId, string[]> = {
+  openai: ['gpt-3.5-turbo', 'gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini'],
+  anthropic: ['claude-3-5-haiku-latest', 'claude-3-5-sonnet-latest', 'claude-3-7-sonnet-latest'],
+  local: ['llama3.1', 'mistral', 'qwen2.5'],
+  mock: ['mock-1'],
+};
+
+const inputClassName = 'w-full px-2 py-1 rounded border bg-transparent';
+
+export const LlmSettingsSection = () => {
+  const settings = useStorage(llmSettingsStorage);
+  const { provider } = settings;
+
+  const update = (changes: Partial<typeof settings>) => llmSettingsStorage.set(current => ({ ...current, ...changes }));
+
+  return (
+    <section className="w-full max-w-xl mt-8 text-left text-base">
+      <h2 className="text-xl font-bold">{t('llmTitle')}</h2>
+      <p className="mt-1 opacity-75">{t('llmDescription')}</p>
+
+      <div className="grid grid-cols-[auto_1fr] items-center gap-x-4 gap-y-2 mt-4">
+        <label htmlFor="llm-provider">{t('llmProvider')}</label>
+        <select
+          id="llm-provider"
+          className={inputClassName}
+          value={provider}
+          onChange={event => update({ provider: event.target.value as LlmProviderId })}>
+          {(Object.keys(providerLabels) as LlmProviderId[]).map(id => (
+            <option key={id} value={id} className="text-gray-900">
+              {providerLabels[id]}
+            </option>
+          ))}
+        </select>
+
+        <label htmlFor="llm-model">{t('llmModel')}</label>
+        <input
+          id="llm-model"
+          className={inputClassName}
+          list="llm-models"
+          value={settings.models[provider]}
+          onChange={event => llmSettingsStorage.setModel(provider, event.target.value)}
+        />
+        <datalist id="llm-models">
+          {suggestedModels[provider].map(model => (
+            <option key={model} value={model} />
+          ))}
+        </datalist>
+
+        {provider === 'local' && (
+          <>
+            <label htmlFor="llm-base-url">{t('llmLocalBaseUrl')}</label>
+            <input
+              id="llm-base-url"
+              type="url"
+              className={inputClassName}
+              value={settings.localBaseUrl}
+              onChange={event => update({ localBaseUrl: event.target.value })}
+            />
+          </>
+        )}
+
+        <label htmlFor="llm-temperature">{t('llmTemperature')}</label>
+        <div className="flex items-center gap-2">
+          <input
+            id="llm-temperature"
+            type="range"
+            className="flex-1"
+            min={0}
+            max={provider === 'anthropic' ? 1 : 2}
+            step={0.1}
+            value={settings.temperature}
+            onChange={event => update({ temperature: Number(event.target.value) })}
+          />
+          <span className="w-8 text-right font-mono">{settings.temperature.toFixed(1)}</span>
+        </div>
+
+        <label htmlFor="llm-max-tokens">{t('llmMaxTokens')}</label>
+        <input
+          id="llm-max-tokens"
+          type="number"
+          className={inputClassName}
+          min={1}
+          max={32000}
+          value={settings.maxTokens}
+          onChange={event => update({ maxTokens: Math.max(1, Math.floor(Number(event.target.value)) || 1) })}
+        />
+      </div>
+
+      <button
+        className="mt-4 py-1 px-4 rounded shadow border-2 font-bold hover:scale-105"
+        onClick={() => llmSettingsStorage.set(defaultLlmSettings)}>
+        {t('llmReset')}
+      </button>
+    </section>
+  );
+};
@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { useStorage } from '@extension/shared';
+import type { LlmBudget, LlmUsageEntry } from '@extension/storage';
+import { getUsageDay, llmBudgetStorage, llmUsageStorage } from '@extension/storage';
+import { t } from '@extension/i18n';
+
+type Period = 'today' | 'month' | 'last30Days';
+
+const periodLabels: Record<Period, string> = {
+  today: t('usageToday'),
+  month: t('usageThisMonth'),
+  last30Days: t('usageLast30Days'),
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const inputClassName = 'w-full px-2 py-1 rounded border bg-transparent';
+
+// Cheap models cost fractions of a cent per request
+const formatDollars = (value: number) => `$${value.toFixed(value > 0 && value < 1 ? 4 : 2)}`;
+
+const sum = (entries: LlmUsageEntry[]) =>
+  entries.reduce(
+    (total, entry) => ({
+      requests: total.requests + entry.requests,
+      inputTokens: total.inputTokens + entry.inputTokens,
+      outputTokens: total.outputTokens + entry.outputTokens,
+      cost: total.cost + entry.cost,
+    }),
+    { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 },
+  );
+
+const groupBy = (entries: LlmUsageEntry[], key: (entry: LlmUsageEntry) => string) => {
+  const groups = new Map<string, LlmUsageEntry[]>();
+  entries.forEach(entry => groups.set(key(entry), [...(groups.get(key(entry)) ?? []), entry]));
+
+  return Array.from(groups, ([name, group]) => ({ name, ...sum(group) }));
+};
+
+const isInPeriod = (day: string, period: Period, today: string) => {
+  switch (period) {
+    case 'today':
+      return day === today;
+    case 'month':
+      return day.slice(0, 7) === today.slice(0, 7);
+    case 'last30Days':
+      return day > getUsageDay(Date.now() - 30 * DAY);
+  }
+};
+
+const SpendBar = ({ label, spent, cap }: { label: string; spent: number; cap: number | null }) => {
+  const ratio = cap ? Math.min(1, spent / cap) : 0;
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm">
+        <span>{label}</span>
+        <span className="font-mono">
+          {formatDollars(spent)} / {cap === null ? t('usageNoCap') : formatDollars(cap)}
+        </span>
+      </div>
+      <div className="h-2 mt-1 rounded bg-gray-400/30 overflow-hidden">
+        <div
+          className={`h-full ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-yellow-500' : 'bg-green-500'}`}
+          style={{ width: `${ratio * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+const CapInput = ({
+  id,
+  label,
+  value,
+  field,
+}: {
+  id: string;
+  label: string;
+  value: number | null;
+  field: keyof LlmBudget;
+}) => (
+  <>
+    <label htmlFor={id}>{label}</label>
+    <input
+      id={id}
+      type="number"
+      className={inputClassName}
+      min={0}
+      step={0.5}
+      placeholder={t('usageNoCap')}
+      value={value ?? ''}
+      onChange={event => {
+        const cap = event.target.value === '' ? null : Math.max(0, Number(event.target.value));
+        llmBudgetStorage.set(budget => ({ ...budget, [field]: cap }));
+      }}
+    />
+  </>
+);
+
+export const LlmUsageSection = () => {
+  const { entries } = useStorage(llmUsageStorage);
+  const budget = useStorage(llmBudgetStorage);
+  const [period, setPeriod] = useState<Period>('month');
+
+  const today = getUsageDay();
+  const spentToday = sum(entries.filter(({ day }) => isInPeriod(day, 'today', today))).cost;
+  const spentThisMonth = sum(entries.filter(({ day }) => isInPeriod(day, 'month', today))).cost;
+
+  const inPeriod = entries.filter(({ day }) => isInPeriod(day, period, today));
+  const byFeature = groupBy(inPeriod, ({ feature }) => feature).sort((a, b) => b.cost - a.cost);
+  const byDay = groupBy(inPeriod, ({ day }) => day).sort((a, b) => b.name.localeCompare(a.name));
+  const mostExpensiveDay = Math.max(0, ...byDay.map(({ cost }) => cost));
+  const total = sum(inPeriod);
+
+  return (
+    <section className="w-full max-w-xl mt-8 text-left text-base">
+      <h2 className="text-xl font-bold">{t('usageTitle')}</h2>
+      <p className="mt-1 opacity-75">{t('usageDescription')}</p>
+
+      <div className="flex flex-col gap-2 mt-4">
+        <SpendBar label={t('usageToday')} spent={spentToday} cap={budget.daily} />
+        <SpendBar label={t('usageThisMonth')} spent={spentThisMonth} cap={budget.monthly} />
+      </div>
+
+      <div className="grid grid-cols-[auto_1fr] items-center gap-x-4 gap-y-2 mt-4">
+        <CapInput id="usage-daily-cap" label={t('usageDailyCap')} value={budget.daily} field="daily" />
+        <CapInput id="usage-monthly-cap" label={t('usageMonthlyCap')} value={budget.monthly} field="monthly" />
+
+        <label htmlFor="usage-period">{t('usagePeriod')}</label>
+        <select
+          id="usage-period"
+          className={inputClassName}
+          value={period}
+          onChange={event => setPeriod(event.target.value as Period)}>
+          {(Object.keys(periodLabels) as Period[]).map(id => (
+            <option key={id} value={id} className="text-gray-900">
+              {periodLabels[id]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {inPeriod.length === 0 ? (
+        <p className="mt-4 opacity-75">{t('usageEmpty')}</p>
+      ) : (
+        <>
+          <table className="w-full mt-4 text-sm">
+            <thead>
+              <tr className="text-left">
+                <th className="py-1">{t('usageFeature')}</th>
+                <th className="py-1 text-right">{t('usageRequests')}</th>
+                <th className="py-1 text-right">{t('usageInputTokens')}</th>
+                <th className="py-1 text-right">{t('usageOutputTokens')}</th>
+                <th className="py-1 text-right">{t('usageCost')}</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {[...byFeature, { ...total, name: '' }].map(row => (
+                <tr key={row.name} className={`border-t border-gray-400/30 ${row.name ? '' : 'font-bold'}`}>
+                  <td className="py-1">{row.name}</td>
+                  <td className="py-1 text-right">{row.requests.toLocaleString()}</td>
+                  <td className="py-1 text-right">{row.inputTokens.toLocaleString()}</td>
+                  <td className="py-1 text-right">{row.outputTokens.toLocaleString()}</td>
+                  <td className="py-1 text-right">{formatDollars(row.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h3 className="mt-4 font-bold">{t('usageByDay')}</h3>
+          <ul className="mt-1 text-sm font-mono">
+            {byDay.map(({ name, cost, requests }) => (
+              <li key={name} className="flex items-center gap-2">
+                <span className="w-24">{name}</span>
+                <span className="flex-1 h-2 rounded bg-gray-400/30 overflow-hidden">
+                  <span
+                    className="block h-full bg-blue-500"
+                    style={{ width: `${mostExpensiveDay ? (cost / mostExpensiveDay) * 100 : 0}%` }}
+                  />
+                </span>
+                <span className="w-20 text-right">{formatDollars(cost)}</span>
+                <span className="w-12 text-right opacity-75">{requests}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <button
+        className="mt-4 py-1 px-4 rounded shadow border-2 font-bold hover:scale-105"
+        onClick={() => llmUsageStorage.set({ entries: [] })}>
+        {t('usageClear')}
+      </button>
+    </section>
+  );
+};
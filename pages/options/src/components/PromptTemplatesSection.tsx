@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { useStorage } from '@extension/shared';
+import type { PromptId } from '@extension/prompts';
+import { defaultPromptTemplates, renderSample, validateTemplate } from '@extension/prompts';
+import { promptOverridesStorage } from '@extension/storage';
+import { t } from '@extension/i18n';
+
+const promptIds = Object.keys(defaultPromptTemplates) as PromptId[];
+
+const inputClassName = 'w-full px-2 py-1 rounded border bg-transparent';
+const buttonClassName = 'py-1 px-4 rounded shadow border-2 font-bold hover:scale-105 disabled:opacity-50';
+
+export const PromptTemplatesSection = () => {
+  const overrides = useStorage(promptOverridesStorage);
+  const [id, setId] = useState<PromptId>(promptIds[0]);
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const defaults = defaultPromptTemplates[id];
+  const override = overrides[id];
+  const saved = override?.template ?? defaults.template;
+  const source = draft ?? saved;
+  const problems = validateTemplate(source, defaults.variables);
+  const isDirty = draft !== null && draft !== saved;
+
+  const handleSelect = (next: PromptId) => {
+    setId(next);
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    await promptOverridesStorage.save(id, source, defaults.version);
+    setDraft(null);
+  };
+
+  const handleRestore = async () => {
+    await promptOverridesStorage.reset(id);
+    setDraft(null);
+  };
+
+  return (
+    <section className="w-full max-w-xl mt-8 text-left text-base">
+      <h2 className="text-xl font-bold">{t('promptsTitle')}</h2>
+      <p className="mt-1 opacity-75">{t('promptsDescription')}</p>
+
+      <div className="grid grid-cols-[auto_1fr] items-center gap-x-4 gap-y-2 mt-4">
+        <label htmlFor="prompt-template">{t('promptsTemplate')}</label>
+        <select
+          id="prompt-template"
+          className={inputClassName}
+          value={id}
+          onChange={event => handleSelect(event.target.value as PromptId)}>
+          {promptIds.map(promptId => (
+            <option key={promptId} value={promptId} className="text-gray-900">
+              {defaultPromptTemplates[promptId].name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <p className="mt-2 text-sm opacity-75">
+        {defaults.description} {t('promptsVersion')} {defaults.version}
+        {override && ` · ${t('promptsCustomized')}`}
+      </p>
+      {override && override.baseVersion < defaults.version && (
+        <p className="mt-1 text-sm text-yellow-600">{t('promptsOutdated')}</p>
+      )}
+
+      <h3 className="mt-4 font-bold">{t('promptsVariables')}</h3>
+      <ul className="mt-1 text-sm">
+        {Object.entries(defaults.variables).map(([name, variable]) => (
+          <li key={name}>
+            <code>{name}</code> <span className="opacity-75">({variable.type})</span> {variable.description}
+          </li>
+        ))}
+      </ul>
+
+      <textarea
+        aria-label={t('promptsTemplate')}
+        className={`${inputClassName} mt-4 h-64 font-mono text-sm`}
+        spellCheck={false}
+        value={source}
+        onChange={event => setDraft(event.target.value)}
+      />
+      {problems.map(problem => (
+        <p key={problem} className="text-sm text-red-500">
+          {problem}
+        </p>
+      ))}
+
+      <div className="flex items-center gap-2 mt-2">
+        <button className={buttonClassName} disabled={!isDirty || problems.length > 0} onClick={handleSave}>
+          {t('promptsSave')}
+        </button>
+        <button className={buttonClassName} disabled={!override && !isDirty} onClick={handleRestore}>
+          {t('promptsRestore')}
+        </button>
+        {isDirty && <span className="text-sm opacity-75">{t('promptsUnsaved')}</span>}
+      </div>
+
+      {problems.length === 0 && (
+        <>
+          <h3 className="mt-4 font-bold">{t('promptsPreview')}</h3>
+          <pre className="mt-1 p-2 rounded border whitespace-pre-wrap text-sm">
+            {renderSample(source, defaults.variables)}
+          </pre>
+        </>
+      )}
+    </section>
+  );
+};
@@ -2,7 +2,7 @@ import '@src/Popup.css';
 import { useStorage, withErrorBoundary, withSuspense } from '@extension/shared';
 import { exampleThemeStorage } from '@extension/storage';
 import { t } from '@extension/i18n';
-import { ToggleButton } from '@extension/ui';
+import { LlmQueueIndicator, QuotaWarning, ToggleButton } from '@extension/ui';
 
 const notificationOptions = {
   type: 'basic',
@@ -41,6 +41,8 @@ const Popup = () => {
   return (
     <div className={`App ${isLight ? 'bg-slate-50' : 'bg-gray-800'}`}>
       <header className={`App-header ${isLight ? 'text-gray-900' : 'text-gray-100'}`}>
+        <QuotaWarning className="mb-2" />
+        <LlmQueueIndicator className="mb-2" />
         <button onClick={goGithubSite}>
           <img src={chrome.runtime.getURL(logo)} className="App-logo" alt="logo" />
         </button>
@@ -1,27 +1,94 @@
 import '@src/SidePanel.css';
+import { useState } from 'react';
 import { useStorage, withErrorBoundary, withSuspense } from '@extension/shared';
-import { exampleThemeStorage } from '@extension/storage';
-import { ToggleButton } from '@extension/ui';
+import { chatThreadsStorage, exampleThemeStorage, lessonNotesStorage } from '@extension/storage';
+import { LlmQueueIndicator, QuestionBank, QuizPractice, ToggleButton } from '@extension/ui';
 import { t } from '@extension/i18n';
+import { ChatView } from '@src/components/ChatView';
+import { NoteList } from '@src/components/NoteList';
+import { NoteView } from '@src/components/NoteView';
+import { ThreadList } from '@src/components/ThreadList';
+import { useTutorChat } from '@src/hooks/useTutorChat';
+
+type View = 'chat' | 'threads' | 'notes' | 'quiz';
 
 const SidePanel = () => {
   const theme = useStorage(exampleThemeStorage);
+  const threads = useStorage(chatThreadsStorage);
+  const [view, setView] = useState<View>('chat');
+  const notes = useStorage(lessonNotesStorage);
+  const [threadId, setThreadId] = useState<string | null>(null);
+  const [noteId, setNoteId] = useState<string | null>(null);
+  const [quizMode, setQuizMode] = useState<'practice' | 'bank'>('practice');
   const isLight = theme === 'light';
-  const logo = isLight ? 'side-panel/logo_vertical.svg' : 'side-panel/logo_vertical_dark.svg';
-  const goGithubSite = () =>
-    chrome.tabs.create({ url: 'https://github.com/Jonghakseo/chrome-extension-boilerplate-react-vite' });
+
+  // Deleted threads fall back to a new chat
+  const thread = threads.find(({ id }) => id === threadId);
+  // Kept here so the answer keeps streaming while the history is open
+  const chat = useTutorChat(thread, setThreadId);
+  const note = notes.find(({ id }) => id === noteId);
+
+  const openThread = (id: string | null) => {
+    setThreadId(id);
+    setView('chat');
+  };
 
   return (
-    <div className={`App ${isLight ? 'bg-slate-50' : 'bg-gray-800'}`}>
-      <header className={`App-header ${isLight ? 'text-gray-900' : 'text-gray-100'}`}>
-        <button onClick={goGithubSite}>
-          <img src={chrome.runtime.getURL(logo)} className="App-logo" alt="logo" />
-        </button>
-        <p>
-          Edit <code>pages/side-panel/src/SidePanel.tsx</code>
-        </p>
+    <div className={`App ${isLight ? 'bg-slate-50 text-gray-900' : 'bg-gray-800 text-gray-100'}`}>
+      <header className="flex items-end gap-2">
+        <h1 className="flex-1 min-w-0 truncate text-left text-lg font-bold">
+          {view === 'notes'
+            ? t('notesTitle')
+            : view === 'quiz'
+              ? t('quizTitle')
+              : view === 'chat' && thread
+                ? thread.title
+                : t('tutorTitle')}
+        </h1>
+        {view === 'chat' ? (
+          <>
+            <button className="px-2 py-1 rounded border text-sm" onClick={() => setView('threads')}>
+              {t('tutorHistory')} ({threads.length})
+            </button>
+            <button className="px-2 py-1 rounded border text-sm" onClick={() => setView('notes')}>
+              {t('notesOpen')} ({notes.length})
+            </button>
+            <button className="px-2 py-1 rounded border text-sm" onClick={() => setView('quiz')}>
+              {t('quizOpen')}
+            </button>
+          </>
+        ) : (
+          <button className="px-2 py-1 rounded border text-sm" onClick={() => setView('chat')}>
+            {t('tutorBack')}
+          </button>
+        )}
         <ToggleButton onClick={exampleThemeStorage.toggle}>{t('toggleTheme')}</ToggleButton>
       </header>
+      <LlmQueueIndicator />
+      {view === 'chat' && <ChatView key={thread?.id ?? 'new'} thread={thread} chat={chat} />}
+      {view === 'threads' && <ThreadList threads={threads} onOpen={openThread} onNew={() => openThread(null)} />}
+      {view === 'notes' &&
+        (note ? (
+          <NoteView note={note} onBack={() => setNoteId(null)} />
+        ) : (
+          <NoteList notes={notes} onOpen={setNoteId} />
+        ))}
+      {view === 'quiz' && (
+        <>
+          <nav className="flex gap-2">
+            {(['practice', 'bank'] as const).map(mode => (
+              <button
+                key={mode}
+                className={`px-2 py-1 rounded border text-sm ${quizMode === mode ? 'font-bold' : 'opacity-75'}`}
+                aria-pressed={quizMode === mode}
+                onClick={() => setQuizMode(mode)}>
+                {mode === 'practice' ? t('quizPractice') : t('quizBank')}
+              </button>
+            ))}
+          </nav>
+          {quizMode === 'practice' ? <QuizPractice /> : <QuestionBank />}
+        </>
+      )}
     </div>
   );
 };
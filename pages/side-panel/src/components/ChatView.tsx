@@ -0,0 +1,133 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ChatThread, LlmQueueStatus } from '@extension/storage';
+import { Markdown } from '@extension/ui';
+import { t } from '@extension/i18n';
+import type { TutorChat } from '@src/hooks/useTutorChat';
+import { readActiveLesson } from '@src/hooks/useTutorChat';
+
+const buttonClassName = 'px-2 rounded border text-sm disabled:opacity-50';
+
+const formatQueue = (status: LlmQueueStatus) => {
+  switch (status.state) {
+    case 'queued':
+      return t('tutorQueued');
+    case 'running':
+      return t('tutorThinking');
+    case 'retrying':
+      return t('tutorRetrying');
+  }
+};
+
+type ChatViewProps = {
+  thread: ChatThread | undefined;
+  chat: TutorChat;
+};
+
+/**
+ * A conversation with the tutor, with the lesson attached to it and the input for the next message.
+ */
+export const ChatView = ({ thread, chat }: ChatViewProps) => {
+  const { send, cancel, lesson, setLesson, queue, isStreaming, streamingText } = chat;
+  const [input, setInput] = useState('');
+  const [lessonError, setLessonError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const messages = thread?.messages ?? [];
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length, streamingText]);
+
+  const handleSend = () => {
+    const text = input.trim();
+    if (!text || isStreaming) return;
+    setInput('');
+    send(text);
+  };
+
+  const handleAttach = async () => {
+    setLessonError(null);
+    try {
+      const next = await readActiveLesson();
+      if (next) await setLesson(next);
+      else setLessonError(t('tutorNoLesson'));
+    } catch (error) {
+      // The active tab has no content script, e.g. it is not a course page
+      console.warn('Reading the lesson failed:', error);
+      setLessonError(t('tutorNoLesson'));
+    }
+  };
+
+  return (
+    <section className="flex flex-col flex-1 gap-2 min-h-0">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {lesson ? (
+          <span className="flex items-center gap-1 max-w-full py-0.5 px-2 rounded-full bg-blue-100 text-blue-900">
+            <span className="truncate" title={lesson.url}>
+              {t('tutorLesson')}: {lesson.title || lesson.url}
+            </span>
+            <button aria-label={t('tutorDetachLesson')} onClick={() => setLesson(undefined)}>
+              ×
+            </button>
+          </span>
+        ) : (
+          <button className={buttonClassName} onClick={handleAttach}>
+            {t('tutorAttachLesson')}
+          </button>
+        )}
+        {lessonError && <span className="text-red-500">{lessonError}</span>}
+      </div>
+
+      <div className="flex flex-col flex-1 gap-3 overflow-y-auto text-sm text-left">
+        {messages.length === 0 && streamingText === null && <p className="opacity-75">{t('tutorEmpty')}</p>}
+        {messages.map(message => (
+          <div
+            key={message.id}
+            className={
+              message.role === 'user' ? 'self-end max-w-[85%] py-1 px-3 rounded-lg bg-blue-500 text-white' : 'w-full'
+            }>
+            {message.role === 'user' ? (
+              <p className="whitespace-pre-wrap break-words">{message.content}</p>
+            ) : (
+              <Markdown>{message.content}</Markdown>
+            )}
+            {message.error && <p className="text-xs text-red-500">{message.error}</p>}
+          </div>
+        ))}
+        {streamingText !== null && (
+          <div className="w-full" aria-busy="true">
+            {streamingText ? <Markdown>{streamingText}</Markdown> : <p className="opacity-75">…</p>}
+            {queue && <p className="text-xs opacity-75">{formatQueue(queue)}</p>}
+          </div>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="flex gap-2">
+        <textarea
+          className="flex-1 px-2 py-1 rounded border bg-transparent text-sm resize-none"
+          rows={3}
+          placeholder={t('tutorPlaceholder')}
+          value={input}
+          onChange={event => setInput(event.target.value)}
+          onKeyDown={event => {
+            // Shift+Enter adds a line, answers to other threads have to finish first
+            if (event.key === 'Enter' && !event.shiftKey) {
+              event.preventDefault();
+              handleSend();
+            }
+          }}
+        />
+        {streamingText !== null ? (
+          <button className={buttonClassName} onClick={cancel}>
+            {t('tutorStop')}
+          </button>
+        ) : (
+          <button className={buttonClassName} disabled={!input.trim() || isStreaming} onClick={handleSend}>
+            {t('tutorSend')}
+          </button>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import type { JobInput, JobResult } from '@extension/messaging';
+import { cancelJob, startJob } from '@extension/messaging';
+import { useStorage } from '@extension/shared';
+import type { BackgroundJob, FlashcardDraft, LessonNote } from '@extension/storage';
+import { backgroundJobsStorage, flashcardDraftsStorage } from '@extension/storage';
+import { t } from '@extension/i18n';
+
+const buttonClassName = 'px-2 rounded border text-sm disabled:opacity-50';
+const inputClassName = 'w-full px-2 py-1 rounded border bg-transparent text-sm';
+
+const errorText = (label: string, cause: unknown) =>
+  `${label}: ${cause instanceof Error ? cause.message : String(cause)}`;
+
+const isJobOf = (job: BackgroundJob, note: LessonNote) =>
+  job.type === 'makeFlashcards' && (job.input as JobInput<'makeFlashcards'>).noteId === note.id;
+
+type DraftItemProps = {
+  draft: FlashcardDraft;
+  // While all drafts are accepted at once
+  disabled: boolean;
+};
+
+const DraftItem = ({ draft, disabled }: DraftItemProps) => {
+  const [edits, setEdits] = useState<{ front: string; back: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>, label: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (cause) {
+      setError(errorText(label, cause));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const errorMessage = error && <p className="text-sm text-red-500">{error}</p>;
+
+  if (edits) {
+    return (
+      <li className="flex flex-col gap-1 py-2">
+        <textarea
+          className={inputClassName}
+          aria-label={t('flashcardsFront')}
+          rows={2}
+          value={edits.front}
+          onChange={event => setEdits({ ...edits, front: event.target.value })}
+        />
+        <textarea
+          className={inputClassName}
+          aria-label={t('flashcardsBack')}
+          rows={2}
+          value={edits.back}
+          onChange={event => setEdits({ ...edits, back: event.target.value })}
+        />
+        <div className="flex gap-2">
+          <button
+            className={buttonClassName}
+            disabled={disabled || busy || !edits.front.trim() || !edits.back.trim()}
+            onClick={() => run(() => flashcardDraftsStorage.accept(draft, edits), t('flashcardsAcceptFailed'))}>
+            {t('flashcardsAccept')}
+          </button>
+          <button className={buttonClassName} disabled={busy} onClick={() => setEdits(null)}>
+            {t('flashcardsCancel')}
+          </button>
+        </div>
+        {errorMessage}
+      </li>
+    );
+  }
+
+  return (
+    <li className="flex flex-col gap-1 py-2">
+      <div className="font-bold whitespace-pre-wrap">
+        {draft.kind === 'cloze' && (
+          <span className="mr-1 px-1 rounded bg-gray-400/30 text-xs">{t('flashcardsCloze')}</span>
+        )}
+        {draft.front}
+      </div>
+      <div className="whitespace-pre-wrap">{draft.back}</div>
+      {draft.source.excerpt && (
+        <blockquote className="pl-2 border-l-4 border-gray-400/50 text-xs opacity-75 line-clamp-3">
+          {draft.source.excerpt}
+        </blockquote>
+      )}
+      <div className="flex gap-2">
+        <button
+          className={buttonClassName}
+          disabled={disabled || busy}
+          onClick={() => run(() => flashcardDraftsStorage.accept(draft), t('flashcardsAcceptFailed'))}>
+          {t('flashcardsAccept')}
+        </button>
+        <button
+          className={buttonClassName}
+          disabled={disabled || busy}
+          onClick={() => setEdits({ front: draft.front, back: draft.back })}>
+          {t('flashcardsEdit')}
+        </button>
+        <button
+          className={buttonClassName}
+          disabled={disabled || busy}
+          onClick={() => run(() => flashcardDraftsStorage.delete(draft.id), t('flashcardsRejectFailed'))}>
+          {t('flashcardsReject')}
+        </button>
+      </div>
+      {errorMessage}
+    </li>
+  );
+};
+
+/**
+ * Makes flashcards from a lesson note with the language model, in a background job which goes on when the panel
+ * closes, and queues the drafts for the learner to accept, edit or reject before they enter the deck.
+ */
+export const FlashcardDrafts = ({ note }: { note: LessonNote }) => {
+  const { jobs } = useStorage(backgroundJobsStorage);
+  const allDrafts = useStorage(flashcardDraftsStorage);
+  const [error, setError] = useState<string | null>(null);
+  const [acceptingAll, setAcceptingAll] = useState(false);
+
+  const job = Object.values(jobs)
+    .filter(candidate => isJobOf(candidate, note))
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+  const running = job?.state === 'queued' || job?.state === 'running';
+  const drafts = allDrafts
+    .filter(({ source }) => source.noteId === note.id)
+    .sort((a, b) => a.createdAt - b.createdAt || a.id.localeCompare(b.id));
+
+  const handleMake = async () => {
+    setError(null);
+    try {
+      await startJob('makeFlashcards', { noteId: note.id });
+    } catch (cause) {
+      setError(errorText(t('flashcardsMakeFailed'), cause));
+    }
+  };
+
+  const handleCancel = async (id: string) => {
+    setError(null);
+    try {
+      await cancelJob(id);
+    } catch (cause) {
+      setError(errorText(t('flashcardsCancelFailed'), cause));
+    }
+  };
+
+  const handleAcceptAll = async () => {
+    setError(null);
+    setAcceptingAll(true);
+    try {
+      for (const draft of drafts) await flashcardDraftsStorage.accept(draft);
+    } catch (cause) {
+      setError(errorText(t('flashcardsAcceptFailed'), cause));
+    } finally {
+      setAcceptingAll(false);
+    }
+  };
+
+  return (
+    <section className="flex flex-col gap-1">
+      <div className="flex items-center gap-2">
+        {running ? (
+          <>
+            <span className="flex-1 text-sm">
+              {t('flashcardsMaking')}
+              {job.progress && ` ${job.progress.done}/${job.progress.total}`}
+            </span>
+            <button className={buttonClassName} onClick={() => handleCancel(job.id)}>
+              {t('flashcardsCancel')}
+            </button>
+          </>
+        ) : (
+          <button className={buttonClassName} onClick={handleMake}>
+            {t('flashcardsMake')}
+          </button>
+        )}
+      </div>
+      {(error || job?.state === 'failed') && (
+        <p className="text-sm text-red-500">{error ?? `${t('flashcardsMakeFailed')}: ${job?.error}`}</p>
+      )}
+      {job?.state === 'completed' && (job.result as JobResult<'makeFlashcards'>).drafts === 0 && (
+        <p className="text-sm opacity-75">{t('flashcardsNoDrafts')}</p>
+      )}
+      {drafts.length > 0 && (
+        <>
+          <div className="flex items-center gap-2">
+            <h3 className="flex-1 text-sm font-bold">
+              {t('flashcardsDrafts')} ({drafts.length})
+            </h3>
+            <button className={buttonClassName} disabled={acceptingAll} onClick={handleAcceptAll}>
+              {t('flashcardsAcceptAll')}
+            </button>
+          </div>
+          <ul className="divide-y divide-gray-400/30 text-sm">
+            {drafts.map(draft => (
+              <DraftItem key={draft.id} draft={draft} disabled={acceptingAll} />
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+};
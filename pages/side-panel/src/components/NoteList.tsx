@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import type { LessonNote } from '@extension/storage';
+import { t } from '@extension/i18n';
+
+const matches = (note: LessonNote, needle: string) =>
+  !needle || [note.title, note.course, note.unit, note.text].some(value => value.toLowerCase().includes(needle));
+
+/**
+ * Groups notes by course and unit, in the order they were first read.
+ */
+const groupNotes = (notes: LessonNote[]) => {
+  const groups = new Map<string, { course: string; unit: string; notes: LessonNote[] }>();
+  [...notes]
+    .sort((a, b) => a.capturedAt - b.capturedAt)
+    .forEach(note => {
+      const key = JSON.stringify([note.course, note.unit]);
+      const group = groups.get(key) ?? { course: note.course, unit: note.unit, notes: [] };
+      group.notes.push(note);
+      groups.set(key, group);
+    });
+
+  return [...groups.values()];
+};
+
+type NoteListProps = {
+  notes: LessonNote[];
+  onOpen: (id: string) => void;
+};
+
+/**
+ * Lesson notes captured from the course pages, by course and unit, searchable by title and text.
+ */
+export const NoteList = ({ notes, onOpen }: NoteListProps) => {
+  const [search, setSearch] = useState('');
+
+  const needle = search.trim().toLowerCase();
+  const groups = groupNotes(notes.filter(note => matches(note, needle)));
+
+  return (
+    <section className="flex flex-col gap-2 min-h-0">
+      <input
+        type="search"
+        className="px-2 py-1 rounded border bg-transparent text-sm"
+        placeholder={t('notesSearch')}
+        value={search}
+        onChange={event => setSearch(event.target.value)}
+      />
+      {groups.length === 0 ? (
+        <p className="text-sm opacity-75">{needle ? t('notesNoMatches') : t('notesEmpty')}</p>
+      ) : (
+        <div className="flex flex-col gap-3 overflow-y-auto">
+          {groups.map(({ course, unit, notes }) => (
+            <section key={`${course}::${unit}`}>
+              <h2 className="text-sm font-bold">
+                {course || t('notesNoCourse')}
+                {unit && <span className="font-normal opacity-75"> · {unit}</span>}
+              </h2>
+              <ul className="divide-y divide-gray-400/30">
+                {notes.map(note => (
+                  <li key={note.id}>
+                    <button className="w-full py-2 text-left" onClick={() => onOpen(note.id)}>
+                      <div className="truncate">{note.title || note.text.slice(0, 60)}</div>
+                      <div className="text-xs opacity-75">{new Date(note.capturedAt).toLocaleString()}</div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,53 @@
+import { useMemo } from 'react';
+import { sanitizeNoteHtml } from '@extension/shared';
+import type { LessonNote } from '@extension/storage';
+import { lessonNotesStorage } from '@extension/storage';
+import { t } from '@extension/i18n';
+import { FlashcardDrafts } from '@src/components/FlashcardDrafts';
+
+const buttonClassName = 'px-2 rounded border text-sm';
+
+type NoteViewProps = {
+  note: LessonNote;
+  onBack: () => void;
+};
+
+/**
+ * A lesson note with the formatting of the lesson page, and the flashcards made from it waiting for review.
+ */
+export const NoteView = ({ note, onBack }: NoteViewProps) => {
+  const html = useMemo(() => sanitizeNoteHtml(note.html, note.url), [note.html, note.url]);
+
+  const handleDelete = async () => {
+    if (!confirm(t('notesDeleteConfirm'))) return;
+    await lessonNotesStorage.delete(note.id);
+    onBack();
+  };
+
+  return (
+    <article className="flex flex-col gap-2 min-h-0 overflow-y-auto text-left">
+      <div className="flex gap-2">
+        <button className={buttonClassName} onClick={onBack}>
+          {t('notesBack')}
+        </button>
+        <span className="flex-1" />
+        <a className={buttonClassName} href={note.url} target="_blank" rel="noreferrer noopener">
+          {t('notesOpenLesson')}
+        </a>
+        <button className={buttonClassName} onClick={handleDelete}>
+          {t('notesDelete')}
+        </button>
+      </div>
+      <div className="text-xs opacity-75">
+        {[note.course, note.unit, new Date(note.capturedAt).toLocaleString()].filter(Boolean).join(' · ')}
+      </div>
+      <FlashcardDrafts note={note} />
+      {note.title && <h2 className="text-base font-bold">{note.title}</h2>}
+      <div
+        className="text-sm flex flex-col gap-2 [&_a]:underline [&_li]:ml-5 [&_ol]:list-decimal [&_ul]:list-disc [&_td]:border [&_td]:px-1 [&_th]:border [&_th]:px-1"
+        // Notes come from content scripts and backups: formatting elements and http(s) links only, no attributes
+        dangerouslySetInnerHTML={{ __html: html }}
+      />
+    </article>
+  );
+};
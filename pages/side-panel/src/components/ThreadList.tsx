@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import type { ChatThread } from '@extension/storage';
+import { chatThreadsStorage } from '@extension/storage';
+import { t } from '@extension/i18n';
+
+const buttonClassName = 'px-2 rounded border text-sm';
+
+const matches = (thread: ChatThread, needle: string) =>
+  !needle ||
+  thread.title.toLowerCase().includes(needle) ||
+  thread.messages.some(({ content }) => content.toLowerCase().includes(needle));
+
+type ThreadListProps = {
+  threads: ChatThread[];
+  onOpen: (id: string) => void;
+  onNew: () => void;
+};
+
+const ThreadItem = ({ thread, onOpen }: { thread: ChatThread; onOpen: (id: string) => void }) => {
+  const [title, setTitle] = useState<string | null>(null);
+
+  const handleRename = async () => {
+    const next = title?.trim();
+    setTitle(null);
+    if (!next || next === thread.title) return;
+    const latest = (await chatThreadsStorage.getByKey(thread.id)) ?? thread;
+    await chatThreadsStorage.put({ ...latest, title: next });
+  };
+
+  const handleDelete = () => {
+    if (confirm(t('tutorDeleteConfirm'))) chatThreadsStorage.delete(thread.id);
+  };
+
+  if (title !== null) {
+    return (
+      <li className="flex gap-2 py-2">
+        <input
+          className="flex-1 px-2 rounded border bg-transparent text-sm"
+          aria-label={t('tutorRename')}
+          value={title}
+          onChange={event => setTitle(event.target.value)}
+          onKeyDown={event => {
+            if (event.key === 'Enter') handleRename();
+            if (event.key === 'Escape') setTitle(null);
+          }}
+          // eslint-disable-next-line jsx-a11y/no-autofocus
+          autoFocus
+        />
+        <button className={buttonClassName} onClick={handleRename}>
+          {t('tutorSave')}
+        </button>
+      </li>
+    );
+  }
+
+  return (
+    <li className="flex items-start gap-2 py-2">
+      <button className="flex-1 min-w-0 text-left" onClick={() => onOpen(thread.id)}>
+        <div className="truncate font-bold">{thread.title}</div>
+        <div className="text-xs opacity-75">
+          {new Date(thread.updatedAt).toLocaleString()} · {thread.messages.length}
+          {thread.lesson && ` · ${thread.lesson.title}`}
+        </div>
+      </button>
+      <button className={buttonClassName} onClick={() => setTitle(thread.title)}>
+        {t('tutorRename')}
+      </button>
+      <button className={buttonClassName} onClick={handleDelete}>
+        {t('tutorDelete')}
+      </button>
+    </li>
+  );
+};
+
+/**
+ * Saved tutor conversations, most recent first, searchable by title and message text.
+ */
+export const ThreadList = ({ threads, onOpen, onNew }: ThreadListProps) => {
+  const [search, setSearch] = useState('');
+
+  const needle = search.trim().toLowerCase();
+  const visible = threads.filter(thread => matches(thread, needle)).sort((a, b) => b.updatedAt - a.updatedAt);
+
+  return (
+    <section className="flex flex-col gap-2 min-h-0">
+      <div className="flex gap-2">
+        <input
+          type="search"
+          className="flex-1 px-2 py-1 rounded border bg-transparent text-sm"
+          placeholder={t('tutorSearch')}
+          value={search}
+          onChange={event => setSearch(event.target.value)}
+        />
+        <button className={buttonClassName} onClick={onNew}>
+          {t('tutorNewChat')}
+        </button>
+      </div>
+      {visible.length === 0 ? (
+        <p className="text-sm opacity-75">{needle ? t('tutorNoMatches') : t('tutorNoThreads')}</p>
+      ) : (
+        <ul className="overflow-y-auto divide-y divide-gray-400/30">
+          {visible.map(thread => (
+            <ThreadItem key={thread.id} thread={thread} onOpen={onOpen} />
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
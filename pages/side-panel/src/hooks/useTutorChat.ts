@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState } from 'react';
+import { MessagingError, sendMessage, streamMessage } from '@extension/messaging';
+import type { ChatThread, ChatThreadMessage, LessonContext, LlmQueueStatus } from '@extension/storage';
+import { chatThreadsStorage } from '@extension/storage';
+import { t } from '@extension/i18n';
+
+const MAX_TITLE_LENGTH = 60;
+
+const createMessage = (role: ChatThreadMessage['role'], content: string, error?: string): ChatThreadMessage => ({
+  id: crypto.randomUUID(),
+  role,
+  content,
+  createdAt: Date.now(),
+  ...(error && { error }),
+});
+
+const titleFrom = (text: string) => {
+  const line = text.trim().split('\n')[0];
+  return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH - 1)}…` : line;
+};
+
+const errorMessage = (error: unknown) => {
+  if (error instanceof MessagingError && error.code === 'cancelled') return t('tutorCancelled');
+  return error instanceof Error ? error.message : String(error);
+};
+
+/**
+ * Reads the lesson of the active tab from its content script. Resolves `null` when the tab shows no lesson.
+ */
+export const readActiveLesson = async () => {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (tab?.id === undefined) return null;
+  return sendMessage('getLessonContext', undefined, { tabId: tab.id, timeout: 5000 });
+};
+
+/**
+ * Sends messages to the tutor in a thread of {@link chatThreadsStorage}. The answer is kept in state while it streams
+ * and saved to the thread once it completes, fails or is cancelled. Without a thread, sending starts a new one.
+ */
+export const useTutorChat = (thread: ChatThread | undefined, onThreadCreated: (id: string) => void) => {
+  const [streaming, setStreaming] = useState<{ threadId: string; text: string } | null>(null);
+  const [queue, setQueue] = useState<LlmQueueStatus | null>(null);
+  // Lesson attached before the first message, when there is no thread to save it in yet
+  const [draftLesson, setDraftLesson] = useState<LessonContext | undefined>();
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the panel stops the answer, the partial text is saved as cancelled
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const lesson = thread ? thread.lesson : draftLesson;
+
+  const setLesson = async (next: LessonContext | undefined) => {
+    if (!thread) {
+      setDraftLesson(next);
+      return;
+    }
+    const latest = (await chatThreadsStorage.getByKey(thread.id)) ?? thread;
+    await chatThreadsStorage.put({ ...latest, lesson: next, updatedAt: Date.now() });
+  };
+
+  const send = async (text: string) => {
+    if (!text.trim() || abortRef.current) return;
+
+    const now = Date.now();
+    const base: ChatThread = thread ?? {
+      id: crypto.randomUUID(),
+      title: titleFrom(text),
+      messages: [],
+      lesson: draftLesson,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const asked: ChatThread = { ...base, messages: [...base.messages, createMessage('user', text)], updatedAt: now };
+    await chatThreadsStorage.put(asked);
+    if (!thread) {
+      setDraftLesson(undefined);
+      onThreadCreated(asked.id);
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStreaming({ threadId: asked.id, text: '' });
+
+    let streamed = '';
+    let answer: ChatThreadMessage;
+    try {
+      const { text: result } = await streamMessage(
+        'streamTutorChat',
+        {
+          // Failed answers are shown in the thread but not sent back to the model
+          messages: asked.messages.filter(({ error }) => !error).map(({ role, content }) => ({ role, content })),
+          lesson: asked.lesson,
+        },
+        {
+          onChunk: chunk => {
+            if (chunk.queue) {
+              setQueue(chunk.queue);
+              return;
+            }
+            setQueue(null);
+            streamed += chunk.text;
+            setStreaming({ threadId: asked.id, text: streamed });
+          },
+          signal: controller.signal,
+        },
+      );
+      answer = createMessage('assistant', result);
+    } catch (error) {
+      console.error('Tutor chat failed:', error);
+      answer = createMessage('assistant', streamed, errorMessage(error));
+    } finally {
+      abortRef.current = null;
+      setQueue(null);
+    }
+
+    // The thread may have been renamed or given a lesson meanwhile, or deleted, in which case the answer is dropped
+    const latest = await chatThreadsStorage.getByKey(asked.id);
+    if (latest) {
+      await chatThreadsStorage.put({ ...latest, messages: [...latest.messages, answer], updatedAt: Date.now() });
+    }
+    setStreaming(null);
+  };
+
+  const cancel = () => abortRef.current?.abort();
+
+  return {
+    send,
+    cancel,
+    lesson,
+    setLesson,
+    queue,
+    isStreaming: streaming !== null,
+    streamingText: streaming && streaming.threadId === thread?.id ? streaming.text : null,
+  };
+};
+
+export type TutorChat = ReturnType<typeof useTutorChat>;
@@ -20,7 +20,8 @@ export const config: WebdriverIO.Config = {
   //
   // The path of the spec files will be resolved relative from the directory
   // of the config file unless it's absolute.
-  specs: ['../specs/**/*.ts'],
+  // Builds answering the AI features from tests/e2e/fixtures/llm only run the specs of those features
+  specs: process.env.CEB_LLM_MODE === 'replay' ? ['../specs/llm-*.test.ts'] : ['../specs/**/*.ts'],
   // Patterns to exclude.
   exclude: [],
   //
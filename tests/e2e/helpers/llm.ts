@@ -0,0 +1,18 @@
+type ExtensionGlobal = {
+  chrome: { runtime: { sendMessage: (message: unknown) => Promise<unknown> } };
+};
+
+/**
+ * Sends a prompt to the background like the content UI does, from the extension page currently open.
+ * Resolves with the raw response envelope of the messaging package.
+ */
+export const sendPrompt = (text: string) =>
+  browser.execute(
+    (prompt: string) =>
+      (globalThis as unknown as ExtensionGlobal).chrome.runtime.sendMessage({
+        channel: 'extension-messaging',
+        route: 'completePrompt',
+        request: { text: prompt },
+      }),
+    text,
+  );
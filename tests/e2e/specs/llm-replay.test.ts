@@ -0,0 +1,26 @@
+import { sendPrompt } from '../helpers/llm.js';
+
+describe('LLM Replay Mode', () => {
+  before(async function () {
+    if (process.env.CEB_LLM_MODE !== 'replay') {
+      // Needs a build with CEB_LLM_MODE=replay, which answers from tests/e2e/fixtures/llm
+      this.skip();
+    }
+
+    const extensionPath = await browser.getExtensionPath();
+    await browser.url(`${extensionPath}/options/index.html`);
+  });
+
+  it('should answer a recorded prompt without network or API key', async () => {
+    const response = await sendPrompt('Reply with the single word: pong');
+
+    await expect(response).toEqual({ ok: true, response: { text: 'pong' } });
+  });
+
+  it('should fail loudly on a prompt which was not recorded', async () => {
+    const response = (await sendPrompt('A prompt nobody recorded')) as { ok: boolean; error?: { message: string } };
+
+    await expect(response.ok).toBe(false);
+    await expect(response.error?.message).toContain('No recorded LLM fixture matches');
+  });
+});
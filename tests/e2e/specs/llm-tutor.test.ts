@@ -0,0 +1,29 @@
+describe('LLM Tutor Chat', () => {
+  before(async function () {
+    if (process.env.CEB_LLM_MODE !== 'replay') {
+      // Needs a build with CEB_LLM_MODE=replay, which answers from tests/e2e/fixtures/llm
+      this.skip();
+    }
+
+    const extensionPath = await browser.getExtensionPath();
+    await browser.url(`${extensionPath}/side-panel/index.html`);
+  });
+
+  it('should stream the answer of the tutor into a new thread', async () => {
+    const question = 'What is an easement?';
+
+    await $('textarea').setValue(question);
+    await $('button=Send').click();
+
+    // The answer is rendered as Markdown once it completes
+    await expect($('strong=easement')).toBeDisplayed();
+    await expect($('p*=like a shared driveway')).toBeDisplayed();
+    await expect($('h1')).toHaveText(question);
+  });
+
+  it('should keep the thread in the history', async () => {
+    await $('button*=History').click();
+
+    await expect($('button*=What is an easement?')).toBeDisplayed();
+  });
+});